@@ -1,8 +1,9 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Upload, FileText, Check, AlertCircle, X, Download, HelpCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { parseAnnotationText } from "@/lib/annotationParser";
 
 export interface AnnotationData {
   sampleColumn: string;
@@ -13,29 +14,21 @@ export interface AnnotationData {
 interface AnnotationUploaderProps {
   onAnnotationLoaded: (annotation: AnnotationData) => void;
   sampleIds?: string[]; // Optional: sample IDs from NMF data to validate against
+  annotation?: AnnotationData; // Optional: annotation loaded elsewhere (e.g. from an R output bundle)
 }
 
-const parseDelimitedFile = (text: string): { headers: string[]; rows: string[][] } => {
-  const lines = text.trim().split(/\r?\n/);
-  if (lines.length === 0) return { headers: [], rows: [] };
-  
-  // Detect delimiter (tab vs comma)
-  const firstLine = lines[0];
-  const delimiter = firstLine.includes('\t') ? '\t' : ',';
-  
-  const headers = lines[0].split(delimiter).map(h => h.trim().replace(/^["']|["']$/g, ''));
-  const rows = lines.slice(1).map(line => 
-    line.split(delimiter).map(cell => cell.trim().replace(/^["']|["']$/g, ''))
-  );
-  
-  return { headers, rows };
-};
-
-export const AnnotationUploader = ({ onAnnotationLoaded, sampleIds }: AnnotationUploaderProps) => {
+export const AnnotationUploader = ({ onAnnotationLoaded, sampleIds, annotation }: AnnotationUploaderProps) => {
   const [annotationData, setAnnotationData] = useState<AnnotationData | null>(null);
   const [error, setError] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
 
+  useEffect(() => {
+    if (annotation) {
+      setAnnotationData(annotation);
+      setError("");
+    }
+  }, [annotation]);
+
   const processAnnotationFile = useCallback(async (file: File) => {
     const validExtensions = ['.tsv', '.txt', '.csv'];
     const ext = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
@@ -47,49 +40,12 @@ export const AnnotationUploader = ({ onAnnotationLoaded, sampleIds }: Annotation
 
     try {
       const text = await file.text();
-      const { headers, rows } = parseDelimitedFile(text);
-      
-      if (headers.length < 2 || rows.length < 1) {
-        setError("Annotation file must have at least 2 columns");
+      const annot = parseAnnotationText(text, sampleIds);
+      if (typeof annot === "string") {
+        setError(annot);
         return;
       }
 
-      // Find which column matches sample IDs (if provided)
-      let sampleColIndex = 0; // Default to first column
-      
-      if (sampleIds && sampleIds.length > 0) {
-        for (let i = 0; i < headers.length; i++) {
-          const colValues = rows.map(row => row[i]);
-          const matchCount = sampleIds.filter(s => colValues.includes(s)).length;
-          if (matchCount > sampleIds.length * 0.3) {
-            sampleColIndex = i;
-            break;
-          }
-        }
-      }
-
-      const sampleColumn = headers[sampleColIndex];
-      const annotationColumns = headers.filter((_, i) => i !== sampleColIndex);
-      const annotations: Record<string, Record<string, string>> = {};
-
-      for (const row of rows) {
-        const sampleId = row[sampleColIndex];
-        if (!sampleId) continue;
-        
-        annotations[sampleId] = {};
-        headers.forEach((col, i) => {
-          if (i !== sampleColIndex) {
-            annotations[sampleId][col] = row[i] || "";
-          }
-        });
-      }
-
-      const annot: AnnotationData = {
-        sampleColumn,
-        annotations,
-        columns: annotationColumns,
-      };
-
       setAnnotationData(annot);
       setError("");
       onAnnotationLoaded(annot);
@@ -49,6 +49,9 @@ export const BackwardEliminationPanel = ({ result, onApplyFinal }: BackwardElimi
     lines.push(['Final significant covariates:', result.significantCovariates.join('; ')].join(separator));
     lines.push(['Removed covariates:', result.removedCovariates.join('; ')].join(separator));
     lines.push(['Significance threshold:', result.threshold.toString()].join(separator));
+    if (result.nSamples !== undefined) {
+      lines.push(['Complete cases (n):', result.nSamples.toString()].join(separator));
+    }
     
     const content = lines.join('\n');
     const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' });
@@ -239,6 +242,7 @@ export const BackwardEliminationPanel = ({ result, onApplyFinal }: BackwardElimi
         
         <div className="mt-3 text-xs text-muted-foreground text-center">
           Covariates with p-value &gt; {result.threshold} are removed iteratively until all remaining are significant.
+          {result.nSamples !== undefined && ` Every model is fitted on the same ${result.nSamples} patients with complete covariate values.`}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,302 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ComposedChart, Scatter, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, ReferenceLine, ErrorBar } from "recharts";
+import { Download } from "lucide-react";
+import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
+import { TieMethod } from "@/lib/coxRegression";
+import { SurvivalPrediction, calibrationByRiskGroup, integratedBrierScore } from "@/lib/calibration";
+
+type CalibrationView = "calibration" | "curves";
+
+interface CalibrationPanelProps {
+  predictions: SurvivalPrediction[];
+  ties?: TieMethod;
+  covariates: string[];
+}
+
+const GROUP_COUNTS = [3, 4, 5, 10];
+
+// Low risk (green) to high risk (red)
+const riskGroupColor = (group: number, nGroups: number) =>
+  `hsl(${Math.round(140 - (140 * (group - 1)) / Math.max(1, nGroups - 1))}, 65%, 45%)`;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const CalibrationPanel = ({ predictions, ties = "efron", covariates }: CalibrationPanelProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<CalibrationView>("calibration");
+  const [horizon, setHorizon] = useState(36);
+  const [nGroups, setNGroups] = useState(5);
+
+  const groups = useMemo(
+    () => calibrationByRiskGroup(predictions, horizon, nGroups, ties),
+    [predictions, horizon, nGroups, ties]
+  );
+  const brier = useMemo(() => integratedBrierScore(predictions, horizon, ties), [predictions, horizon, ties]);
+
+  const calibrationPoints = groups
+    .filter(g => g.observed !== null)
+    .map(g => ({
+      predicted: g.predicted,
+      observed: g.observed,
+      error: [g.observed! - (g.lowerCI ?? g.observed!), (g.upperCI ?? g.observed!) - g.observed!],
+      group: g.group,
+    }));
+
+  const handleDownloadPNG = () => {
+    downloadChartAsPNG(chartRef.current, `calibration-${view}`);
+  };
+
+  const handleDownloadSVG = () => {
+    downloadRechartsAsSVG(chartRef.current, `calibration-${view}`);
+  };
+
+  const improvement = brier ? 1 - brier.integratedBrier / brier.referenceIntegratedBrier : null;
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+        <div className="flex items-center gap-3 flex-wrap">
+          <CardTitle className="text-lg">Calibration</CardTitle>
+          {brier && (
+            <TooltipProvider>
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="cursor-help">
+                    IBS: {brier.integratedBrier.toFixed(3)}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="font-semibold mb-1">Integrated Brier score (0–{brier.horizon} months)</p>
+                  <p className="text-xs">
+                    Mean squared error of predicted survival, weighted for censoring. Lower is better;
+                    the covariate-free Kaplan-Meier reference scores {brier.referenceIntegratedBrier.toFixed(3)}
+                    {improvement !== null && ` (${(improvement * 100).toFixed(1)}% improvement)`}.
+                  </p>
+                </TooltipContent>
+              </UITooltip>
+            </TooltipProvider>
+          )}
+        </div>
+        <div className="flex gap-2 flex-wrap items-center">
+          <span className="text-xs text-muted-foreground">Horizon:</span>
+          <Input
+            type="number"
+            min={1}
+            step={6}
+            value={horizon}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value > 0) setHorizon(value);
+            }}
+            className="w-[70px] h-8 text-xs"
+            aria-label="Calibration horizon (months)"
+          />
+          <Select value={String(nGroups)} onValueChange={(v) => setNGroups(Number(v))}>
+            <SelectTrigger className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_COUNTS.map(k => (
+                <SelectItem key={k} value={String(k)}>{k} risk groups</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={view} onValueChange={(v) => setView(v as CalibrationView)}>
+            <SelectTrigger className="w-[170px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="calibration">Predicted vs observed</SelectItem>
+              <SelectItem value="curves">KM vs predicted curves</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleDownloadPNG}>
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDownloadSVG}>
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <div className="h-[200px] flex items-center justify-center text-muted-foreground text-sm">
+            Too few patients with complete covariates for {nGroups} risk groups.
+          </div>
+        ) : (
+          <>
+            <div ref={chartRef} className="h-[340px] bg-card">
+              <ResponsiveContainer width="100%" height="100%">
+                {view === "calibration" ? (
+                  <ComposedChart margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                    <XAxis
+                      dataKey="predicted"
+                      type="number"
+                      domain={[0, 1]}
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={{ stroke: "hsl(var(--border))" }}
+                      tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                      label={{ value: `Predicted survival at ${horizon} months`, position: "insideBottom", offset: -15, fontSize: 12 }}
+                    />
+                    <YAxis
+                      dataKey="observed"
+                      type="number"
+                      domain={[0, 1]}
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={{ stroke: "hsl(var(--border))" }}
+                      tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                      label={{ value: "Observed (KM)", angle: -90, position: "insideLeft", fontSize: 12, dx: -5 }}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "8px",
+                        fontSize: 12,
+                      }}
+                      formatter={(value: number | number[]) => (Array.isArray(value) ? null : formatPercent(value))}
+                    />
+                    <ReferenceLine
+                      segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                      strokeOpacity={0.6}
+                    />
+                    <Scatter
+                      name="Risk group"
+                      data={calibrationPoints}
+                      fill="hsl(var(--primary))"
+                      line={{ stroke: "hsl(var(--primary))", strokeWidth: 1.5 }}
+                      isAnimationActive={false}
+                    >
+                      <ErrorBar dataKey="error" direction="y" width={4} stroke="hsl(var(--primary))" strokeOpacity={0.6} />
+                    </Scatter>
+                  </ComposedChart>
+                ) : (
+                  <ComposedChart margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={[0, 'dataMax']}
+                      allowDuplicatedCategory={false}
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={{ stroke: "hsl(var(--border))" }}
+                      tickFormatter={(v) => v.toFixed(0)}
+                      label={{ value: "Time (months)", position: "insideBottom", offset: -15, fontSize: 12 }}
+                    />
+                    <YAxis
+                      type="number"
+                      domain={[0, 1]}
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={{ stroke: "hsl(var(--border))" }}
+                      tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                      label={{ value: "Survival", angle: -90, position: "insideLeft", fontSize: 12, dx: -5 }}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "8px",
+                        fontSize: 12,
+                      }}
+                      formatter={(value: number) => formatPercent(value)}
+                      labelFormatter={(t: number) => `t = ${t.toFixed(1)} mo`}
+                    />
+                    <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 12 }} />
+                    <ReferenceLine x={horizon} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 4" />
+                    {groups.map(g => (
+                      <Line
+                        key={`observed-${g.group}`}
+                        name={`Group ${g.group} observed`}
+                        data={[{ time: 0, survival: 1 }, ...g.observedCurve]}
+                        dataKey="survival"
+                        type="stepAfter"
+                        stroke={riskGroupColor(g.group, nGroups)}
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    {groups.map(g => (
+                      <Line
+                        key={`predicted-${g.group}`}
+                        name={`Group ${g.group} predicted`}
+                        data={g.predictedCurve}
+                        dataKey="survival"
+                        type="stepAfter"
+                        stroke={riskGroupColor(g.group, nGroups)}
+                        strokeWidth={1.5}
+                        strokeDasharray="6 4"
+                        dot={false}
+                        legendType="none"
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </ComposedChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+
+            <div className="mt-3 rounded-md border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b bg-muted/30">
+                    <th className="text-left py-1.5 px-3 font-medium">Risk group</th>
+                    <th className="text-right py-1.5 px-3 font-medium">N</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Events</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Predicted</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Observed (95% CI)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(g => (
+                    <tr key={g.group} className="border-b border-border/50">
+                      <td className="py-1.5 px-3">
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: riskGroupColor(g.group, nGroups) }} />
+                          {g.group === 1 ? "1 (lowest risk)" : g.group === nGroups ? `${g.group} (highest risk)` : g.group}
+                        </div>
+                      </td>
+                      <td className="text-right py-1.5 px-3">{g.n}</td>
+                      <td className="text-right py-1.5 px-3">{g.events}</td>
+                      <td className="text-right py-1.5 px-3 font-mono">{formatPercent(g.predicted)}</td>
+                      <td className="text-right py-1.5 px-3 font-mono">
+                        {g.observed !== null ? (
+                          <>
+                            {formatPercent(g.observed)}
+                            {g.lowerCI !== undefined && g.upperCI !== undefined && (
+                              <span className="text-muted-foreground"> ({formatPercent(g.lowerCI)}–{formatPercent(g.upperCI)})</span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-3 text-center">
+          Patients are split into equal-sized groups by the linear predictor of the Cox model on {covariates.join(", ")}.
+          Points on the diagonal indicate agreement between mean predicted survival and the Kaplan-Meier estimate.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,25 +1,83 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
-import { SampleResult, generateSubtypeColors, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, Cell, Customized } from "recharts";
+import { SampleResult, compareSubtypes, generateSubtypeColors, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
 import React, { useMemo, useState, useRef, useEffect } from "react";
 import { Download, RotateCcw } from "lucide-react";
 import { AnnotationSelector } from "./AnnotationSelector";
 import { AnnotationData } from "./AnnotationUploader";
 import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
+import { DEFAULT_SEED, deriveSeed } from "@/lib/random";
+import { createUMAP, DEFAULT_UMAP_OPTIONS, DistanceMetric, DISTANCE_METRIC_LABELS, UMAPOptions } from "@/lib/umap";
+import { createTSNE, DEFAULT_TSNE_OPTIONS, TSNEOptions } from "@/lib/tsne";
+import { Scatter3D } from "./Scatter3D";
+import { AxisScales, ScaleRecorder, SelectionMode, SelectionOverlay, SelectionToolbar } from "./ScatterSelection";
+import { Point, SampleSet, defaultSampleSetName, pointInPolygon } from "@/lib/sampleSets";
+
+interface HeatmapData {
+  genes: string[];
+  samples: string[];
+  sampleSubtypes: string[];
+  values: number[][];
+}
+
+type UMAPDataSource = "expression" | "nmf";
+type EmbeddingMethod = "umap" | "tsne";
+
+const EMBEDDING_LABELS: Record<EmbeddingMethod, { title: string; axis: string; file: string }> = {
+  umap: { title: "UMAP", axis: "UMAP", file: "umap-plot" },
+  tsne: { title: "t-SNE", axis: "t-SNE ", file: "tsne-plot" },
+};
 
 interface ClusterScatterProps {
   samples: SampleResult[];
   subtypeColors: Record<string, string>;
   userAnnotations?: AnnotationData;
+  heatmapData?: HeatmapData;
   filterResetKey?: number;
+  seed?: number;
+  sampleSets?: SampleSet[];
+  onCreateSampleSet?: (name: string, sampleIds: string[], source: string) => void;
 }
 
-export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filterResetKey }: ClusterScatterProps) => {
+const NEIGHBOR_OPTIONS = [5, 10, 15, 30, 50];
+const MIN_DIST_OPTIONS = [0, 0.1, 0.25, 0.5, 0.8, 0.99];
+const PERPLEXITY_OPTIONS = [5, 10, 20, 30, 50];
+const ITERATION_OPTIONS = [500, 1000, 2000];
+const LEARNING_RATE_OPTIONS = [10, 50, 100, 200, 500, 1000];
+// t-SNE iterations per animation frame, so the page stays responsive
+const TSNE_ITERATIONS_PER_FRAME = 25;
+const UMAP_EPOCHS_PER_FRAME = 10;
+
+export const ClusterScatter = ({
+  samples,
+  subtypeColors,
+  userAnnotations,
+  heatmapData,
+  filterResetKey,
+  seed = DEFAULT_SEED,
+  sampleSets = [],
+  onCreateSampleSet,
+}: ClusterScatterProps) => {
   const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
   const [excludedSubtypes, setExcludedSubtypes] = useState<Set<string>>(new Set());
   const [excludedAnnotationValues, setExcludedAnnotationValues] = useState<Set<string>>(new Set());
+  const [dataSource, setDataSource] = useState<UMAPDataSource>("nmf");
+  const [method, setMethod] = useState<EmbeddingMethod>("umap");
+  const [metric, setMetric] = useState<DistanceMetric>(DEFAULT_UMAP_OPTIONS.metric);
+  const [umapOptions, setUmapOptions] = useState<UMAPOptions>(DEFAULT_UMAP_OPTIONS);
+  const [show3D, setShow3D] = useState(false);
+  const [tsneOptions, setTsneOptions] = useState<TSNEOptions>(DEFAULT_TSNE_OPTIONS);
+  const [tsneState, setTsneState] = useState<{ embedding: Map<string, number[]>; iteration: number; total: number } | null>(null);
+  const [umapState, setUmapState] = useState<{ embedding: Map<string, number[]>; epoch: number; total: number } | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const chartRef = useRef<HTMLDivElement>(null);
+  const scalesRef = useRef<AxisScales | null>(null);
 
   // Reset filters when global reset key changes
   useEffect(() => {
@@ -76,26 +134,97 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
     });
   }, [samples, excludedSubtypes, excludedAnnotationValues, selectedAnnotation, userAnnotations]);
 
-  // Simulate UMAP-like coordinates based on subtype scores
+  const canUseExpression = !!heatmapData && heatmapData.genes.length > 0;
+  const activeSource: UMAPDataSource = canUseExpression ? dataSource : "nmf";
+
+  // Embeddings cover all samples; filters only hide points so the layout stays put
+  const embeddingInput = useMemo(() => {
+    let ids: string[];
+    let features: number[][];
+    if (activeSource === "expression" && heatmapData) {
+      const sampleIndex = new Map(heatmapData.samples.map((id, idx) => [id, idx]));
+      ids = samples.map(s => s.sample_id).filter(id => sampleIndex.has(id));
+      features = ids.map(id => heatmapData.values.map(geneRow => geneRow[sampleIndex.get(id)!]));
+    } else {
+      ids = samples.map(s => s.sample_id);
+      features = samples.map(s => s.scores);
+    }
+    return { ids, features };
+  }, [samples, heatmapData, activeSource]);
+
+  // 3D is available for UMAP only; t-SNE is optimised in the plane
+  const is3D = show3D && method === "umap";
+
+  // UMAP optimises in chunks between frames like t-SNE, so the page stays responsive
+  useEffect(() => {
+    if (method !== "umap") return;
+    let timer: ReturnType<typeof setTimeout>;
+    const start = () => {
+      const run = createUMAP(embeddingInput.features, {
+        ...umapOptions,
+        metric,
+        nComponents: is3D ? 3 : 2,
+        seed: deriveSeed(seed, "umap"),
+      });
+      const tick = () => {
+        const done = run.step(UMAP_EPOCHS_PER_FRAME);
+        const coordinates = run.embedding();
+        setUmapState({
+          embedding: new Map(embeddingInput.ids.map((id, idx) => [id, coordinates[idx]])),
+          epoch: run.epoch(),
+          total: run.totalEpochs,
+        });
+        if (!done) timer = setTimeout(tick, 0);
+      };
+      tick();
+    };
+    setUmapState(null);
+    timer = setTimeout(start, 0);
+    return () => clearTimeout(timer);
+  }, [method, embeddingInput, umapOptions, metric, is3D, seed]);
+
+  // t-SNE runs in chunks between frames and shows intermediate layouts
+  useEffect(() => {
+    if (method !== "tsne") return;
+    const run = createTSNE(embeddingInput.features, { ...tsneOptions, metric, seed: deriveSeed(seed, "tsne") });
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const done = run.step(TSNE_ITERATIONS_PER_FRAME);
+      const coordinates = run.embedding();
+      setTsneState({
+        embedding: new Map(embeddingInput.ids.map((id, idx) => [id, coordinates[idx]])),
+        iteration: run.iteration(),
+        total: run.totalIterations,
+      });
+      if (!done) timer = setTimeout(tick, 0);
+    };
+    setTsneState(null);
+    timer = setTimeout(tick, 0);
+    return () => clearTimeout(timer);
+  }, [method, embeddingInput, tsneOptions, metric, seed]);
+
+  const embedding = useMemo(
+    () => (method === "umap" ? umapState?.embedding : tsneState?.embedding) ?? new Map<string, number[]>(),
+    [method, umapState, tsneState]
+  );
+  const tsneRunning = method === "tsne" && (!tsneState || tsneState.iteration < tsneState.total);
+  const umapRunning = method === "umap" && (!umapState || umapState.epoch < umapState.total);
+  const labels = EMBEDDING_LABELS[method];
+
   const { scatterData, uniqueSubtypes, uniqueAnnotationValues } = useMemo(() => {
-    const subtypes = [...new Set(samples.map(s => s.subtype))].sort();
-    const subtypeAngles = new Map<string, number>();
-    subtypes.forEach((subtype, idx) => {
-      subtypeAngles.set(subtype, (idx / subtypes.length) * 2 * Math.PI);
-    });
+    const subtypes = [...new Set(samples.map(s => s.subtype))].sort(compareSubtypes);
 
-    const data = filteredSamples.map((sample) => {
-      const baseAngle = subtypeAngles.get(sample.subtype) || 0;
-      const angle = baseAngle + (Math.random() - 0.5) * 0.8;
-      const radius = 2 + Math.random() * 1.5;
+    const data = filteredSamples.filter(sample => embedding.has(sample.sample_id)).map((sample) => {
+      const [x, y, depth = 0] = embedding.get(sample.sample_id)!;
       
       const userAnnotValue = selectedAnnotation && userAnnotations?.annotations[sample.sample_id]
         ? userAnnotations.annotations[sample.sample_id][selectedAnnotation]
         : undefined;
       
       return {
-        x: Math.cos(angle) * radius + (Math.random() - 0.5) * 0.8,
-        y: Math.sin(angle) * radius + (Math.random() - 0.5) * 0.8,
+        x,
+        y,
+        depth,
         z: 50,
         subtype: sample.subtype,
         sample_id: sample.sample_id,
@@ -108,7 +237,7 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
       : [];
 
     return { scatterData: data, uniqueSubtypes: subtypes, uniqueAnnotationValues: annotValues };
-  }, [filteredSamples, samples, selectedAnnotation, userAnnotations]);
+  }, [filteredSamples, samples, selectedAnnotation, userAnnotations, embedding]);
 
   const toggleSubtype = (subtype: string) => {
     setExcludedSubtypes(prev => {
@@ -148,11 +277,30 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
   };
 
   const handleDownloadPNG = () => {
-    downloadChartAsPNG(chartRef.current, "umap-plot");
+    downloadChartAsPNG(chartRef.current, `${labels.file}-seed${seed}`);
   };
 
   const handleDownloadSVG = () => {
-    downloadRechartsAsSVG(chartRef.current, "umap-plot");
+    downloadRechartsAsSVG(chartRef.current, `${labels.file}-seed${seed}`);
+  };
+
+  const handleSelect = (polygon: Point[]) => {
+    const scales = scalesRef.current;
+    if (!scales || polygon.length === 0) {
+      setSelectedIds(new Set());
+      return;
+    }
+    setSelectedIds(new Set(
+      scatterData
+        .filter(d => pointInPolygon([scales.x(d.x), scales.y(d.y)], polygon))
+        .map(d => d.sample_id)
+    ));
+  };
+
+  const handleSaveSelection = (name: string) => {
+    onCreateSampleSet?.(name, [...selectedIds], labels.title);
+    setSelectedIds(new Set());
+    setSelectionMode(null);
   };
 
   const handleResetFilters = () => {
@@ -166,21 +314,23 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
     setExcludedAnnotationValues(new Set());
   };
 
+  const tooltipContent = (data: typeof scatterData[0]) => (
+    <div className="bg-card border border-border rounded-lg p-2 shadow-lg">
+      <p className="text-sm font-medium">{data.sample_id}</p>
+      <p className="text-xs text-muted-foreground">Subtype: {data.subtype}</p>
+      {data.userAnnotation && selectedAnnotation && (
+        <p className="text-xs text-muted-foreground">{selectedAnnotation}: {data.userAnnotation}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {labels.axis}1: {data.x.toFixed(2)}, {labels.axis}2: {data.y.toFixed(2)}
+        {is3D && `, ${labels.axis}3: ${data.depth.toFixed(2)}`}
+      </p>
+    </div>
+  );
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length > 0) {
-      const data = payload[0].payload;
-      return (
-        <div className="bg-card border border-border rounded-lg p-2 shadow-lg">
-          <p className="text-sm font-medium">{data.sample_id}</p>
-          <p className="text-xs text-muted-foreground">Subtype: {data.subtype}</p>
-          {data.userAnnotation && selectedAnnotation && (
-            <p className="text-xs text-muted-foreground">{selectedAnnotation}: {data.userAnnotation}</p>
-          )}
-          <p className="text-xs text-muted-foreground">
-            UMAP1: {data.x.toFixed(2)}, UMAP2: {data.y.toFixed(2)}
-          </p>
-        </div>
-      );
+      return tooltipContent(payload[0].payload);
     }
     return null;
   };
@@ -190,8 +340,137 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
   return (
     <Card className="border-0 bg-card/50 backdrop-blur-sm">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2 flex-wrap gap-2">
-        <CardTitle className="text-lg">Sample Clustering (UMAP-style)</CardTitle>
-        <div className="flex items-center gap-2">
+        <CardTitle className="text-lg">Sample Clustering ({labels.title})</CardTitle>
+        <div className="flex items-center gap-3 flex-wrap">
+          {canUseExpression && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">NMF Scores</Label>
+              <Switch
+                checked={activeSource === "expression"}
+                onCheckedChange={(checked) => setDataSource(checked ? "expression" : "nmf")}
+                className="scale-75"
+              />
+              <Label className="text-xs text-muted-foreground">Expression</Label>
+            </div>
+          )}
+          <Select value={method} onValueChange={(v) => setMethod(v as EmbeddingMethod)}>
+            <SelectTrigger className="w-[90px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMBEDDING_LABELS) as EmbeddingMethod[]).map(m => (
+                <SelectItem key={m} value={m}>{EMBEDDING_LABELS[m].title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {method === "umap" ? (
+            <>
+              <div className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground">Neighbors</Label>
+                <Select
+                  value={String(umapOptions.nNeighbors)}
+                  onValueChange={(v) => setUmapOptions(prev => ({ ...prev, nNeighbors: Number(v) }))}
+                >
+                  <SelectTrigger className="w-[64px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NEIGHBOR_OPTIONS.map(k => (
+                      <SelectItem key={k} value={String(k)}>{k}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground">Min dist</Label>
+                <Select
+                  value={String(umapOptions.minDist)}
+                  onValueChange={(v) => setUmapOptions(prev => ({ ...prev, minDist: Number(v) }))}
+                >
+                  <SelectTrigger className="w-[70px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MIN_DIST_OPTIONS.map(d => (
+                      <SelectItem key={d} value={String(d)}>{d}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={show3D}
+                  onCheckedChange={setShow3D}
+                  className="scale-75"
+                />
+                <Label className="text-xs text-muted-foreground">3D</Label>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground">Perplexity</Label>
+                <Select
+                  value={String(tsneOptions.perplexity)}
+                  onValueChange={(v) => setTsneOptions(prev => ({ ...prev, perplexity: Number(v) }))}
+                >
+                  <SelectTrigger className="w-[64px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERPLEXITY_OPTIONS.map(p => (
+                      <SelectItem key={p} value={String(p)}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground">Iterations</Label>
+                <Select
+                  value={String(tsneOptions.iterations)}
+                  onValueChange={(v) => setTsneOptions(prev => ({ ...prev, iterations: Number(v) }))}
+                >
+                  <SelectTrigger className="w-[76px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ITERATION_OPTIONS.map(i => (
+                      <SelectItem key={i} value={String(i)}>{i}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground">Learning rate</Label>
+                <Select
+                  value={String(tsneOptions.learningRate)}
+                  onValueChange={(v) => setTsneOptions(prev => ({ ...prev, learningRate: Number(v) }))}
+                >
+                  <SelectTrigger className="w-[76px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEARNING_RATE_OPTIONS.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <Select
+            value={metric}
+            onValueChange={(v) => setMetric(v as DistanceMetric)}
+          >
+            <SelectTrigger className="w-[120px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DISTANCE_METRIC_LABELS) as DistanceMetric[]).map(m => (
+                <SelectItem key={m} value={m}>{DISTANCE_METRIC_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           {userAnnotations && userAnnotations.columns.length > 0 && (
             <AnnotationSelector
               columns={userAnnotations.columns}
@@ -217,38 +496,79 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
         </div>
       </CardHeader>
       <CardContent>
-        <div ref={chartRef} className="h-[280px] bg-card">
-          <ResponsiveContainer width="100%" height="100%">
-            <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
-              <XAxis
-                type="number"
-                dataKey="x"
-                name="UMAP1"
-                tick={{ fontSize: 10 }}
-                tickLine={false}
-                axisLine={{ stroke: "hsl(var(--border))" }}
-              />
-              <YAxis
-                type="number"
-                dataKey="y"
-                name="UMAP2"
-                tick={{ fontSize: 10 }}
-                tickLine={false}
-                axisLine={{ stroke: "hsl(var(--border))" }}
-              />
-              <ZAxis type="number" dataKey="z" range={[30, 60]} />
-              <Tooltip content={<CustomTooltip />} />
-              <Scatter data={scatterData}>
-                {scatterData.map((entry, index) => (
-                  <Cell
-                    key={`cell-${index}`}
-                    fill={getPointColor(entry)}
-                    fillOpacity={0.7}
-                  />
-                ))}
-              </Scatter>
-            </ScatterChart>
-          </ResponsiveContainer>
+        {tsneRunning && (
+          <div className="flex items-center gap-2 mb-2">
+            <Progress value={tsneState ? (tsneState.iteration / tsneState.total) * 100 : 0} className="h-2 flex-1" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              t-SNE iteration {tsneState?.iteration ?? 0}/{tsneOptions.iterations}
+            </span>
+          </div>
+        )}
+        {umapRunning && (
+          <div className="flex items-center gap-2 mb-2">
+            <Progress value={umapState && umapState.total > 0 ? (umapState.epoch / umapState.total) * 100 : 0} className="h-2 flex-1" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {umapState ? `UMAP epoch ${umapState.epoch}/${umapState.total}` : "Building UMAP neighbour graph..."}
+            </span>
+          </div>
+        )}
+        {onCreateSampleSet && !is3D && (
+          <SelectionToolbar
+            mode={selectionMode}
+            onModeChange={setSelectionMode}
+            selectedCount={selectedIds.size}
+            defaultName={defaultSampleSetName(sampleSets)}
+            onSave={handleSaveSelection}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+        <div ref={chartRef} className={is3D ? "h-[360px] bg-card" : "relative h-[280px] bg-card"}>
+          {is3D ? (
+            <Scatter3D
+              points={scatterData.map(d => ({ id: d.sample_id, x: d.x, y: d.y, z: d.depth, color: getPointColor(d) }))}
+              axisLabels={[`${labels.axis}1`, `${labels.axis}2`, `${labels.axis}3`]}
+              renderTooltip={(id) => {
+                const entry = scatterData.find(d => d.sample_id === id);
+                return entry ? tooltipContent(entry) : null;
+              }}
+            />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+                <XAxis
+                  type="number"
+                  dataKey="x"
+                  name={`${labels.axis}1`}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="y"
+                  name={`${labels.axis}2`}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                />
+                <ZAxis type="number" dataKey="z" range={[30, 60]} />
+                <Tooltip content={<CustomTooltip />} />
+                <Scatter data={scatterData}>
+                  {scatterData.map((entry, index) => (
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={getPointColor(entry)}
+                      fillOpacity={selectedIds.size > 0 && !selectedIds.has(entry.sample_id) ? 0.25 : 0.7}
+                      stroke={selectedIds.has(entry.sample_id) ? "hsl(var(--foreground))" : undefined}
+                      strokeWidth={selectedIds.has(entry.sample_id) ? 1.5 : 0}
+                    />
+                  ))}
+                </Scatter>
+                <Customized component={<ScaleRecorder scalesRef={scalesRef} />} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+          {selectionMode && !is3D && <SelectionOverlay mode={selectionMode} onSelect={handleSelect} />}
         </div>
         
         {/* Legend with clickable items or continuous color bar */}
@@ -314,9 +634,15 @@ export const ClusterScatter = ({ samples, subtypeColors, userAnnotations, filter
         </div>
         {isFiltered && (
           <p className="text-xs text-center text-muted-foreground mt-2">
-            Showing {filteredSamples.length} of {samples.length} samples
+            Showing {scatterData.length} of {embedding.size} samples
           </p>
         )}
+        <p className="text-xs text-center text-muted-foreground mt-2">
+          {labels.title} of {activeSource === "expression" ? "gene expression" : "NMF subtype scores"} ({method === "umap"
+            ? `${umapOptions.nNeighbors} neighbors, min_dist ${umapOptions.minDist}`
+            : `perplexity ${tsneOptions.perplexity}, ${tsneOptions.iterations} iterations, learning rate ${tsneOptions.learningRate}`},{" "}
+          {DISTANCE_METRIC_LABELS[metric].toLowerCase()} distance, seed {seed})
+        </p>
       </CardContent>
     </Card>
   );
@@ -6,6 +6,9 @@ interface ClusteringMetricsProps {
   samples: SampleResult[];
 }
 
+// NMF score vector of a sample
+const getScoreVector = (sample: SampleResult): number[] => (sample.scores.length > 0 ? sample.scores : [0]);
+
 // Calculate silhouette score for clustering
 const calculateSilhouetteScore = (samples: SampleResult[]): number => {
   if (samples.length < 2) return 0;
@@ -13,17 +16,6 @@ const calculateSilhouetteScore = (samples: SampleResult[]): number => {
   const subtypes = [...new Set(samples.map(s => s.subtype))];
   if (subtypes.length < 2) return 0;
 
-  // Extract score vectors
-  const getScoreVector = (sample: SampleResult): number[] => {
-    const scores: number[] = [];
-    Object.entries(sample).forEach(([key, value]) => {
-      if (key.startsWith("score_") && typeof value === "number") {
-        scores.push(value);
-      }
-    });
-    return scores.length > 0 ? scores : [0];
-  };
-
   const euclidean = (a: number[], b: number[]): number => {
     let sum = 0;
     for (let i = 0; i < Math.min(a.length, b.length); i++) {
@@ -71,16 +63,6 @@ const calculateDaviesBouldinIndex = (samples: SampleResult[]): number => {
   const subtypes = [...new Set(samples.map(s => s.subtype))];
   if (subtypes.length < 2) return 0;
 
-  const getScoreVector = (sample: SampleResult): number[] => {
-    const scores: number[] = [];
-    Object.entries(sample).forEach(([key, value]) => {
-      if (key.startsWith("score_") && typeof value === "number") {
-        scores.push(value);
-      }
-    });
-    return scores.length > 0 ? scores : [0];
-  };
-
   const euclidean = (a: number[], b: number[]): number => {
     let sum = 0;
     for (let i = 0; i < Math.min(a.length, b.length); i++) {
@@ -133,16 +115,6 @@ const calculateCalinskiHarabaszIndex = (samples: SampleResult[]): number => {
   const subtypes = [...new Set(samples.map(s => s.subtype))];
   if (subtypes.length < 2) return 0;
 
-  const getScoreVector = (sample: SampleResult): number[] => {
-    const scores: number[] = [];
-    Object.entries(sample).forEach(([key, value]) => {
-      if (key.startsWith("score_") && typeof value === "number") {
-        scores.push(value);
-      }
-    });
-    return scores.length > 0 ? scores : [0];
-  };
-
   const vectors = samples.map(getScoreVector);
   const dim = vectors[0]?.length || 1;
   const n = samples.length;
@@ -0,0 +1,127 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, GitFork } from "lucide-react";
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import { eventValueCounts, timeColumnCandidates } from "@/lib/survivalEndpoint";
+import {
+  CompetingRiskSpec,
+  competingRiskObservations,
+  competingRiskStatusCandidates,
+  defaultCompetingRiskSpec,
+} from "@/lib/competingRisks";
+
+type ValueRole = "censored" | "event" | "competing";
+
+interface CompetingRisksSelectorProps {
+  annotations: AnnotationData;
+  columns: string[];
+  spec: CompetingRiskSpec;
+  onChange: (spec: CompetingRiskSpec) => void;
+}
+
+export const CompetingRisksSelector = ({ annotations, columns, spec, onChange }: CompetingRisksSelectorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const timeColumns = useMemo(() => timeColumnCandidates(annotations, columns), [annotations, columns]);
+  const statusColumns = useMemo(() => competingRiskStatusCandidates(annotations, columns), [annotations, columns]);
+  const statusValues = useMemo(() => eventValueCounts(annotations, spec.statusColumn), [annotations, spec.statusColumn]);
+
+  const summary = useMemo(() => {
+    const records = competingRiskObservations(annotations, spec);
+    return {
+      n: records.length,
+      events: records.filter(r => r.status === 1).length,
+      competing: records.filter(r => r.status === 2).length,
+    };
+  }, [annotations, spec]);
+
+  const roleOf = (value: string): ValueRole =>
+    spec.eventValues.includes(value) ? "event" : spec.competingValues.includes(value) ? "competing" : "censored";
+
+  const setRole = (value: string, role: ValueRole) => {
+    const eventValues = spec.eventValues.filter(v => v !== value);
+    const competingValues = spec.competingValues.filter(v => v !== value);
+    if (role === "event") eventValues.push(value);
+    if (role === "competing") competingValues.push(value);
+    onChange({ ...spec, eventValues, competingValues });
+  };
+
+  const changeStatusColumn = (statusColumn: string) => {
+    const next = defaultCompetingRiskSpec(annotations, columns, statusColumn);
+    if (next) onChange({ ...next, timeColumn: spec.timeColumn });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1 text-xs font-normal">
+          <GitFork className="h-3.5 w-3.5 opacity-70" />
+          <span className="text-muted-foreground">Status:</span>
+          <span className="max-w-[140px] truncate">{spec.statusColumn}</span>
+          <ChevronDown className="h-3.5 w-3.5 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="p-3 space-y-2 border-b">
+          <div className="text-xs font-medium">Competing risks columns</div>
+          <div className="grid grid-cols-[60px_1fr] items-center gap-2">
+            <span className="text-xs text-muted-foreground">Time</span>
+            <Select value={spec.timeColumn} onValueChange={(v) => onChange({ ...spec, timeColumn: v })}>
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeColumns.map(col => (
+                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">Status</span>
+            <Select value={spec.statusColumn} onValueChange={changeStatusColumn}>
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusColumns.map(col => (
+                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="px-3 pt-3 text-xs font-medium">Meaning of each status code</div>
+        <ScrollArea className="max-h-[220px]">
+          <div className="p-2 space-y-1">
+            {statusValues.map(({ value, count }) => (
+              <div key={value} className="flex items-center gap-2 px-2 py-0.5">
+                <span className="text-sm font-mono w-10 truncate" title={value}>{value}</span>
+                <Badge variant="secondary" className="text-[10px] px-1 py-0 h-4">
+                  n={count}
+                </Badge>
+                <Select value={roleOf(value)} onValueChange={(v) => setRole(value, v as ValueRole)}>
+                  <SelectTrigger className="h-7 text-xs ml-auto w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="censored">Censored</SelectItem>
+                    <SelectItem value="event">Event of interest</SelectItem>
+                    <SelectItem value="competing">Competing event</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        <div className="p-2 border-t bg-muted/30 text-[10px] text-muted-foreground">
+          {summary.n} samples with follow-up, {summary.events} events of interest, {summary.competing} competing events
+          {summary.events === 0 && " — mark at least one code as the event of interest"}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,98 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export interface ConditionalSurvivalRow {
+  group: string;
+  atRisk: number;
+  // One entry per horizon; null when follow-up does not reach the horizon
+  estimates: ({ survival: number; lowerCI?: number; upperCI?: number } | null)[];
+}
+
+interface ConditionalSurvivalTableProps {
+  rows: ConditionalSurvivalRow[];
+  horizons: number[];
+  landmark: number;
+  subtypeColors: Record<string, string>;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const ConditionalSurvivalTable = ({ rows, horizons, landmark, subtypeColors }: ConditionalSurvivalTableProps) => {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">
+            {landmark > 0 ? "Conditional Survival" : "Survival at Fixed Horizons"}
+          </CardTitle>
+          {landmark > 0 && (
+            <Badge variant="outline" className="text-xs">
+              Alive at {landmark} months
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Group</TableHead>
+                <TableHead className="text-right w-[80px]">N</TableHead>
+                {horizons.map(h => (
+                  <TableHead key={h} className="text-right">
+                    {landmark > 0 ? `+${h} mo` : `${h} mo`}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.group}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: subtypeColors[row.group] || 'hsl(var(--primary))' }}
+                      />
+                      {row.group}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.atRisk}</TableCell>
+                  {row.estimates.map((est, i) => (
+                    <TableCell key={horizons[i]} className="text-right font-mono text-sm">
+                      {est ? (
+                        <>
+                          {formatPercent(est.survival)}
+                          {est.lowerCI !== undefined && est.upperCI !== undefined && (
+                            <span className="block text-[10px] text-muted-foreground">
+                              {formatPercent(est.lowerCI)}–{formatPercent(est.upperCI)}
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="text-xs text-muted-foreground mt-3 text-center">
+          {landmark > 0
+            ? `Probability of surviving the additional time given survival to ${landmark} months, S(${landmark} + t) / S(${landmark}), with 95% CIs.`
+            : "Kaplan-Meier survival probability at each horizon with 95% CIs. Enable landmark mode to condition on survival to a given time."}
+          {" "}— marks horizons beyond the group's follow-up.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
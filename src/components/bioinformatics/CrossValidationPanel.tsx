@@ -1,26 +1,51 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FileSpreadsheet, Activity, BarChart3 } from "lucide-react";
-import { CrossValidationResult } from "@/lib/coxphAnalysis";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSpreadsheet, Activity, BarChart3, RefreshCw } from "lucide-react";
+import { CrossValidationResult, ValidationMethod, ValidationOptions, VALIDATION_METHOD_LABELS } from "@/lib/modelValidation";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface CrossValidationPanelProps {
   result: CrossValidationResult;
   selectedCovariates: string[];
+  options: ValidationOptions;
+  onRun: (options: ValidationOptions) => void;
 }
 
-export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValidationPanelProps) => {
+// Individual fold bars are listed up to this many scores; beyond it a histogram is shown
+const MAX_LISTED_SCORES = 10;
+const HISTOGRAM_BIN = 0.01;
+
+const scoreColor = (score: number) =>
+  score >= 0.7
+    ? 'hsl(var(--success, 142 76% 36%))'
+    : score >= 0.6
+      ? 'hsl(var(--warning, 48 96% 53%))'
+      : 'hsl(var(--destructive, 0 84% 60%))';
+
+export const CrossValidationPanel = ({ result, selectedCovariates, options, onRun }: CrossValidationPanelProps) => {
+  const [draft, setDraft] = useState<ValidationOptions>(options);
+
+  useEffect(() => {
+    setDraft(options);
+  }, [options]);
+
   if (result.concordanceScores.length === 0) {
     return null;
   }
 
+  const isBootstrap = result.method === 'bootstrap';
+  const scoreLabel = isBootstrap ? 'Replicate' : 'Fold';
+
   const exportData = (format: 'csv' | 'tsv') => {
     const separator = format === 'csv' ? ',' : '\t';
     const lines: string[] = [];
     
     // Header
-    lines.push(['Fold', 'Concordance Index'].join(separator));
+    lines.push([scoreLabel, 'Concordance Index'].join(separator));
     
     // Data rows
     result.concordanceScores.forEach((score, idx) => {
@@ -29,11 +54,27 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
     
     // Summary
     lines.push('');
+    lines.push(['Method:', VALIDATION_METHOD_LABELS[result.method]].join(separator));
+    lines.push(['Seed:', result.seed.toString()].join(separator));
+    if (isBootstrap) {
+      lines.push(['Bootstrap Replicates:', result.repeats.toString()].join(separator));
+    } else {
+      lines.push(['Number of Folds:', result.folds.toString()].join(separator));
+      lines.push(['Repeats:', result.repeats.toString()].join(separator));
+    }
+    lines.push(['Samples:', result.nSamples.toString()].join(separator));
+    lines.push(['Events:', result.nEvents.toString()].join(separator));
+    lines.push(['Apparent C-index:', result.apparentConcordance.toFixed(4)].join(separator));
+    lines.push(['Optimism:', result.optimism.toFixed(4)].join(separator));
+    lines.push(['Optimism-corrected C-index:', result.correctedConcordance.toFixed(4)].join(separator));
+    lines.push(['Calibration Slope:', result.correctedCalibrationSlope.toFixed(4)].join(separator));
     lines.push(['Mean C-index:', result.meanConcordance.toFixed(4)].join(separator));
     lines.push(['Std Dev:', result.stdConcordance.toFixed(4)].join(separator));
-    lines.push(['95% CI Lower:', result.ci95Lower.toFixed(4)].join(separator));
-    lines.push(['95% CI Upper:', result.ci95Upper.toFixed(4)].join(separator));
-    lines.push(['Number of Folds:', result.folds.toString()].join(separator));
+    lines.push(['95% Interval Lower:', result.ci95Lower.toFixed(4)].join(separator));
+    lines.push(['95% Interval Upper:', result.ci95Upper.toFixed(4)].join(separator));
+    if (result.failedFits > 0) {
+      lines.push(['Failed Fits:', result.failedFits.toString()].join(separator));
+    }
     lines.push(['Covariates:', selectedCovariates.join('; ')].join(separator));
     
     const content = lines.join('\n');
@@ -53,10 +94,18 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
     return { label: 'Poor', color: 'text-red-600 dark:text-red-400', bg: 'bg-red-100 dark:bg-red-900/30' };
   };
 
-  const quality = getQualityLabel(result.meanConcordance);
+  const quality = getQualityLabel(result.correctedConcordance);
   const minScore = Math.min(...result.concordanceScores);
   const maxScore = Math.max(...result.concordanceScores);
 
+  const histogramStart = Math.floor(minScore / HISTOGRAM_BIN) * HISTOGRAM_BIN;
+  const histogram = Array.from({ length: Math.max(1, Math.ceil((maxScore - histogramStart) / HISTOGRAM_BIN + 1e-9)) }, (_, i) => {
+    const start = histogramStart + i * HISTOGRAM_BIN;
+    return { start, count: result.concordanceScores.filter(c => c >= start && c < start + HISTOGRAM_BIN).length };
+  });
+  histogram[histogram.length - 1].count += result.concordanceScores.filter(c => c >= histogramStart + histogram.length * HISTOGRAM_BIN).length;
+  const maxBinCount = Math.max(1, ...histogram.map(b => b.count));
+
   return (
     <Card className="border-0 bg-card/50 backdrop-blur-sm">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -67,11 +116,11 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
               <TooltipTrigger asChild>
                 <Badge variant="default" className="bg-violet-600 hover:bg-violet-700 cursor-help">
                   <BarChart3 className="h-3 w-3 mr-1" />
-                  {result.folds}-fold CV
+                  {isBootstrap ? `${result.repeats} bootstraps` : `${result.repeats}× ${result.folds}-fold CV`}
                 </Badge>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Out-of-sample concordance index estimation</p>
+                <p>Patients resampled with seed {result.seed}; the model is refitted on every training set</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -83,11 +132,11 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
                   className={`cursor-help ${quality.bg} ${quality.color}`}
                 >
                   <Activity className="h-3 w-3 mr-1" />
-                  {quality.label}: {result.meanConcordance.toFixed(3)}
+                  {quality.label}: {result.correctedConcordance.toFixed(3)}
                 </Badge>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Mean out-of-sample concordance index</p>
+                <p>Optimism-corrected concordance index</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -104,72 +153,185 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
         </div>
       </CardHeader>
       <CardContent>
+        {/* Resampling settings */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select value={draft.method} onValueChange={(v) => setDraft({ ...draft, method: v as ValidationMethod })}>
+            <SelectTrigger className="w-[180px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VALIDATION_METHOD_LABELS) as ValidationMethod[]).map(m => (
+                <SelectItem key={m} value={m}>{VALIDATION_METHOD_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.method === 'kfold' ? (
+            <>
+              <Select value={String(draft.folds)} onValueChange={(v) => setDraft({ ...draft, folds: Number(v) })}>
+                <SelectTrigger className="w-[90px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[3, 5, 10].map(k => (
+                    <SelectItem key={k} value={String(k)}>{k} folds</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">Repeats:</span>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={draft.repeats}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value >= 1 && value <= 100) setDraft({ ...draft, repeats: value });
+                }}
+                className="w-[70px] h-8 text-xs"
+              />
+            </>
+          ) : (
+            <>
+              <span className="text-xs text-muted-foreground">Replicates:</span>
+              <Input
+                type="number"
+                min={10}
+                max={1000}
+                step={50}
+                value={draft.bootstraps}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value >= 10 && value <= 1000) setDraft({ ...draft, bootstraps: value });
+                }}
+                className="w-[80px] h-8 text-xs"
+              />
+            </>
+          )}
+          <span className="text-xs text-muted-foreground">Seed:</span>
+          <Input
+            type="number"
+            value={draft.seed}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (Number.isFinite(value)) setDraft({ ...draft, seed: value });
+            }}
+            className="w-[110px] h-8 text-xs"
+          />
+          <Button variant="secondary" size="sm" className="h-8 text-xs" onClick={() => onRun(draft)}>
+            <RefreshCw className="h-3.5 w-3.5 mr-1" />
+            Re-run
+          </Button>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Summary Statistics */}
           <div className="space-y-4">
             <h4 className="text-sm font-semibold">Summary Statistics</h4>
             <div className="grid grid-cols-2 gap-3">
               <div className="p-3 bg-muted/50 rounded-md">
-                <div className="text-xs text-muted-foreground">Mean C-index</div>
-                <div className={`text-lg font-bold ${quality.color}`}>
-                  {result.meanConcordance.toFixed(3)}
+                <div className="text-xs text-muted-foreground">Apparent C-index</div>
+                <div className="text-lg font-bold text-foreground">
+                  {result.apparentConcordance.toFixed(3)}
                 </div>
               </div>
               <div className="p-3 bg-muted/50 rounded-md">
-                <div className="text-xs text-muted-foreground">Std Deviation</div>
+                <div className="text-xs text-muted-foreground">Optimism</div>
                 <div className="text-lg font-bold text-foreground">
-                  ±{result.stdConcordance.toFixed(3)}
+                  {result.optimism >= 0 ? '−' : '+'}{Math.abs(result.optimism).toFixed(3)}
+                </div>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-md">
+                <div className="text-xs text-muted-foreground">Corrected C-index</div>
+                <div className={`text-lg font-bold ${quality.color}`}>
+                  {result.correctedConcordance.toFixed(3)}
+                </div>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-md">
+                <div className="text-xs text-muted-foreground">Calibration Slope</div>
+                <div className={`text-lg font-bold ${result.correctedCalibrationSlope < 0.85 ? 'text-yellow-600 dark:text-yellow-400' : 'text-foreground'}`}>
+                  {result.correctedCalibrationSlope.toFixed(3)}
                 </div>
               </div>
               <div className="p-3 bg-muted/50 rounded-md col-span-2">
-                <div className="text-xs text-muted-foreground">95% Confidence Interval</div>
+                <div className="text-xs text-muted-foreground">
+                  {isBootstrap ? 'C-index on original data' : 'Held-out C-index'} (mean ± SD, 95% interval)
+                </div>
                 <div className="text-lg font-bold text-foreground">
-                  {result.ci95Lower.toFixed(3)} – {result.ci95Upper.toFixed(3)}
+                  {result.meanConcordance.toFixed(3)} ± {result.stdConcordance.toFixed(3)}
+                  <span className="text-sm font-normal text-muted-foreground ml-2">
+                    {result.ci95Lower.toFixed(3)} – {result.ci95Upper.toFixed(3)}
+                  </span>
                 </div>
               </div>
             </div>
+            <div className="text-xs text-muted-foreground">
+              {result.nSamples} patients, {result.nEvents} events
+              {result.failedFits > 0 && ` · ${result.failedFits} resamples skipped (model could not be fitted)`}
+            </div>
           </div>
 
-          {/* Fold-by-Fold Results */}
+          {/* Per-resample Results */}
           <div className="space-y-4">
-            <h4 className="text-sm font-semibold">Fold-by-Fold Results</h4>
-            <div className="space-y-2">
-              {result.concordanceScores.map((score, idx) => {
-                const isMin = score === minScore;
-                const isMax = score === maxScore;
-                const barWidth = ((score - 0.4) / 0.6) * 100; // Scale from 0.4-1.0
-                const foldQuality = getQualityLabel(score);
-                
-                return (
-                  <div key={idx} className="flex items-center gap-3">
-                    <span className="text-xs text-muted-foreground w-12">Fold {idx + 1}</span>
-                    <div className="flex-1 h-5 bg-muted/50 rounded-full overflow-hidden relative">
-                      <div 
-                        className={`h-full rounded-full ${foldQuality.bg.replace('bg-', 'bg-')}`}
-                        style={{ 
-                          width: `${Math.max(0, Math.min(100, barWidth))}%`,
-                          backgroundColor: score >= 0.7 
-                            ? 'hsl(var(--success, 142 76% 36%))' 
-                            : score >= 0.6 
-                              ? 'hsl(var(--warning, 48 96% 53%))' 
-                              : 'hsl(var(--destructive, 0 84% 60%))'
-                        }}
-                      />
-                      {/* Mean line indicator */}
-                      <div 
-                        className="absolute top-0 bottom-0 w-0.5 bg-foreground/50"
-                        style={{ left: `${((result.meanConcordance - 0.4) / 0.6) * 100}%` }}
-                      />
+            <h4 className="text-sm font-semibold">
+              {result.concordanceScores.length <= MAX_LISTED_SCORES ? `${scoreLabel}-by-${scoreLabel} Results` : `Distribution over ${result.concordanceScores.length} ${isBootstrap ? 'replicates' : 'folds'}`}
+            </h4>
+            {result.concordanceScores.length <= MAX_LISTED_SCORES ? (
+              <div className="space-y-2">
+                {result.concordanceScores.map((score, idx) => {
+                  const isMin = score === minScore;
+                  const isMax = score === maxScore;
+                  const barWidth = ((score - 0.4) / 0.6) * 100; // Scale from 0.4-1.0
+                  const foldQuality = getQualityLabel(score);
+                  
+                  return (
+                    <div key={idx} className="flex items-center gap-3">
+                      <span className="text-xs text-muted-foreground w-12">{scoreLabel} {idx + 1}</span>
+                      <div className="flex-1 h-5 bg-muted/50 rounded-full overflow-hidden relative">
+                        <div 
+                          className="h-full rounded-full"
+                          style={{ 
+                            width: `${Math.max(0, Math.min(100, barWidth))}%`,
+                            backgroundColor: scoreColor(score)
+                          }}
+                        />
+                        {/* Mean line indicator */}
+                        <div 
+                          className="absolute top-0 bottom-0 w-0.5 bg-foreground/50"
+                          style={{ left: `${((result.meanConcordance - 0.4) / 0.6) * 100}%` }}
+                        />
+                      </div>
+                      <span className={`text-xs font-mono w-14 text-right ${foldQuality.color}`}>
+                        {score.toFixed(3)}
+                        {isMin && <span className="text-red-500 ml-1">↓</span>}
+                        {isMax && <span className="text-green-500 ml-1">↑</span>}
+                      </span>
                     </div>
-                    <span className={`text-xs font-mono w-14 text-right ${foldQuality.color}`}>
-                      {score.toFixed(3)}
-                      {isMin && <span className="text-red-500 ml-1">↓</span>}
-                      {isMax && <span className="text-green-500 ml-1">↑</span>}
-                    </span>
-                  </div>
-                );
-              })}
-            </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="flex items-end gap-0.5 h-32">
+                {histogram.map(bin => (
+                  <TooltipProvider key={bin.start}>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div
+                          className="flex-1 rounded-t cursor-help"
+                          style={{
+                            height: `${(bin.count / maxBinCount) * 100}%`,
+                            minHeight: bin.count > 0 ? 2 : 0,
+                            backgroundColor: scoreColor(bin.start + HISTOGRAM_BIN / 2)
+                          }}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="text-xs">{bin.start.toFixed(2)}–{(bin.start + HISTOGRAM_BIN).toFixed(2)}: {bin.count}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                ))}
+              </div>
+            )}
             <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t">
               <span>Min: {minScore.toFixed(3)}</span>
               <span className="border-l border-foreground/50 h-3 mx-2" />
@@ -192,7 +354,10 @@ export const CrossValidationPanel = ({ result, selectedCovariates }: CrossValida
         </div>
         
         <div className="mt-3 text-xs text-muted-foreground text-center">
-          Cross-validation estimates out-of-sample concordance to assess model generalizability and detect overfitting.
+          {isBootstrap
+            ? "Each bootstrap model is scored on its own sample and on the original data; the mean difference (optimism) is subtracted from the apparent C-index."
+            : "Each fold is scored with the model refitted on the remaining patients; the mean held-out C-index is the corrected estimate."}
+          {" "}A calibration slope below 1 means predictions are too extreme out of sample and should be shrunk.
         </div>
       </CardContent>
     </Card>
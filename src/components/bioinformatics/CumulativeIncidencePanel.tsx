@@ -0,0 +1,305 @@
+import { ReactNode, useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Download, FileSpreadsheet } from "lucide-react";
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import { CompetingRisksSelector } from "@/components/bioinformatics/CompetingRisksSelector";
+import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
+import { formatPValue } from "@/lib/logRankTest";
+import { formatHR } from "@/lib/coxphAnalysis";
+import {
+  CompetingRiskObservation,
+  CompetingRiskSpec,
+  cumulativeIncidence,
+  cumulativeIncidenceAt,
+  fineGrayByGroup,
+  graysTest,
+} from "@/lib/competingRisks";
+
+interface CumulativeIncidencePanelProps {
+  groupedObservations: Record<string, CompetingRiskObservation[]>;
+  groupOrder: string[];
+  subtypeColors: Record<string, string>;
+  annotations: AnnotationData;
+  columns: string[];
+  spec: CompetingRiskSpec;
+  onSpecChange: (spec: CompetingRiskSpec) => void;
+  horizons: number[];
+  // Extra header controls (e.g. the KM / cumulative incidence mode switch)
+  headerControls?: ReactNode;
+  // Download the survival statistics, including Gray's test and the sHRs
+  onExportStats?: (format: "csv" | "tsv") => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const CumulativeIncidencePanel = ({
+  groupedObservations,
+  groupOrder,
+  subtypeColors,
+  annotations,
+  columns,
+  spec,
+  onSpecChange,
+  horizons,
+  headerControls,
+  onExportStats,
+}: CumulativeIncidencePanelProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const groups = useMemo(
+    () => groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0),
+    [groupedObservations, groupOrder]
+  );
+
+  const curves = useMemo(() => {
+    return groups.map(group => {
+      const obs = groupedObservations[group];
+      return {
+        group,
+        n: obs.length,
+        events: obs.filter(o => o.status === 1).length,
+        competing: obs.filter(o => o.status === 2).length,
+        maxTime: Math.max(...obs.map(o => o.time)),
+        points: cumulativeIncidence(obs),
+      };
+    });
+  }, [groupedObservations, groups]);
+
+  const fineGray = useMemo(() => fineGrayByGroup(groupedObservations, groups), [groupedObservations, groups]);
+  const grayTest = useMemo(() => graysTest(groupedObservations, groups), [groupedObservations, groups]);
+
+  // One row per distinct time; each group's CIFs are carried forward until its last follow-up
+  const chartData = useMemo(() => {
+    const times = Array.from(new Set([0, ...curves.flatMap(c => [...c.points.map(p => p.time), c.maxTime])])).sort((a, b) => a - b);
+    return times.map(time => {
+      const row: Record<string, number | undefined> = { time };
+      curves.forEach(c => {
+        if (time > c.maxTime) return;
+        let incidence = 0;
+        let competing = 0;
+        for (const p of c.points) {
+          if (p.time > time) break;
+          incidence = p.incidence;
+          competing = p.competingIncidence;
+        }
+        row[`${c.group}__event`] = incidence;
+        row[`${c.group}__competing`] = competing;
+      });
+      return row;
+    });
+  }, [curves]);
+
+  const handleDownloadPNG = () => {
+    downloadChartAsPNG(chartRef.current, "cumulative-incidence");
+  };
+
+  const handleDownloadSVG = () => {
+    downloadRechartsAsSVG(chartRef.current, "cumulative-incidence");
+  };
+
+  const totalEvents = curves.reduce((sum, c) => sum + c.events, 0);
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+        <div className="flex items-center gap-3 flex-wrap">
+          <CardTitle className="text-lg">Cumulative Incidence (Competing Risks)</CardTitle>
+          <CompetingRisksSelector annotations={annotations} columns={columns} spec={spec} onChange={onSpecChange} />
+          {headerControls}
+          {grayTest && (
+            <TooltipProvider>
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant={grayTest.pValue < 0.05 ? "default" : "secondary"} className="cursor-help">
+                    Gray's test: {formatPValue(grayTest.pValue)}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="font-semibold mb-1">Equality of cumulative incidence across groups</p>
+                  <p className="text-xs">
+                    Gray's K-sample test (rho = 0, as cmprsk::cuminc): χ² = {grayTest.chiSquare.toFixed(2)}, df = {grayTest.df}.
+                  </p>
+                  {fineGray && (
+                    <p className="text-xs mt-1">
+                      Fine-Gray score test: χ² = {fineGray.scoreTest.chiSquare.toFixed(2)}, {formatPValue(fineGray.scoreTest.pValue)}
+                    </p>
+                  )}
+                </TooltipContent>
+              </UITooltip>
+            </TooltipProvider>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onExportStats && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => onExportStats("csv")}>
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onExportStats("tsv")}>
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                TSV
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={handleDownloadPNG}>
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDownloadSVG}>
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {curves.length === 0 || totalEvents === 0 ? (
+          <div className="h-[280px] flex items-center justify-center text-muted-foreground text-sm text-center">
+            {curves.length === 0
+              ? `No samples with ${spec.timeColumn} and ${spec.statusColumn} match the current grouping.`
+              : "No events of interest. Mark at least one status code as the event of interest."}
+          </div>
+        ) : (
+          <>
+            <div ref={chartRef} className="h-[380px] bg-card">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    tick={{ fontSize: 11 }}
+                    tickLine={false}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                    tickFormatter={(v) => v.toFixed(0)}
+                    label={{ value: "Time (months)", position: "insideBottom", offset: -15, fontSize: 12 }}
+                  />
+                  <YAxis
+                    domain={[0, 1]}
+                    tick={{ fontSize: 11 }}
+                    tickLine={false}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                    tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                    label={{ value: "Cumulative incidence", angle: -90, position: "insideLeft", fontSize: 12, dx: -5, dy: 60 }}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                      fontSize: 12,
+                    }}
+                    formatter={(value: number) => formatPercent(value)}
+                    labelFormatter={(t: number) => `t = ${t.toFixed(1)} mo`}
+                  />
+                  <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 12 }} />
+                  {curves.map(c => (
+                    <Line
+                      key={`${c.group}-event`}
+                      name={`${c.group} (event)`}
+                      dataKey={`${c.group}__event`}
+                      type="stepAfter"
+                      stroke={subtypeColors[c.group] || "hsl(var(--primary))"}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {curves.map(c => (
+                    <Line
+                      key={`${c.group}-competing`}
+                      name={`${c.group} (competing)`}
+                      dataKey={`${c.group}__competing`}
+                      type="stepAfter"
+                      stroke={subtypeColors[c.group] || "hsl(var(--primary))"}
+                      strokeWidth={1.5}
+                      strokeDasharray="6 4"
+                      dot={false}
+                      connectNulls={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="mt-3 rounded-md border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b bg-muted/30">
+                    <th className="text-left py-1.5 px-3 font-medium">Group</th>
+                    <th className="text-right py-1.5 px-3 font-medium">N</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Events</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Competing</th>
+                    {horizons.map(h => (
+                      <th key={h} className="text-right py-1.5 px-3 font-medium">{h} mo</th>
+                    ))}
+                    <th className="text-right py-1.5 px-3 font-medium">sHR (95% CI)</th>
+                    <th className="text-right py-1.5 px-3 font-medium">P-value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {curves.map(c => {
+                    const shr = fineGray?.groups.find(g => g.subtype === c.group);
+                    return (
+                      <tr key={c.group} className="border-b border-border/50">
+                        <td className="py-1.5 px-3">
+                          <div className="flex items-center gap-2">
+                            <div
+                              className="w-3 h-3 rounded-full"
+                              style={{ backgroundColor: subtypeColors[c.group] || 'hsl(var(--primary))' }}
+                            />
+                            {c.group}
+                          </div>
+                        </td>
+                        <td className="text-right py-1.5 px-3">{c.n}</td>
+                        <td className="text-right py-1.5 px-3">{c.events}</td>
+                        <td className="text-right py-1.5 px-3">{c.competing}</td>
+                        {horizons.map(h => {
+                          const est = cumulativeIncidenceAt(c.points, h, c.maxTime);
+                          return (
+                            <td key={h} className="text-right py-1.5 px-3 font-mono">
+                              {est ? (
+                                <>
+                                  {formatPercent(est.incidence)}
+                                  <span className="block text-[10px] text-muted-foreground">
+                                    {formatPercent(est.lowerCI)}–{formatPercent(est.upperCI)}
+                                  </span>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                        <td className="text-right py-1.5 px-3 font-mono">
+                          {shr
+                            ? formatHR(shr.hazardRatio, shr.lowerCI, shr.upperCI)
+                            : fineGray?.referenceGroup === c.group ? "Reference" : "—"}
+                        </td>
+                        <td className={`text-right py-1.5 px-3 ${shr && shr.pValue < 0.05 ? "font-medium" : ""}`}>
+                          {shr ? formatPValue(shr.pValue) : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-3 text-center">
+          Aalen-Johansen cumulative incidence of the event of interest (solid) and of competing events (dashed),
+          with 95% CIs at each horizon. Subdistribution hazard ratios (sHR) are from a Fine-Gray model,
+          with model-based rather than robust standard errors, versus {fineGray?.referenceGroup ?? groups[0] ?? "the first group"}; — marks horizons beyond the group's follow-up.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, Clock } from "lucide-react";
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import {
+  SurvivalEndpoint,
+  defaultEventValues,
+  detectEndpoints,
+  endpointObservations,
+  eventColumnCandidates,
+  eventValueCounts,
+  timeColumnCandidates,
+} from "@/lib/survivalEndpoint";
+
+interface EndpointSelectorProps {
+  annotations: AnnotationData;
+  columns: string[];
+  endpoint: SurvivalEndpoint | null;
+  onChange: (endpoint: SurvivalEndpoint | null) => void;
+  // Whether the results JSON carries its own survival endpoint (rawSurvivalData / survivalData)
+  hasResultsEndpoint?: boolean;
+}
+
+const RESULTS_ENDPOINT = "__results__";
+
+export const EndpointSelector = ({
+  annotations,
+  columns,
+  endpoint,
+  onChange,
+  hasResultsEndpoint = true,
+}: EndpointSelectorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const timeColumns = useMemo(() => timeColumnCandidates(annotations, columns), [annotations, columns]);
+  const eventColumns = useMemo(() => eventColumnCandidates(annotations, columns), [annotations, columns]);
+  const presets = useMemo(() => detectEndpoints(annotations, columns), [annotations, columns]);
+
+  const eventValues = useMemo(
+    () => (endpoint ? eventValueCounts(annotations, endpoint.eventColumn) : []),
+    [annotations, endpoint]
+  );
+
+  const summary = useMemo(() => {
+    if (!endpoint) return null;
+    const records = endpointObservations(annotations, endpoint);
+    return { n: records.length, events: records.filter(r => r.event).length };
+  }, [annotations, endpoint]);
+
+  if (timeColumns.length === 0 || eventColumns.length === 0) {
+    return null;
+  }
+
+  const customLabel = (timeColumn: string, eventColumn: string) => `${timeColumn} / ${eventColumn}`;
+
+  const updateColumns = (timeColumn: string, eventColumn: string) => {
+    const preset = presets.find(p => p.timeColumn === timeColumn && p.eventColumn === eventColumn);
+    const values = eventValueCounts(annotations, eventColumn).map(v => v.value);
+    onChange({
+      label: preset?.label ?? customLabel(timeColumn, eventColumn),
+      timeColumn,
+      eventColumn,
+      eventValues: endpoint?.eventColumn === eventColumn ? endpoint.eventValues : defaultEventValues(values),
+    });
+  };
+
+  const toggleEventValue = (value: string) => {
+    if (!endpoint) return;
+    onChange({
+      ...endpoint,
+      eventValues: endpoint.eventValues.includes(value)
+        ? endpoint.eventValues.filter(v => v !== value)
+        : [...endpoint.eventValues, value],
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1 text-xs font-normal">
+          <Clock className="h-3.5 w-3.5 opacity-70" />
+          <span className="text-muted-foreground">Endpoint:</span>
+          <span className="max-w-[140px] truncate">{endpoint ? endpoint.label : "From results"}</span>
+          <ChevronDown className="h-3.5 w-3.5 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="p-3 border-b space-y-2">
+          <div className="text-xs font-medium">Quick select</div>
+          <div className="flex flex-wrap gap-1">
+            {hasResultsEndpoint && (
+              <Button
+                variant={endpoint ? "outline" : "default"}
+                size="sm"
+                className="h-6 text-xs px-2"
+                onClick={() => onChange(null)}
+              >
+                From results
+              </Button>
+            )}
+            {presets.map(preset => (
+              <Button
+                key={preset.label}
+                variant={endpoint?.timeColumn === preset.timeColumn && endpoint?.eventColumn === preset.eventColumn ? "default" : "outline"}
+                size="sm"
+                className="h-6 text-xs px-2"
+                onClick={() => onChange(preset)}
+                title={customLabel(preset.timeColumn, preset.eventColumn)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-3 space-y-2 border-b">
+          <div className="text-xs font-medium">Custom endpoint</div>
+          <div className="grid grid-cols-[60px_1fr] items-center gap-2">
+            <span className="text-xs text-muted-foreground">Time</span>
+            <Select
+              value={endpoint?.timeColumn ?? RESULTS_ENDPOINT}
+              onValueChange={(v) => updateColumns(v, endpoint?.eventColumn ?? eventColumns[0])}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue placeholder="Time column" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={RESULTS_ENDPOINT} disabled>Select column…</SelectItem>
+                {timeColumns.map(col => (
+                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">Event</span>
+            <Select
+              value={endpoint?.eventColumn ?? RESULTS_ENDPOINT}
+              onValueChange={(v) => updateColumns(endpoint?.timeColumn ?? timeColumns[0], v)}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue placeholder="Event column" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={RESULTS_ENDPOINT} disabled>Select column…</SelectItem>
+                {eventColumns.map(col => (
+                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {endpoint && (
+          <>
+            <div className="px-3 pt-3 text-xs font-medium">Values counted as an event</div>
+            <ScrollArea className="max-h-[180px]">
+              <div className="p-2 space-y-0.5">
+                {eventValues.map(({ value, count }) => (
+                  <div
+                    key={value}
+                    className="flex items-center gap-2 px-2 py-1 rounded-md hover:bg-muted/50 cursor-pointer transition-colors"
+                    onClick={() => toggleEventValue(value)}
+                  >
+                    <Checkbox
+                      id={`event-${value}`}
+                      checked={endpoint.eventValues.includes(value)}
+                      onCheckedChange={() => toggleEventValue(value)}
+                      className="h-4 w-4"
+                    />
+                    <label htmlFor={`event-${value}`} className="text-sm cursor-pointer flex-1 truncate" title={value}>
+                      {value}
+                    </label>
+                    <Badge variant="secondary" className="text-[10px] px-1 py-0 h-4">
+                      n={count}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            {summary && (
+              <div className="p-2 border-t bg-muted/30 text-[10px] text-muted-foreground">
+                {summary.n} samples with follow-up, {summary.events} events
+                {summary.events === 0 && " — select at least one event value"}
+              </div>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -12,9 +12,11 @@ import { Progress } from "@/components/ui/progress";
 
 interface ExportAllButtonProps {
   getChartRefs: () => ChartRef[];
+  // Written to analysis-settings.tsv in the archive
+  settings?: Record<string, string | number>;
 }
 
-export const ExportAllButton = ({ getChartRefs }: ExportAllButtonProps) => {
+export const ExportAllButton = ({ getChartRefs, settings }: ExportAllButtonProps) => {
   const [isExporting, setIsExporting] = useState(false);
   const [progress, setProgress] = useState<ExportProgress | null>(null);
 
@@ -27,24 +29,24 @@ export const ExportAllButton = ({ getChartRefs }: ExportAllButtonProps) => {
     setProgress(null);
     try {
       const charts = getChartRefs();
-      await exportAllAsZip(charts, 'png', 'nmf-visualizations', handleProgress);
+      await exportAllAsZip(charts, 'png', 'nmf-visualizations', handleProgress, settings);
     } finally {
       setIsExporting(false);
       setProgress(null);
     }
-  }, [getChartRefs, handleProgress]);
+  }, [getChartRefs, handleProgress, settings]);
 
   const handleExportSVG = useCallback(async () => {
     setIsExporting(true);
     setProgress(null);
     try {
       const charts = getChartRefs();
-      await exportAllAsZip(charts, 'svg', 'nmf-visualizations', handleProgress);
+      await exportAllAsZip(charts, 'svg', 'nmf-visualizations', handleProgress, settings);
     } finally {
       setIsExporting(false);
       setProgress(null);
     }
-  }, [getChartRefs, handleProgress]);
+  }, [getChartRefs, handleProgress, settings]);
 
   const progressPercent = progress ? (progress.current / progress.total) * 100 : 0;
 
@@ -6,11 +6,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import React, { useMemo, useState, useRef, useCallback, forwardRef, useImperativeHandle } from "react";
 import { Download, RotateCcw } from "lucide-react";
 import { AnnotationSelector } from "./AnnotationSelector";
-import { generateSubtypeColors, MarkerGene, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
+import { compareSubtypes, generateSubtypeColors, MarkerGene, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
 import { Dendrogram, DendrogramNode } from "./Dendrogram";
 import html2canvas from "html2canvas";
 
 import { AnnotationData } from "./AnnotationUploader";
+import { SampleSet } from "@/lib/sampleSets";
 
 interface HeatmapData {
   genes: string[];
@@ -30,6 +31,7 @@ interface ExpressionHeatmapProps {
   filterResetKey?: number;
   markerGenesPerSubtype?: number;
   markerGenes?: MarkerGene[];
+  sampleSets?: SampleSet[];
 }
 
 type ClusteringMethod = "none" | "average" | "complete" | "single" | "ward";
@@ -230,7 +232,7 @@ const transpose = (matrix: number[][]): number[][] => {
   return matrix[0].map((_, colIndex) => matrix.map(row => row[colIndex]));
 };
 
-export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeatmapProps>(({ data, subtypeColors, userAnnotations, filterResetKey, markerGenesPerSubtype, markerGenes }, ref) => {
+export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeatmapProps>(({ data, subtypeColors, userAnnotations, filterResetKey, markerGenesPerSubtype, markerGenes, sampleSets = [] }, ref) => {
   const [hoveredCell, setHoveredCell] = useState<{ gene: string; sample: string; value: number; subtype: string; userAnnotation?: string } | null>(null);
   const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
   const [useZScore, setUseZScore] = useState(false);
@@ -241,6 +243,12 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
   const [showDendrograms, setShowDendrograms] = useState(true);
   const [excludedSubtypes, setExcludedSubtypes] = useState<Set<string>>(new Set());
   const [excludedAnnotationValues, setExcludedAnnotationValues] = useState<Set<string>>(new Set());
+  const [highlightedSetName, setHighlightedSetName] = useState<string | null>(null);
+
+  // Highlighted sample set (cleared automatically when the set is deleted)
+  const highlightedSet = sampleSets.find(s => s.name === highlightedSetName) ?? null;
+  const highlightedIds = useMemo(() => new Set(highlightedSet?.sampleIds ?? []), [highlightedSet]);
+  const isDimmed = (sampleId: string) => !!highlightedSet && !highlightedIds.has(sampleId);
 
   // Reset filters when global reset key changes
   React.useEffect(() => {
@@ -423,7 +431,7 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
       geneIndices = filteredData.genes.map((_, i) => i);
     }
 
-    const subtypes = [...new Set(geneFilteredData.sampleSubtypes)].sort(); // Use original data for all subtypes
+    const subtypes = [...new Set(geneFilteredData.sampleSubtypes)].sort(compareSubtypes); // Use original data for all subtypes
 
     return {
       displayValues: normalizedValues,
@@ -675,7 +683,8 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
 
     const sampleDendroH = hasSampleDendro ? 40 : 0;
     const sampleLabelH = 70; // Increased for sample names
-    const annotBarsH = (selectedAnnotation && userAnnotations ? 12 : 0) + 12; // user annot + subtype with gap
+    const highlightBarH = highlightedSet ? 12 : 0;
+    const annotBarsH = (selectedAnnotation && userAnnotations ? 12 : 0) + highlightBarH + 12; // user annot + set + subtype with gap
 
     // Calculate user annotation legend height
     const userAnnotEntries = selectedAnnotation ? Object.entries(userAnnotationColors) : [];
@@ -703,7 +712,8 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
 
     const yDendro = padding.top;
     // Position sample labels to end just above annotation bars with gap
-    const ySubtypeBar = padding.top + sampleDendroH + sampleLabelH + (selectedAnnotation && userAnnotations ? 12 : 0) + 4;
+    const yHighlightBar = padding.top + sampleDendroH + sampleLabelH + (selectedAnnotation && userAnnotations ? 12 : 0) + 4;
+    const ySubtypeBar = yHighlightBar + highlightBarH;
     const yUserAnnotBar = padding.top + sampleDendroH + sampleLabelH + 4;
     const ySampleLabels = yUserAnnotBar - 4; // Sample labels end just above first annotation bar
     const yCellsStart = padding.top + topBlockH;
@@ -757,6 +767,20 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
       });
     }
 
+    // Highlighted sample set bar
+    if (highlightedSet) {
+      sortedSampleIndices.forEach((sampleIdx, i) => {
+        if (!highlightedIds.has(filteredData.samples[sampleIdx])) return;
+        const rect = document.createElementNS(svgNS, "rect");
+        rect.setAttribute("x", String(padding.left + i * cellWidth));
+        rect.setAttribute("y", String(yHighlightBar));
+        rect.setAttribute("width", String(cellWidth));
+        rect.setAttribute("height", "8");
+        rect.setAttribute("fill", highlightedSet.color);
+        svg.appendChild(rect);
+      });
+    }
+
     // Subtype annotation bar
     sortedSampleIndices.forEach((sampleIdx, i) => {
       const rect = document.createElementNS(svgNS, "rect");
@@ -777,6 +801,7 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
         rect.setAttribute("width", String(cellWidth));
         rect.setAttribute("height", String(cellHeight));
         rect.setAttribute("fill", getHeatmapColor(displayValues[geneIdx][sampleIdx], minVal, maxVal));
+        if (highlightedSet && !highlightedIds.has(filteredData.samples[sampleIdx])) rect.setAttribute("fill-opacity", "0.3");
         svg.appendChild(rect);
       });
     });
@@ -939,7 +964,7 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
     cellWidth, cellHeight, filteredData, showDendrograms, sampleDendrogram, geneDendrogram,
     sampleClusterMethod, geneClusterMethod, selectedAnnotation, userAnnotations,
     userAnnotationColors, sortedSampleIndices, sortedGeneIndices, displayValues,
-    minVal, maxVal, subtypeColors, uniqueSubtypes, getDendrogramLines, useZScore
+    minVal, maxVal, subtypeColors, uniqueSubtypes, getDendrogramLines, useZScore, highlightedSet, highlightedIds
   ]);
 
   // Expose getSVGString via ref for batch export
@@ -1059,6 +1084,25 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
               </SelectContent>
             </Select>
           </div>
+          {sampleSets.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground whitespace-nowrap">Highlight set:</Label>
+              <Select
+                value={highlightedSet?.name ?? "none"}
+                onValueChange={(v) => setHighlightedSetName(v === "none" ? null : v)}
+              >
+                <SelectTrigger className="h-7 w-[120px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border border-border">
+                  <SelectItem value="none" className="text-xs">None</SelectItem>
+                  {sampleSets.map((set) => (
+                    <SelectItem key={set.name} value={set.name} className="text-xs">{set.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <Switch
               id="dendrogram-toggle"
@@ -1154,6 +1198,33 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
             </div>
           )}
           
+          {/* Highlighted sample set bar */}
+          {highlightedSet && (
+            <div className="flex mb-0.5">
+              <div className="flex">
+                {sortedSampleIndices.map((idx, i) => {
+                  const sampleId = filteredData.samples[idx];
+                  const inSet = highlightedIds.has(sampleId);
+                  return (
+                    <div
+                      key={`set-${i}`}
+                      style={{
+                        width: cellWidth,
+                        height: 8,
+                        backgroundColor: inSet ? highlightedSet.color : "transparent",
+                      }}
+                      title={inSet ? `${sampleId} - ${highlightedSet.name}` : sampleId}
+                    />
+                  );
+                })}
+              </div>
+              <div style={{ width: 4 }} />
+              <div className="text-[8px] text-muted-foreground text-left truncate pl-1" style={{ width: 80 }}>
+                {highlightedSet.name}
+              </div>
+            </div>
+          )}
+
           {/* Subtype annotation bar */}
           <div className="flex mb-1">
             <div className="flex">
@@ -1188,6 +1259,7 @@ export const ExpressionHeatmap = forwardRef<ExpressionHeatmapRef, ExpressionHeat
                         width: cellWidth,
                         height: cellHeight,
                         backgroundColor: getHeatmapColor(displayValues[geneIdx][sampleIdx], minVal, maxVal),
+                        opacity: isDimmed(filteredData.samples[sampleIdx]) ? 0.3 : 1,
                       }}
                       className="cursor-pointer hover:ring-1 hover:ring-white hover:z-10"
                       onMouseEnter={(e) => handleCellHover(e, geneIdx, sampleIdx)}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Grid3x3, Check, AlertCircle, HelpCircle, Loader2 } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { NmfData } from "@/components/bioinformatics/JsonUploader";
+import { ValidationReport } from "@/components/bioinformatics/ValidationReport";
+import { NumericMatrix, deriveNmfResults, missingRowsNote, parseNumericMatrix } from "@/lib/nmfMatrices";
+import { ValidationIssue, validateNmfData } from "@/lib/nmfValidation";
+
+interface FactorMatrixImporterProps {
+  onDataLoaded: (data: NmfData) => void;
+}
+
+type MatrixSlot = "w" | "h" | "expression";
+
+const SLOTS: { key: MatrixSlot; label: string; hint: string }[] = [
+  { key: "w", label: "W (basis)", hint: "genes x k" },
+  { key: "h", label: "H (coefficients)", hint: "k x samples" },
+  { key: "expression", label: "Expression", hint: "genes x samples, optional" },
+];
+
+type ImportStatus = "idle" | "success" | "error";
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
+
+export const FactorMatrixImporter = ({ onDataLoaded }: FactorMatrixImporterProps) => {
+  const [files, setFiles] = useState<Partial<Record<MatrixSlot, File>>>({});
+  const [dataset, setDataset] = useState("");
+  const [firstColumnRowNames, setFirstColumnRowNames] = useState(true);
+  const [status, setStatus] = useState<ImportStatus>("idle");
+  const [message, setMessage] = useState("");
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [isBuilding, setIsBuilding] = useState(false);
+  // Remounts the file inputs so Clear also empties them
+  const [inputKey, setInputKey] = useState(0);
+
+  const fail = (text: string) => {
+    setStatus("error");
+    setMessage(text);
+  };
+
+  const handleBuild = async () => {
+    if (!files.w || !files.h) return;
+    setIsBuilding(true);
+    setIssues([]);
+    try {
+      const matrices: Partial<Record<MatrixSlot, NumericMatrix>> = {};
+      const missingNotes: string[] = [];
+      for (const { key } of SLOTS) {
+        const file = files[key];
+        if (!file) continue;
+        const matrix = parseNumericMatrix(await file.text(), firstColumnRowNames);
+        if (typeof matrix === "string") {
+          fail(`${file.name}: ${matrix}`);
+          return;
+        }
+        const note = missingRowsNote(matrix, file.name);
+        if (note) missingNotes.push(note);
+        matrices[key] = matrix;
+      }
+
+      const derived = deriveNmfResults(
+        matrices.w,
+        matrices.h,
+        matrices.expression ?? null,
+        dataset.trim() || baseName(files.h.name)
+      );
+      if (typeof derived === "string") {
+        fail([derived, ...missingNotes].join("; "));
+        return;
+      }
+
+      const { data, issues: validationIssues } = validateNmfData(derived.rawData);
+      const notes: ValidationIssue[] = [...missingNotes, ...derived.notes].map(note => ({ severity: "warning", path: "W/H import", message: note }));
+      setIssues([...notes, ...validationIssues]);
+      if (!data) {
+        const errors = validationIssues.filter(i => i.severity === "error").length;
+        fail(`Derived results are invalid: ${errors} error${errors === 1 ? "" : "s"} found`);
+        setReportOpen(true);
+        return;
+      }
+      setReportOpen(false);
+
+      onDataLoaded(data);
+      setStatus("success");
+      setMessage(
+        `Derived ${data.summary.n_samples} samples, ${data.summary.n_subtypes} subtypes and ` +
+        `${data.markerGenes.length} marker genes${matrices.expression ? " (with expression)" : ""}`
+      );
+    } catch (err) {
+      fail(`Failed to read matrices: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const reset = () => {
+    setFiles({});
+    setDataset("");
+    setFirstColumnRowNames(true);
+    setStatus("idle");
+    setMessage("");
+    setIssues([]);
+    setInputKey(k => k + 1);
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-primary" />
+          Import W / H Matrices
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-xs">
+                <p className="font-medium mb-1">Factor matrices from any NMF tool:</p>
+                <ul className="text-xs space-y-1">
+                  <li>TSV, CSV or space-separated; gene and sample names as row / column headers</li>
+                  <li>Rows with missing values (NA or blank) are dropped and listed in the report</li>
+                  <li>W and H may be in either orientation; their shared dimension is the rank (2-12)</li>
+                  <li>Each sample is assigned to its highest-scoring factor</li>
+                  <li>The top 50 genes of each factor become its markers</li>
+                  <li>Without an expression matrix the heatmap shows W x H</li>
+                </ul>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </CardTitle>
+        <CardDescription>
+          Derive results from basis and coefficient matrices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {SLOTS.map(({ key, label, hint }) => (
+          <div key={key} className="grid grid-cols-[7.5rem_1fr] items-center gap-2">
+            <Label htmlFor={`nmf-matrix-${key}`} className="text-xs">
+              {label}
+              <span className="block text-[10px] font-normal text-muted-foreground">{hint}</span>
+            </Label>
+            <Input
+              key={`${key}-${inputKey}`}
+              id={`nmf-matrix-${key}`}
+              type="file"
+              accept=".tsv,.csv,.txt"
+              className="h-8 text-xs"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                setFiles(prev => ({ ...prev, [key]: file }));
+              }}
+            />
+          </div>
+        ))}
+        <div className="grid grid-cols-[7.5rem_1fr] items-center gap-2">
+          <Label htmlFor="nmf-matrix-dataset" className="text-xs">Dataset name</Label>
+          <Input
+            id="nmf-matrix-dataset"
+            value={dataset}
+            onChange={(e) => setDataset(e.target.value)}
+            placeholder={files.h ? baseName(files.h.name) : "From the H file name"}
+            className="h-8 text-xs"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="nmf-matrix-row-names"
+            checked={firstColumnRowNames}
+            onCheckedChange={(checked) => setFirstColumnRowNames(checked === true)}
+            className="h-4 w-4"
+          />
+          <label htmlFor="nmf-matrix-row-names" className="text-xs cursor-pointer">
+            First column is row names when the header names every column
+          </label>
+        </div>
+
+        <Button className="w-full" size="sm" disabled={!files.w || !files.h || isBuilding} onClick={handleBuild}>
+          {isBuilding && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Build results
+        </Button>
+
+        {status === "success" && (
+          <div className="flex items-start gap-2 rounded-lg border border-green-500/50 bg-green-500/5 p-2">
+            <Check className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+            <p className="text-xs text-green-600 dark:text-green-400">{message}</p>
+          </div>
+        )}
+        {status === "error" && (
+          <div className="flex items-start gap-2 rounded-lg border border-destructive bg-destructive/5 p-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            <p className="text-xs text-destructive">{message}</p>
+          </div>
+        )}
+
+        <ValidationReport issues={issues} open={reportOpen} onOpenChange={setReportOpen} />
+
+        {status !== "idle" && (
+          <Button variant="ghost" size="sm" className="w-full text-xs" onClick={reset}>
+            Clear
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,7 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Download, Database, Calculator, FileSpreadsheet } from "lucide-react";
+import { Download, Database, Calculator, FileSpreadsheet, Sigma } from "lucide-react";
 import { useMemo, useRef } from "react";
 import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
 import { formatPValue } from "@/lib/logRankTest";
@@ -20,6 +20,8 @@ interface ForestPlotProps {
   groups: HazardRatioGroup[];
   subtypeColors: Record<string, string>;
   isPrecomputed?: boolean;
+  // Fitted by partial likelihood on patient-level data
+  isExact?: boolean;
   title?: string;
 }
 
@@ -28,9 +30,11 @@ export const ForestPlot = ({
   groups, 
   subtypeColors,
   isPrecomputed = false,
+  isExact = false,
   title = "Forest Plot: Hazard Ratios"
 }: ForestPlotProps) => {
   const chartRef = useRef<HTMLDivElement>(null);
+  const dataSource = isExact ? 'Exact (patient-level)' : isPrecomputed ? 'R (pre-computed)' : 'Estimated';
 
   const handleDownloadPNG = () => {
     downloadChartAsPNG(chartRef.current, "forest-plot");
@@ -56,7 +60,7 @@ export const ForestPlot = ({
       '-',
       '-',
       '-',
-      isPrecomputed ? 'R (pre-computed)' : 'Estimated'
+      dataSource
     ].join(separator));
     
     // Comparison groups
@@ -68,7 +72,7 @@ export const ForestPlot = ({
         g.upperCI.toFixed(4),
         g.pValue.toExponential(4),
         g.pValue < 0.05 ? 'Yes' : 'No',
-        isPrecomputed ? 'R (pre-computed)' : 'Estimated'
+        dataSource
       ].join(separator));
     });
     
@@ -147,12 +151,12 @@ export const ForestPlot = ({
             <Tooltip>
               <TooltipTrigger asChild>
                 <Badge variant="outline" className="cursor-help text-xs">
-                  {isPrecomputed ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
-                  {isPrecomputed ? 'R' : 'Est.'}
+                  {isExact ? <Sigma className="h-3 w-3 mr-1" /> : isPrecomputed ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
+                  {isExact ? 'Exact' : isPrecomputed ? 'R' : 'Est.'}
                 </Badge>
               </TooltipTrigger>
               <TooltipContent>
-                <p>{isPrecomputed ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}</p>
+                <p>{isExact ? 'Cox partial-likelihood fit on patient-level data' : isPrecomputed ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -52,6 +52,9 @@ export const ForwardSelectionPanel = ({ result, onApplyFinal }: ForwardSelection
     lines.push(['Final selected covariates:', result.finalCovariates.join('; ')].join(separator));
     lines.push(['Rejected covariates:', result.rejectedCovariates.join('; ')].join(separator));
     lines.push(['Significance threshold:', result.threshold.toString()].join(separator));
+    if (result.nSamples !== undefined) {
+      lines.push(['Complete cases (n):', result.nSamples.toString()].join(separator));
+    }
     
     const content = lines.join('\n');
     const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' });
@@ -255,6 +258,7 @@ export const ForwardSelectionPanel = ({ result, onApplyFinal }: ForwardSelection
         
         <div className="mt-3 text-xs text-muted-foreground text-center">
           Covariates are added one at a time if they significantly improve model fit (p &lt; {result.threshold}).
+          {result.nSamples !== undefined && ` Every model is fitted on the same ${result.nSamples} patients with complete covariate values.`}
         </div>
       </CardContent>
     </Card>
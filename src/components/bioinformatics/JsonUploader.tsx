@@ -1,9 +1,14 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, FileJson, Check, AlertCircle, Download, HelpCircle } from "lucide-react";
+import { Upload, FileJson, Check, AlertCircle, Download, HelpCircle, FolderOpen } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { NmfSummary, SampleResult, MarkerGene, RankMetric, SurvivalDataPoint } from "@/data/mockNmfData";
+import { NmfSummary, SampleResult, MarkerGene, RankMetric, SurvivalDataPoint, RawSurvivalDataPoint } from "@/data/mockNmfData";
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import { ValidationReport } from "@/components/bioinformatics/ValidationReport";
+import { ValidationIssue, validateNmfData } from "@/lib/nmfValidation";
+import { BundleEntry, NmfBundle, droppedFolderEntries, entriesFromFiles, entriesFromZip, isZipFile, readNmfBundle } from "@/lib/nmfBundle";
+import { parseAnnotationText } from "@/lib/annotationParser";
 
 // Cox PH results from R (pre-computed)
 export interface CoxPHResultFromJSON {
@@ -25,6 +30,8 @@ export interface CoxPHResultFromJSON {
 export interface NmfData {
   summary: NmfSummary;
   samples: SampleResult[];
+  // Subtype defined by each entry of SampleResult.scores
+  scoreSubtypes: string[];
   markerGenes: MarkerGene[];
   heatmapData?: {
     genes: string[];
@@ -34,124 +41,139 @@ export interface NmfData {
   };
   rankMetrics?: RankMetric[];
   survivalData?: SurvivalDataPoint[];
+  // Patient-level survival times (sample_id, subtype, time, event)
+  rawSurvivalData?: RawSurvivalDataPoint[];
   // Pre-computed survival statistics from R
   survival_pvalue?: number;
   coxPHResults?: CoxPHResultFromJSON;
 }
 
-// Raw JSON format (may use different field names)
-interface RawNmfData {
-  summary: NmfSummary;
-  samples?: SampleResult[];
-  sampleResults?: SampleResult[];
-  markerGenes: MarkerGene[];
-  heatmapData?: NmfData['heatmapData'];
-  rankMetrics?: RankMetric[];
-  survivalData?: SurvivalDataPoint[];
-  survival_pvalue?: number;
-  coxPHResults?: CoxPHResultFromJSON;
-}
-
 interface JsonUploaderProps {
   onDataLoaded: (data: NmfData) => void;
+  // Called with samples_annotation.tsv when loading an R output folder or ZIP
+  onAnnotationLoaded?: (annotation: AnnotationData) => void;
 }
 
 type UploadStatus = "idle" | "success" | "error";
 
-export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
+export const JsonUploader = ({ onDataLoaded, onAnnotationLoaded }: JsonUploaderProps) => {
   const [status, setStatus] = useState<UploadStatus>("idle");
   const [message, setMessage] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [bundleSource, setBundleSource] = useState("");
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
 
-  const validateAndNormalize = (data: unknown): NmfData | null => {
-    if (!data || typeof data !== "object") return null;
-    const d = data as RawNmfData;
-    
-    // Check for required fields (accept both 'samples' and 'sampleResults')
-    const samples = d.samples || d.sampleResults;
-    if (!d.summary || !samples || !d.markerGenes) return null;
-    
-    // Validate summary structure
-    const summary = d.summary as unknown as Record<string, unknown>;
-    if (
-      typeof summary.n_samples !== "number" ||
-      typeof summary.n_subtypes !== "number" ||
-      !summary.subtype_counts
-    ) {
-      return null;
+  // Validate raw results and, for a bundle, load its annotation table too
+  const loadResults = useCallback((rawData: unknown, bundle?: NmfBundle) => {
+    const { data: normalizedData, issues: validationIssues } = validateNmfData(rawData);
+    if (!normalizedData) {
+      const errors = validationIssues.filter(i => i.severity === "error").length;
+      setIssues(validationIssues);
+      setStatus("error");
+      setMessage(`Invalid NMF data: ${errors} error${errors === 1 ? "" : "s"} found`);
+      setReportOpen(true);
+      return;
     }
+    setReportOpen(false);
+
+    onDataLoaded(normalizedData);
+    setStatus("success");
     
-    // Validate samples array
-    if (!Array.isArray(samples) || samples.length === 0) return null;
-    
-    // Validate markerGenes array
-    if (!Array.isArray(d.markerGenes)) return null;
-    
-    // Optional: validate rankMetrics if present
-    if (d.rankMetrics && !Array.isArray(d.rankMetrics)) return null;
-    
-    // Optional: validate survivalData if present
-    if (d.survivalData && !Array.isArray(d.survivalData)) return null;
+    const features = [];
+    if (normalizedData.rankMetrics) features.push("rank metrics");
+    if (normalizedData.survivalData) features.push("survival data");
+    if (normalizedData.rawSurvivalData) features.push("patient-level survival");
+    if (normalizedData.coxPHResults) features.push("Cox PH results");
+    if (normalizedData.survival_pvalue !== undefined) features.push("log-rank p-value");
+
+    if (bundle?.annotationText !== undefined && onAnnotationLoaded) {
+      const annotation = parseAnnotationText(bundle.annotationText, normalizedData.samples.map(s => s.sample_id));
+      if (typeof annotation === "string") {
+        validationIssues.push({ severity: "warning", path: bundle.files.annotation, message: `not loaded: ${annotation}` });
+      } else {
+        onAnnotationLoaded(annotation);
+        features.push(`${annotation.columns.length} annotation columns`);
+      }
+    }
+    const featuresStr = features.length > 0 ? ` (includes ${features.join(", ")})` : "";
     
-    // Return normalized data with consistent field names
-    return {
-      summary: d.summary,
-      samples: samples,
-      markerGenes: d.markerGenes,
-      heatmapData: d.heatmapData,
-      rankMetrics: d.rankMetrics,
-      survivalData: d.survivalData,
-      survival_pvalue: d.survival_pvalue,
-      coxPHResults: d.coxPHResults,
-    };
-  };
+    setIssues(validationIssues);
+    const warnings = validationIssues.length;
+    const warningsStr = warnings > 0 ? `, ${warnings} warning${warnings === 1 ? "" : "s"}` : "";
+    setMessage(`Loaded ${normalizedData.summary.n_samples} samples with ${normalizedData.summary.n_subtypes} subtypes${featuresStr}${warningsStr}`);
+  }, [onDataLoaded, onAnnotationLoaded]);
+
+  const processBundle = useCallback(async (entries: BundleEntry[] | Promise<BundleEntry[]>) => {
+    setIssues([]);
+    setBundleSource("");
+    try {
+      const bundle = await readNmfBundle(await entries);
+      if (typeof bundle === "string") {
+        setStatus("error");
+        setMessage(bundle);
+        return;
+      }
+      const ignored = bundle.otherFiles.length;
+      setBundleSource(
+        `From ${Object.values(bundle.files).join(", ")}` +
+        (ignored > 0 ? ` (${ignored} other file${ignored === 1 ? "" : "s"} not used)` : "")
+      );
+      loadResults(bundle.rawData, bundle);
+    } catch (err) {
+      setStatus("error");
+      setMessage(`Failed to read results: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [loadResults]);
 
   const processFile = useCallback(async (file: File) => {
+    if (isZipFile(file)) {
+      processBundle(entriesFromZip(file));
+      return;
+    }
+
+    setIssues([]);
+    setBundleSource("");
     if (!file.name.endsWith(".json")) {
       setStatus("error");
-      setMessage("Please upload a JSON file");
+      setMessage("Please upload a JSON file, or a ZIP or folder of R output");
       return;
     }
 
     try {
       const text = await file.text();
       const rawData = JSON.parse(text);
-      
-      const normalizedData = validateAndNormalize(rawData);
-      if (!normalizedData) {
-        setStatus("error");
-        setMessage("Invalid NMF data format. Expected: summary, samples (or sampleResults), markerGenes");
-        return;
-      }
-
-      onDataLoaded(normalizedData);
-      setStatus("success");
-      
-      const features = [];
-      if (normalizedData.rankMetrics) features.push("rank metrics");
-      if (normalizedData.survivalData) features.push("survival data");
-      if (normalizedData.coxPHResults) features.push("Cox PH results");
-      if (normalizedData.survival_pvalue !== undefined) features.push("log-rank p-value");
-      const featuresStr = features.length > 0 ? ` (includes ${features.join(", ")})` : "";
-      
-      setMessage(`Loaded ${normalizedData.summary.n_samples} samples with ${normalizedData.summary.n_subtypes} subtypes${featuresStr}`);
+      loadResults(rawData);
     } catch (err) {
       setStatus("error");
-      setMessage("Failed to parse JSON file");
+      setMessage(`Failed to parse JSON file: ${err instanceof Error ? err.message : String(err)}`);
     }
-  }, [onDataLoaded]);
+  }, [loadResults, processBundle]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) processFile(file);
   };
 
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) processBundle(entriesFromFiles(files));
+    e.target.value = "";
+  };
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    const folder = droppedFolderEntries(e.dataTransfer.items);
+    if (folder) {
+      processBundle(folder);
+      return;
+    }
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 1) processBundle(entriesFromFiles(files));
+    else if (files.length === 1) processFile(files[0]);
+  }, [processBundle, processFile]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -178,10 +200,12 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
                   <p className="font-medium mb-1">Expected JSON format:</p>
                   <ul className="text-xs space-y-1">
                     <li><code>summary</code>: n_samples, n_subtypes, subtype_counts, optimal_rank</li>
-                    <li><code>sampleResults</code>: sample_id, subtype, score_subtype_*</li>
+                    <li><code>sampleResults</code>: sample_id, subtype, score_subtype_1..k (k = 2-12)</li>
                     <li><code>markerGenes</code>: gene, subtype, score, pValue</li>
                     <li><code>rankMetrics</code> (optional): rank, cophenetic, silhouette</li>
                     <li><code>survivalData</code> (optional): subtype, timePoints</li>
+                    <li><code>rawSurvivalData</code> (optional): sample_id, subtype, time, event</li>
+                    <li>Or the whole R output folder (or a ZIP of it): nmf_results.json plus samples_annotation.tsv</li>
                   </ul>
                 </TooltipContent>
               </Tooltip>
@@ -200,7 +224,7 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
           </Button>
         </div>
         <CardDescription>
-          Upload JSON output from R pipeline
+          Upload JSON output from R pipeline, or its output folder / ZIP
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -217,7 +241,7 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
         >
           <input
             type="file"
-            accept=".json"
+            accept=".json,.zip"
             onChange={handleFileChange}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           />
@@ -229,6 +253,9 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
                 <p className="text-sm text-muted-foreground">
                   Drag & drop or click to upload
                 </p>
+                <p className="text-xs text-muted-foreground">
+                  JSON, ZIP, or the R output folder
+                </p>
               </>
             )}
             
@@ -236,6 +263,7 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
               <>
                 <Check className="h-8 w-8 text-green-500" />
                 <p className="text-sm text-green-600 dark:text-green-400">{message}</p>
+                {bundleSource && <p className="text-xs text-muted-foreground break-all">{bundleSource}</p>}
               </>
             )}
             
@@ -248,6 +276,28 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
           </div>
         </div>
         
+        <input
+          ref={(el) => {
+            folderInputRef.current = el;
+            el?.setAttribute("webkitdirectory", "");
+          }}
+          type="file"
+          multiple
+          onChange={handleFolderChange}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2 w-full text-xs"
+          onClick={() => folderInputRef.current?.click()}
+        >
+          <FolderOpen className="h-3.5 w-3.5 mr-1" />
+          Select R output folder
+        </Button>
+
+        <ValidationReport issues={issues} open={reportOpen} onOpenChange={setReportOpen} />
+
         {status !== "idle" && (
           <Button 
             variant="ghost" 
@@ -256,6 +306,8 @@ export const JsonUploader = ({ onDataLoaded }: JsonUploaderProps) => {
             onClick={() => {
               setStatus("idle");
               setMessage("");
+              setIssues([]);
+              setBundleSource("");
             }}
           >
             Upload another file
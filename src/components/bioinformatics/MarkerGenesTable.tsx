@@ -1,7 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { MarkerGene } from "@/data/mockNmfData";
+import { MarkerGene, compareSubtypes } from "@/data/mockNmfData";
 import { useState, useMemo } from "react";
 import { Download } from "lucide-react";
 
@@ -18,7 +18,7 @@ export const MarkerGenesTable = ({
 }: MarkerGenesTableProps) => {
   const [selectedSubtype, setSelectedSubtype] = useState<string | null>(null);
   
-  const subtypes = [...new Set(genes.map(g => g.subtype))].sort();
+  const subtypes = [...new Set(genes.map(g => g.subtype))].sort(compareSubtypes);
   
   // Filter and limit genes based on genesPerSubtype setting
   const limitedGenes = useMemo(() => {
@@ -25,6 +25,7 @@ export const ModelComparisonPanel = ({ comparisons }: ModelComparisonPanelProps)
       'Step',
       'Added Covariate(s)',
       'Model Covariates',
+      'N',
       'LRT Chi-sq',
       'LRT df',
       'LRT P-value',
@@ -40,6 +41,7 @@ export const ModelComparisonPanel = ({ comparisons }: ModelComparisonPanelProps)
         (i + 1).toString(),
         comp.addedCovariates.join('; '),
         comp.fullModel.covariates.join('; '),
+        comp.nSamples?.toString() ?? '',
         comp.likelihoodRatioTest.chiSquare.toFixed(4),
         comp.likelihoodRatioTest.df.toString(),
         comp.likelihoodRatioTest.pValue.toExponential(4),
@@ -102,6 +104,11 @@ export const ModelComparisonPanel = ({ comparisons }: ModelComparisonPanelProps)
           >
             {significantSteps}/{comparisons.length} significant
           </Badge>
+          {comparisons[0].nSamples !== undefined && (
+            <Badge variant="outline" className="text-xs">
+              n = {comparisons[0].nSamples}
+            </Badge>
+          )}
         </div>
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={() => exportData('csv')}>
@@ -198,7 +205,7 @@ export const ModelComparisonPanel = ({ comparisons }: ModelComparisonPanelProps)
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs text-muted-foreground">
             <div>
               <p className="font-medium text-foreground mb-1">Likelihood Ratio Test (LRT)</p>
-              <p>Tests if adding covariates significantly improves model fit. P &lt; 0.05 indicates the larger model is significantly better.</p>
+              <p>Tests if adding covariates significantly improves model fit. P &lt; 0.05 indicates the larger model is significantly better. All models are fitted on the same patients with complete values for every covariate.</p>
             </div>
             <div>
               <p className="font-medium text-foreground mb-1">Akaike Information Criterion (AIC)</p>
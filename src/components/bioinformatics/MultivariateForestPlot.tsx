@@ -43,8 +43,9 @@ export const MultivariateForestPlot = ({ result }: MultivariateForestPlotProps)
   const chartRef = useRef<HTMLDivElement>(null);
   const [pValueType, setPValueType] = useState<PValueType>('raw');
 
+  // Levels of the same categorical covariate share a color
   const covariateColors = useMemo(() => 
-    generateCovariateColors(result.covariates.map(c => c.name)), 
+    generateCovariateColors([...new Set(result.covariates.map(c => c.term ?? c.name))]), 
     [result.covariates]
   );
 
@@ -246,7 +247,7 @@ export const MultivariateForestPlot = ({ result }: MultivariateForestPlotProps)
             const hrPos = hrToPosition(cov.hazardRatio);
             const lowerPos = hrToPosition(cov.lowerCI);
             const upperPos = hrToPosition(cov.upperCI);
-            const color = covariateColors[cov.name] || 'hsl(var(--primary))';
+            const color = covariateColors[cov.term ?? cov.name] || 'hsl(var(--primary))';
             const displayPValue = getPValue(cov);
             const isSignificant = displayPValue < 0.05;
 
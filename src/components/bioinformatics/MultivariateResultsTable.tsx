@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,11 +11,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 
 interface MultivariateResultsTableProps {
   result: MultivariateCoxPHResult;
+  // Called when the user picks a different reference level for a categorical covariate
+  onReferenceLevelChange?: (covariate: string, level: string) => void;
 }
 
 type PValueType = 'raw' | 'bonferroni' | 'fdr';
 
-export const MultivariateResultsTable = ({ result }: MultivariateResultsTableProps) => {
+export const MultivariateResultsTable = ({ result, onReferenceLevelChange }: MultivariateResultsTableProps) => {
   const [pValueType, setPValueType] = useState<PValueType>('raw');
 
   const getPValue = (cov: MultivariateCoxPHResult['covariates'][0]) => {
@@ -54,8 +56,30 @@ export const MultivariateResultsTable = ({ result }: MultivariateResultsTablePro
     // Model statistics
     lines.push('');
     lines.push(['Wald Test', '', '', '', result.waldTest.pValue.toExponential(4), '', '', `Chi-sq: ${result.waldTest.chiSquare.toFixed(2)}`, `df: ${result.waldTest.df}`].join(separator));
+    if (result.likelihoodRatioTest) {
+      lines.push(['Likelihood Ratio Test', '', '', '', result.likelihoodRatioTest.pValue.toExponential(4), '', '', `Chi-sq: ${result.likelihoodRatioTest.chiSquare.toFixed(2)}`, `df: ${result.likelihoodRatioTest.df}`].join(separator));
+    }
     if (result.concordance !== undefined) {
-      lines.push(['C-index', result.concordance.toFixed(4), '', '', '', '', '', '', ''].join(separator));
+      lines.push([result.predictions ? "Harrell's C" : 'C-index', result.concordance.toFixed(4), '', '', '', '', '', '', ''].join(separator));
+    }
+    if (result.unoConcordance !== undefined) {
+      lines.push(["Uno's C", result.unoConcordance.toFixed(4), '', '', '', '', '', '', ''].join(separator));
+    }
+    
+    // Joint test per covariate (all dummy levels of a factor together)
+    if (result.terms) {
+      lines.push('');
+      lines.push(['Covariate', 'Type', 'Reference', 'Chi-sq', 'df', 'P-value'].join(separator));
+      result.terms.forEach(term => {
+        lines.push([
+          term.name,
+          term.type,
+          term.reference ?? '',
+          term.chiSquare.toFixed(4),
+          String(term.df),
+          term.pValue.toExponential(4)
+        ].join(separator));
+      });
     }
     
     const content = lines.join('\n');
@@ -68,6 +92,44 @@ export const MultivariateResultsTable = ({ result }: MultivariateResultsTablePro
     URL.revokeObjectURL(url);
   };
 
+  const renderCovariateRow = (cov: MultivariateCoxPHResult['covariates'][0]) => {
+    const displayP = getPValue(cov);
+    return (
+      <TableRow key={cov.name}>
+        <TableCell className="font-medium">
+          {cov.level !== undefined ? (
+            <span className="pl-4">{cov.level}</span>
+          ) : (
+            <>
+              {cov.name}
+              {cov.term && <span className="ml-1 text-xs text-muted-foreground">(per unit)</span>}
+            </>
+          )}
+        </TableCell>
+        <TableCell className="text-right font-mono text-sm">
+          {cov.hazardRatio.toFixed(3)}
+        </TableCell>
+        <TableCell className="text-right font-mono text-sm text-muted-foreground">
+          {cov.lowerCI.toFixed(2)}–{cov.upperCI.toFixed(2)}
+        </TableCell>
+        <TableCell className="text-right font-mono text-sm">
+          {formatPValue(displayP)}
+        </TableCell>
+        <TableCell className="text-center">
+          {displayP < 0.001 ? (
+            <Badge className="bg-red-600 hover:bg-red-700">***</Badge>
+          ) : displayP < 0.01 ? (
+            <Badge className="bg-orange-600 hover:bg-orange-700">**</Badge>
+          ) : displayP < 0.05 ? (
+            <Badge className="bg-yellow-600 hover:bg-yellow-700">*</Badge>
+          ) : (
+            <Badge variant="secondary">ns</Badge>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
   const pValueLabel = pValueType === 'raw' ? 'P-value' 
     : pValueType === 'bonferroni' ? 'P-value (Bonf.)' 
     : 'P-value (FDR)';
@@ -82,11 +144,15 @@ export const MultivariateResultsTable = ({ result }: MultivariateResultsTablePro
               <TooltipTrigger asChild>
                 <Badge variant="outline" className="text-xs cursor-help">
                   <Calculator className="h-3 w-3 mr-1" />
-                  {result.covariates.length} covariates
+                  {result.terms ? `${result.terms.length} covariates, ${result.covariates.length} terms` : `${result.covariates.length} covariates`}
                 </Badge>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Independent effects estimated for each covariate</p>
+                <p>
+                  {result.nullLogLikelihood !== undefined
+                    ? `Joint partial-likelihood fit on ${result.nSamples} samples (${result.nEvents} events)`
+                    : 'Independent effects estimated for each covariate'}
+                </p>
               </TooltipContent>
             </UITooltip>
           </TooltipProvider>
@@ -119,12 +185,20 @@ export const MultivariateResultsTable = ({ result }: MultivariateResultsTablePro
                 <TooltipContent className="max-w-xs">
                   <p className="font-medium mb-1">Concordance Index (C-statistic)</p>
                   <p className="text-xs">
+                    {result.predictions
+                      ? "Harrell's C of the fitted linear predictor against observed times and events. "
+                      : "Approximated from subtype median survival (no patient-level data). "}
                     Measures model's discriminative ability.
                     {result.concordance >= 0.7 ? ' Good discrimination.' 
                       : result.concordance >= 0.6 ? ' Moderate discrimination.'
                       : result.concordance >= 0.5 ? ' Poor discrimination.'
                       : ' No discrimination (random).'}
                   </p>
+                  {result.unoConcordance !== undefined && (
+                    <p className="text-xs mt-1">
+                      Uno's C (censoring-weighted): {result.unoConcordance.toFixed(3)}
+                    </p>
+                  )}
                   <p className="text-xs mt-1 text-muted-foreground">
                     Range: 0.5 (random) to 1.0 (perfect)
                   </p>
@@ -171,34 +245,44 @@ export const MultivariateResultsTable = ({ result }: MultivariateResultsTablePro
             </TableRow>
           </TableHeader>
           <TableBody>
-            {result.covariates.map((cov) => {
-              const displayP = getPValue(cov);
-              return (
-                <TableRow key={cov.name}>
-                  <TableCell className="font-medium">{cov.name}</TableCell>
-                  <TableCell className="text-right font-mono text-sm">
-                    {cov.hazardRatio.toFixed(3)}
-                  </TableCell>
-                  <TableCell className="text-right font-mono text-sm text-muted-foreground">
-                    {cov.lowerCI.toFixed(2)}–{cov.upperCI.toFixed(2)}
-                  </TableCell>
-                  <TableCell className="text-right font-mono text-sm">
-                    {formatPValue(displayP)}
-                  </TableCell>
-                  <TableCell className="text-center">
-                    {displayP < 0.001 ? (
-                      <Badge className="bg-red-600 hover:bg-red-700">***</Badge>
-                    ) : displayP < 0.01 ? (
-                      <Badge className="bg-orange-600 hover:bg-orange-700">**</Badge>
-                    ) : displayP < 0.05 ? (
-                      <Badge className="bg-yellow-600 hover:bg-yellow-700">*</Badge>
-                    ) : (
-                      <Badge variant="secondary">ns</Badge>
+            {result.terms
+              ? result.terms.map(term => (
+                  <Fragment key={term.name}>
+                    {term.type === 'categorical' && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <span>{term.name}</span>
+                            {onReferenceLevelChange ? (
+                              <Select value={term.reference} onValueChange={(v) => onReferenceLevelChange(term.name, v)}>
+                                <SelectTrigger className="w-[140px] h-6 text-xs">
+                                  <span className="text-muted-foreground mr-1">ref:</span>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {term.levels.map(level => (
+                                    <SelectItem key={level} value={level}>{level}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">ref: {term.reference}</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell colSpan={2} className="text-right text-xs text-muted-foreground">
+                          Joint Wald χ² = {term.chiSquare.toFixed(2)}, df = {term.df}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">
+                          {formatPValue(term.pValue)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
                     )}
-                  </TableCell>
-                </TableRow>
-              );
-            })}
+                    {result.covariates.filter(cov => cov.term === term.name).map(renderCovariateRow)}
+                  </Fragment>
+                ))
+              : result.covariates.map(renderCovariateRow)}
           </TableBody>
         </Table>
         <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cpu, Check, AlertCircle, HelpCircle, Play, Square } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { NmfData } from "@/components/bioinformatics/JsonUploader";
+import { ValidationReport } from "@/components/bioinformatics/ValidationReport";
+import { DEFAULT_NMF_OPTIONS, NmfMethod, NmfOptions, NmfProgress, NmfWorkerMessage, NmfWorkerRequest } from "@/lib/nmf";
+import { MAX_NMF_RANK, MIN_NMF_RANK } from "@/lib/nmfScores";
+import { ValidationIssue, validateNmfData } from "@/lib/nmfValidation";
+
+interface NmfRunnerProps {
+  onDataLoaded: (data: NmfData) => void;
+  seed: number; // Dashboard seed for the random starts
+}
+
+const METHOD_LABELS: Record<NmfMethod, string> = {
+  brunet: "Brunet (KL)",
+  lee: "Lee (Euclidean)",
+};
+
+type NumericOption = Exclude<keyof NmfOptions, "method" | "seed">;
+
+const NUMERIC_FIELDS: { key: NumericOption; label: string; min: number; max: number }[] = [
+  { key: "rankMin", label: "Min rank", min: MIN_NMF_RANK, max: MAX_NMF_RANK },
+  { key: "rankMax", label: "Max rank", min: MIN_NMF_RANK, max: MAX_NMF_RANK },
+  { key: "nrun", label: "Runs / rank", min: 1, max: 100 },
+  { key: "topGenes", label: "Top genes", min: 10, max: 20000 },
+  { key: "maxIter", label: "Max iterations", min: 10, max: 10000 },
+];
+
+type RunStatus = "idle" | "running" | "success" | "error";
+
+export const NmfRunner = ({ onDataLoaded, seed }: NmfRunnerProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [options, setOptions] = useState(DEFAULT_NMF_OPTIONS);
+  const [status, setStatus] = useState<RunStatus>("idle");
+  const [message, setMessage] = useState("");
+  const [progress, setProgress] = useState<NmfProgress | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop a running factorization when the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  const fail = (text: string) => {
+    stopWorker();
+    setStatus("error");
+    setMessage(text);
+  };
+
+  const handleMessage = (msg: NmfWorkerMessage) => {
+    if (msg.type === "progress") {
+      setProgress(msg.progress);
+      return;
+    }
+    if (msg.type === "error") {
+      fail(msg.message);
+      return;
+    }
+    stopWorker();
+    const { data, issues: validationIssues } = validateNmfData(msg.results.rawData);
+    const notes: ValidationIssue[] = msg.results.notes.map(note => ({ severity: "warning", path: "NMF run", message: note }));
+    setIssues([...notes, ...validationIssues]);
+    if (!data) {
+      const errors = validationIssues.filter(i => i.severity === "error").length;
+      fail(`NMF results are invalid: ${errors} error${errors === 1 ? "" : "s"} found`);
+      setReportOpen(true);
+      return;
+    }
+    onDataLoaded(data);
+    setStatus("success");
+    setMessage(
+      `Rank ${data.summary.n_subtypes} selected for ${data.summary.n_samples} samples ` +
+      `(cophenetic ${data.summary.cophenetic_correlation.toFixed(3)})`
+    );
+  };
+
+  const handleRun = async () => {
+    if (!file) return;
+    stopWorker();
+    setIssues([]);
+    setReportOpen(false);
+    setProgress(null);
+    setStatus("running");
+    setMessage("");
+    try {
+      const request: NmfWorkerRequest = {
+        text: await file.text(),
+        dataset: file.name.replace(/\.[^.]+$/, ""),
+        options: { ...options, seed },
+      };
+      const worker = new Worker(new URL("../../lib/nmf.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (e: MessageEvent<NmfWorkerMessage>) => handleMessage(e.data);
+      worker.onerror = (e) => fail(`NMF worker failed: ${e.message}`);
+      workerRef.current = worker;
+      worker.postMessage(request);
+    } catch (err) {
+      fail(`Failed to start NMF: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleCancel = () => {
+    stopWorker();
+    setStatus("idle");
+    setProgress(null);
+  };
+
+  const running = status === "running";
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Cpu className="h-5 w-5 text-primary" />
+          Run NMF in Browser
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-xs">
+                <p className="font-medium mb-1">Same steps as the R CLI:</p>
+                <ul className="text-xs space-y-1">
+                  <li>Expression matrix: genes x samples, TSV or CSV with gene and sample names</li>
+                  <li>log2(x + 1) when values exceed 50, top-variance genes, shift to non-negative</li>
+                  <li>Each rank is fitted from several random starts (dashboard seed)</li>
+                  <li>The rank with the highest cophenetic correlation is kept</li>
+                  <li>Fewer genes, ranks and runs finish faster</li>
+                </ul>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </CardTitle>
+        <CardDescription>
+          Explore an expression matrix before running the R pipeline
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          type="file"
+          accept=".tsv,.csv,.txt"
+          className="h-8 text-xs"
+          disabled={running}
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Method</Label>
+            <Select
+              value={options.method}
+              onValueChange={(v) => setOptions(prev => ({ ...prev, method: v as NmfMethod }))}
+              disabled={running}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METHOD_LABELS) as NmfMethod[]).map(m => (
+                  <SelectItem key={m} value={m}>{METHOD_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {NUMERIC_FIELDS.map(({ key, label, min, max }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`nmf-run-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+              <Input
+                id={`nmf-run-${key}`}
+                type="number"
+                min={min}
+                max={max}
+                value={options[key]}
+                disabled={running}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value)) {
+                    setOptions(prev => ({ ...prev, [key]: Math.min(Math.max(value, min), max) }));
+                  }
+                }}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+
+        {running ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Progress value={progress ? (progress.done / progress.total) * 100 : 0} className="h-2 flex-1" />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {progress ? `Rank ${progress.rank}, run ${progress.run} (${progress.done}/${progress.total})` : "Preprocessing..."}
+              </span>
+            </div>
+            <Button variant="outline" size="sm" className="w-full" onClick={handleCancel}>
+              <Square className="h-3.5 w-3.5 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button
+            className="w-full"
+            size="sm"
+            disabled={!file || options.rankMin > options.rankMax}
+            onClick={handleRun}
+          >
+            <Play className="h-3.5 w-3.5 mr-1" />
+            Run NMF (seed {seed})
+          </Button>
+        )}
+
+        {status === "success" && (
+          <div className="flex items-start gap-2 rounded-lg border border-green-500/50 bg-green-500/5 p-2">
+            <Check className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+            <p className="text-xs text-green-600 dark:text-green-400">{message}</p>
+          </div>
+        )}
+        {status === "error" && (
+          <div className="flex items-start gap-2 rounded-lg border border-destructive bg-destructive/5 p-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            <p className="text-xs text-destructive">{message}</p>
+          </div>
+        )}
+
+        <ValidationReport issues={issues} open={reportOpen} onOpenChange={setReportOpen} />
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,14 +1,20 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
-import { SampleResult, generateSubtypeColors, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, Cell, Customized, ReferenceLine, ReferenceDot } from "recharts";
+import { SampleResult, compareSubtypes, generateSubtypeColors, isNumericColumn, getContinuousColor, createContinuousColorScale } from "@/data/mockNmfData";
 import React, { useMemo, useState, useRef, useEffect } from "react";
-import { Download, RotateCcw } from "lucide-react";
+import { Download, RotateCcw, FileSpreadsheet } from "lucide-react";
 import { AnnotationSelector } from "./AnnotationSelector";
 import { AnnotationData } from "./AnnotationUploader";
 import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_SEED, deriveSeed } from "@/lib/random";
+import { pca, PCA_COMPONENTS, samplesByFeatures } from "@/lib/pca";
+import { Scatter3D } from "./Scatter3D";
+import { AxisScales, ScaleRecorder, SelectionMode, SelectionOverlay, SelectionToolbar } from "./ScatterSelection";
+import { Point, SampleSet, defaultSampleSetName, pointInPolygon } from "@/lib/sampleSets";
 
 interface HeatmapData {
   genes: string[];
@@ -24,258 +30,44 @@ interface PCAScatterProps {
   subtypeColors: Record<string, string>;
   userAnnotations?: AnnotationData;
   heatmapData: HeatmapData;
+  // Subtype defined by each NMF score (loadings labels)
+  scoreSubtypes?: string[];
   filterResetKey?: number;
+  seed?: number;
+  sampleSets?: SampleSet[];
+  onCreateSampleSet?: (name: string, sampleIds: string[], source: string) => void;
 }
 
-// PCA on NMF scores
-const computePCAFromNMF = (samples: { scores: number[] }[]): { 
-  pc1: number[]; pc2: number[]; variance1: number; variance2: number 
-} => {
-  if (samples.length === 0) return { pc1: [], pc2: [], variance1: 0, variance2: 0 };
-  
-  const numScores = samples[0].scores.length;
-  const data = samples.map(s => s.scores);
-  
-  // Center the data
-  const means = Array(numScores).fill(0);
-  for (const row of data) {
-    for (let j = 0; j < numScores; j++) {
-      means[j] += row[j];
-    }
-  }
-  for (let j = 0; j < numScores; j++) {
-    means[j] /= data.length;
-  }
-  const centered = data.map(row => row.map((v, j) => v - means[j]));
-  
-  // Compute covariance
-  const cov: number[][] = Array(numScores).fill(null).map(() => Array(numScores).fill(0));
-  for (let i = 0; i < numScores; i++) {
-    for (let j = i; j < numScores; j++) {
-      let sum = 0;
-      for (const row of centered) {
-        sum += row[i] * row[j];
-      }
-      cov[i][j] = sum / (data.length - 1);
-      cov[j][i] = cov[i][j];
-    }
-  }
-  
-  let totalVariance = 0;
-  for (let i = 0; i < numScores; i++) totalVariance += cov[i][i];
-  
-  // Power iteration
-  const powerIteration = (matrix: number[][]): { vector: number[]; eigenvalue: number } => {
-    const size = matrix.length;
-    let vector = Array(size).fill(0).map(() => Math.random());
-    let norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-    vector = vector.map(v => v / norm);
-    let ev = 0;
-    for (let iter = 0; iter < 100; iter++) {
-      const newVector = Array(size).fill(0);
-      for (let i = 0; i < size; i++) {
-        for (let j = 0; j < size; j++) {
-          newVector[i] += matrix[i][j] * vector[j];
-        }
-      }
-      ev = newVector.reduce((sum, v, i) => sum + v * vector[i], 0);
-      norm = Math.sqrt(newVector.reduce((sum, v) => sum + v * v, 0));
-      if (norm < 1e-10) break;
-      vector = newVector.map(v => v / norm);
-    }
-    return { vector, eigenvalue: ev };
-  };
-  
-  const { vector: pc1Vec, eigenvalue: e1 } = powerIteration(cov);
-  const pc1 = centered.map(row => row.reduce((sum, v, j) => sum + v * pc1Vec[j], 0));
-  
-  const deflated = cov.map((row, i) => row.map((v, j) => v - e1 * pc1Vec[i] * pc1Vec[j]));
-  const { vector: pc2Vec, eigenvalue: e2 } = powerIteration(deflated);
-  const pc2 = centered.map(row => row.reduce((sum, v, j) => sum + v * pc2Vec[j], 0));
-  
-  return {
-    pc1,
-    pc2,
-    variance1: totalVariance > 0 ? (e1 / totalVariance) * 100 : 0,
-    variance2: totalVariance > 0 ? (e2 / totalVariance) * 100 : 0,
-  };
-};
-
-// PCA implementation using power iteration for top 2 components on gene expression data
-// Takes gene expression matrix (genes x samples) and returns PC scores and variance explained
-const computePCAFromExpression = (values: number[][], nGenes: number, nSamples: number): {
-  pc1: number[]; 
-  pc2: number[]; 
-  variance1: number; 
-  variance2: number 
-} => {
-  if (nSamples === 0 || nGenes === 0) return { pc1: [], pc2: [], variance1: 0, variance2: 0 };
-
-  // Transpose to get samples as rows (samples x genes)
-  const data: number[][] = [];
-  for (let s = 0; s < nSamples; s++) {
-    const row: number[] = [];
-    for (let g = 0; g < nGenes; g++) {
-      row.push(values[g][s]);
-    }
-    data.push(row);
-  }
-
-  const n = data.length; // samples
-  const m = data[0].length; // genes
-
-  // Center the data
-  const means = Array(m).fill(0);
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < m; j++) {
-      means[j] += data[i][j];
-    }
-  }
-  for (let j = 0; j < m; j++) {
-    means[j] /= n;
-  }
-
-  const centered = data.map(row => row.map((v, j) => v - means[j]));
-
-  // Use Gram matrix (n x n) for efficiency when n < m
-  const useGram = n < m;
-  
-  let totalVariance = 0;
-  let eigenvalue1 = 0;
-  let eigenvalue2 = 0;
-  let pc1Scores: number[] = [];
-  let pc2Scores: number[] = [];
-
-  if (useGram) {
-    // Compute Gram matrix (n x n): X X^T / (n-1)
-    const gram: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
-    for (let i = 0; i < n; i++) {
-      for (let j = i; j < n; j++) {
-        let sum = 0;
-        for (let k = 0; k < m; k++) {
-          sum += centered[i][k] * centered[j][k];
-        }
-        gram[i][j] = sum / (n - 1);
-        gram[j][i] = gram[i][j];
-      }
-    }
-
-    // Total variance from trace
-    for (let i = 0; i < n; i++) {
-      totalVariance += gram[i][i];
-    }
-
-    // Power iteration for first eigenvector
-    const powerIteration = (matrix: number[][]): { vector: number[]; eigenvalue: number } => {
-      const size = matrix.length;
-      let vector = Array(size).fill(0).map(() => Math.random());
-      let norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-      vector = vector.map(v => v / norm);
-
-      let ev = 0;
-      for (let iter = 0; iter < 100; iter++) {
-        const newVector = Array(size).fill(0);
-        for (let i = 0; i < size; i++) {
-          for (let j = 0; j < size; j++) {
-            newVector[i] += matrix[i][j] * vector[j];
-          }
-        }
-        ev = newVector.reduce((sum, v, i) => sum + v * vector[i], 0);
-        norm = Math.sqrt(newVector.reduce((sum, v) => sum + v * v, 0));
-        if (norm < 1e-10) break;
-        vector = newVector.map(v => v / norm);
-      }
-      return { vector, eigenvalue: ev };
-    };
-
-    // First PC
-    const { vector: v1, eigenvalue: e1 } = powerIteration(gram);
-    eigenvalue1 = e1;
-    pc1Scores = v1.map(v => v * Math.sqrt(Math.abs(e1) * (n - 1)));
-
-    // Deflate
-    const deflated = gram.map((row, i) =>
-      row.map((v, j) => v - e1 * v1[i] * v1[j])
-    );
-
-    // Second PC
-    const { vector: v2, eigenvalue: e2 } = powerIteration(deflated);
-    eigenvalue2 = e2;
-    pc2Scores = v2.map(v => v * Math.sqrt(Math.abs(e2) * (n - 1)));
-  } else {
-    // Compute covariance matrix (m x m)
-    const cov: number[][] = Array(m).fill(null).map(() => Array(m).fill(0));
-    for (let i = 0; i < m; i++) {
-      for (let j = i; j < m; j++) {
-        let sum = 0;
-        for (let k = 0; k < n; k++) {
-          sum += centered[k][i] * centered[k][j];
-        }
-        cov[i][j] = sum / (n - 1);
-        cov[j][i] = cov[i][j];
-      }
-    }
-
-    // Total variance
-    for (let i = 0; i < m; i++) {
-      totalVariance += cov[i][i];
-    }
-
-    // Power iteration
-    const powerIteration = (matrix: number[][]): { vector: number[]; eigenvalue: number } => {
-      const size = matrix.length;
-      let vector = Array(size).fill(0).map(() => Math.random());
-      let norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-      vector = vector.map(v => v / norm);
-
-      let ev = 0;
-      for (let iter = 0; iter < 100; iter++) {
-        const newVector = Array(size).fill(0);
-        for (let i = 0; i < size; i++) {
-          for (let j = 0; j < size; j++) {
-            newVector[i] += matrix[i][j] * vector[j];
-          }
-        }
-        ev = newVector.reduce((sum, v, i) => sum + v * vector[i], 0);
-        norm = Math.sqrt(newVector.reduce((sum, v) => sum + v * v, 0));
-        if (norm < 1e-10) break;
-        vector = newVector.map(v => v / norm);
-      }
-      return { vector, eigenvalue: ev };
-    };
-
-    // First PC
-    const { vector: pc1Vec, eigenvalue: e1 } = powerIteration(cov);
-    eigenvalue1 = e1;
-    pc1Scores = centered.map(row =>
-      row.reduce((sum, v, j) => sum + v * pc1Vec[j], 0)
-    );
-
-    // Deflate
-    const deflated = cov.map((row, i) =>
-      row.map((v, j) => v - e1 * pc1Vec[i] * pc1Vec[j])
-    );
-
-    // Second PC
-    const { vector: pc2Vec, eigenvalue: e2 } = powerIteration(deflated);
-    eigenvalue2 = e2;
-    pc2Scores = centered.map(row =>
-      row.reduce((sum, v, j) => sum + v * pc2Vec[j], 0)
-    );
-  }
-
-  const variance1 = totalVariance > 0 ? (eigenvalue1 / totalVariance) * 100 : 0;
-  const variance2 = totalVariance > 0 ? (eigenvalue2 / totalVariance) * 100 : 0;
-
-  return { pc1: pc1Scores, pc2: pc2Scores, variance1, variance2 };
-};
-
-export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapData, filterResetKey }: PCAScatterProps) => {
+const BIPLOT_GENE_OPTIONS = [5, 10, 20, 30];
+// Rows listed in the loadings table (the CSV has every feature)
+const LOADINGS_TABLE_ROWS = 20;
+
+export const PCAScatter = ({
+  samples,
+  subtypeColors,
+  userAnnotations,
+  heatmapData,
+  scoreSubtypes = [],
+  filterResetKey,
+  seed = DEFAULT_SEED,
+  sampleSets = [],
+  onCreateSampleSet,
+}: PCAScatterProps) => {
   const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
   const [excludedSubtypes, setExcludedSubtypes] = useState<Set<string>>(new Set());
   const [excludedAnnotationValues, setExcludedAnnotationValues] = useState<Set<string>>(new Set());
   const [dataSource, setDataSource] = useState<PCADataSource>("expression");
+  const [xComponent, setXComponent] = useState(0);
+  const [yComponent, setYComponent] = useState(1);
+  const [zComponent, setZComponent] = useState(2);
+  const [show3D, setShow3D] = useState(false);
+  const [showBiplot, setShowBiplot] = useState(false);
+  const [biplotGenes, setBiplotGenes] = useState(10);
+  const [loadingsComponent, setLoadingsComponent] = useState(0);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const chartRef = useRef<HTMLDivElement>(null);
+  const scalesRef = useRef<AxisScales | null>(null);
 
   // Reset filters when global reset key changes
   useEffect(() => {
@@ -345,47 +137,29 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
   }, [samples, excludedSubtypes, excludedAnnotationValues, selectedAnnotation, userAnnotations, sampleIndexMap]);
 
   // Compute PCA from selected data source
-  const { scatterData, uniqueSubtypes, uniqueAnnotationValues, variancePC1, variancePC2 } = useMemo(() => {
-    const subtypes = [...new Set(samples.map(s => s.subtype))].sort();
+  const { pcaResult, featureNames } = useMemo(() => {
+    // Same computation as the scree plot, so both report identical variances
+    const features = dataSource === "expression"
+      ? samplesByFeatures(heatmapData.values, filteredSamples.map(s => sampleIndexMap.get(s.sample_id)!))
+      : filteredSamples.map(s => s.scores);
+    return {
+      pcaResult: pca(features, { nComponents: PCA_COMPONENTS, seed: deriveSeed(seed, "pca") }),
+      featureNames: dataSource === "expression"
+        ? heatmapData.genes
+        : (samples[0]?.scores ?? []).map((_, i) => scoreSubtypes[i] ?? `Factor_${i + 1}`),
+    };
+  }, [filteredSamples, samples, heatmapData, sampleIndexMap, dataSource, scoreSubtypes, seed]);
 
-    let pc1: number[];
-    let pc2: number[];
-    let variance1: number;
-    let variance2: number;
+  // Selected components, clamped to those available for the current data
+  const nComponents = pcaResult.varianceExplained.length;
+  const xPC = Math.min(xComponent, Math.max(0, nComponents - 1));
+  const yPC = Math.min(yComponent, Math.max(0, nComponents - 1));
+  const zPC = Math.min(zComponent, Math.max(0, nComponents - 1));
+  const is3D = show3D && nComponents > 2;
+  const loadingsPC = Math.min(loadingsComponent, Math.max(0, nComponents - 1));
 
-    if (dataSource === "expression") {
-      // Get filtered sample indices
-      const filteredIndices = filteredSamples.map(s => sampleIndexMap.get(s.sample_id)!);
-      
-      // Extract expression data for filtered samples only
-      const nGenes = heatmapData.genes.length;
-      const nFilteredSamples = filteredIndices.length;
-      
-      // Create filtered expression matrix
-      const filteredValues: number[][] = heatmapData.values.map(geneRow => 
-        filteredIndices.map(idx => geneRow[idx])
-      );
-
-      // Compute PCA on gene expression data
-      const result = computePCAFromExpression(filteredValues, nGenes, nFilteredSamples);
-      pc1 = result.pc1;
-      pc2 = result.pc2;
-      variance1 = result.variance1;
-      variance2 = result.variance2;
-    } else {
-      // Compute PCA on NMF scores
-      const nmfData = filteredSamples.map(s => ({
-        scores: Object.keys(s)
-          .filter(k => k.startsWith("score_"))
-          .sort()
-          .map(k => (s as any)[k] as number)
-      }));
-      const result = computePCAFromNMF(nmfData);
-      pc1 = result.pc1;
-      pc2 = result.pc2;
-      variance1 = result.variance1;
-      variance2 = result.variance2;
-    }
+  const { scatterData, uniqueSubtypes, uniqueAnnotationValues, varianceX, varianceY } = useMemo(() => {
+    const subtypes = [...new Set(samples.map(s => s.subtype))].sort(compareSubtypes);
 
     const data = filteredSamples.map((sample, idx) => {
       const userAnnotValue = selectedAnnotation && userAnnotations?.annotations[sample.sample_id]
@@ -393,8 +167,9 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
         : undefined;
 
       return {
-        x: pc1[idx] || 0,
-        y: pc2[idx] || 0,
+        x: pcaResult.scores[idx]?.[xPC] ?? 0,
+        y: pcaResult.scores[idx]?.[yPC] ?? 0,
+        depth: pcaResult.scores[idx]?.[zPC] ?? 0,
         z: 50,
         subtype: sample.subtype,
         sample_id: sample.sample_id,
@@ -409,10 +184,69 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
       scatterData: data, 
       uniqueSubtypes: subtypes, 
       uniqueAnnotationValues: annotValues,
-      variancePC1: variance1,
-      variancePC2: variance2
+      varianceX: pcaResult.varianceExplained[xPC] ?? 0,
+      varianceY: pcaResult.varianceExplained[yPC] ?? 0
     };
-  }, [filteredSamples, selectedAnnotation, userAnnotations, samples, heatmapData, sampleIndexMap, dataSource]);
+  }, [filteredSamples, selectedAnnotation, userAnnotations, samples, pcaResult, xPC, yPC, zPC]);
+
+  // Biplot: top-loading features in the displayed plane, scaled to the score range
+  const biplotArrows = useMemo(() => {
+    if (!showBiplot || nComponents === 0) return [];
+    const ranked = featureNames
+      .map((name, j) => ({
+        name,
+        x: pcaResult.loadings[j]?.[xPC] ?? 0,
+        y: pcaResult.loadings[j]?.[yPC] ?? 0,
+      }))
+      .sort((a, b) => Math.hypot(b.x, b.y) - Math.hypot(a.x, a.y))
+      .slice(0, biplotGenes);
+    const maxLoading = Math.max(...ranked.map(a => Math.hypot(a.x, a.y)), 1e-12);
+    const maxScore = Math.max(...scatterData.map(d => Math.hypot(d.x, d.y)), 1e-12);
+    const scale = (0.8 * maxScore) / maxLoading;
+    return ranked.map(a => ({ ...a, x: a.x * scale, y: a.y * scale }));
+  }, [showBiplot, nComponents, featureNames, pcaResult, xPC, yPC, biplotGenes, scatterData]);
+
+  const topLoadings = useMemo(() => {
+    return featureNames
+      .map((name, j) => ({ name, loading: pcaResult.loadings[j]?.[loadingsPC] ?? 0 }))
+      .sort((a, b) => Math.abs(b.loading) - Math.abs(a.loading))
+      .slice(0, LOADINGS_TABLE_ROWS);
+  }, [featureNames, pcaResult, loadingsPC]);
+  const maxAbsLoading = Math.max(...topLoadings.map(l => Math.abs(l.loading)), 1e-12);
+
+  const exportLoadingsCSV = () => {
+    const header = [dataSource === "expression" ? "Gene" : "Feature", ...pcaResult.varianceExplained.map((_, c) => `PC${c + 1}`)];
+    const varianceRow = ["Variance explained (%)", ...pcaResult.varianceExplained.map(v => v.toFixed(4))];
+    const dataRows = featureNames.map((name, j) => [
+      name,
+      ...pcaResult.varianceExplained.map((_, c) => (pcaResult.loadings[j]?.[c] ?? 0).toFixed(6))
+    ]);
+
+    const csvContent = [header, varianceRow, ...dataRows]
+      .map(row => row.join(","))
+      .join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `pca_loadings_${dataSource}_seed${seed}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const componentSelect = (value: number, onChange: (value: number) => void, label: string) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-[76px] h-8 text-xs" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {pcaResult.varianceExplained.map((_, c) => (
+          <SelectItem key={c} value={String(c)}>PC{c + 1}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
 
   const toggleSubtype = (subtype: string) => {
     setExcludedSubtypes(prev => {
@@ -459,6 +293,25 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
     downloadRechartsAsSVG(chartRef.current, "pca-plot");
   };
 
+  const handleSelect = (polygon: Point[]) => {
+    const scales = scalesRef.current;
+    if (!scales || polygon.length === 0) {
+      setSelectedIds(new Set());
+      return;
+    }
+    setSelectedIds(new Set(
+      scatterData
+        .filter(d => pointInPolygon([scales.x(d.x), scales.y(d.y)], polygon))
+        .map(d => d.sample_id)
+    ));
+  };
+
+  const handleSaveSelection = (name: string) => {
+    onCreateSampleSet?.(name, [...selectedIds], "PCA");
+    setSelectedIds(new Set());
+    setSelectionMode(null);
+  };
+
   const handleResetFilters = () => {
     setExcludedSubtypes(new Set());
     setExcludedAnnotationValues(new Set());
@@ -470,21 +323,23 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
     setExcludedAnnotationValues(new Set());
   };
 
+  const tooltipContent = (data: typeof scatterData[0]) => (
+    <div className="bg-card border border-border rounded-lg p-2 shadow-lg">
+      <p className="text-sm font-medium">{data.sample_id}</p>
+      <p className="text-xs text-muted-foreground">Subtype: {data.subtype}</p>
+      {data.userAnnotation && selectedAnnotation && (
+        <p className="text-xs text-muted-foreground">{selectedAnnotation}: {data.userAnnotation}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        PC{xPC + 1}: {data.x.toFixed(2)}, PC{yPC + 1}: {data.y.toFixed(2)}
+        {is3D && `, PC${zPC + 1}: ${data.depth.toFixed(2)}`}
+      </p>
+    </div>
+  );
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length > 0) {
-      const data = payload[0].payload;
-      return (
-        <div className="bg-card border border-border rounded-lg p-2 shadow-lg">
-          <p className="text-sm font-medium">{data.sample_id}</p>
-          <p className="text-xs text-muted-foreground">Subtype: {data.subtype}</p>
-          {data.userAnnotation && selectedAnnotation && (
-            <p className="text-xs text-muted-foreground">{selectedAnnotation}: {data.userAnnotation}</p>
-          )}
-          <p className="text-xs text-muted-foreground">
-            PC1: {data.x.toFixed(2)}, PC2: {data.y.toFixed(2)}
-          </p>
-        </div>
-      );
+      return tooltipContent(payload[0].payload);
     }
     return null;
   };
@@ -505,6 +360,50 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
             />
             <Label className="text-xs text-muted-foreground">Expression</Label>
           </div>
+          {nComponents > 1 && (
+            <div className="flex items-center gap-1">
+              {componentSelect(xPC, setXComponent, "X axis component")}
+              <span className="text-xs text-muted-foreground">vs</span>
+              {componentSelect(yPC, setYComponent, "Y axis component")}
+              {is3D && (
+                <>
+                  <span className="text-xs text-muted-foreground">vs</span>
+                  {componentSelect(zPC, setZComponent, "Z axis component")}
+                </>
+              )}
+            </div>
+          )}
+          {nComponents > 2 && (
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={show3D}
+                onCheckedChange={setShow3D}
+                className="scale-75"
+              />
+              <Label className="text-xs text-muted-foreground">3D</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={showBiplot}
+              disabled={is3D}
+              onCheckedChange={setShowBiplot}
+              className="scale-75"
+            />
+            <Label className="text-xs text-muted-foreground">Biplot</Label>
+            {showBiplot && (
+              <Select value={String(biplotGenes)} onValueChange={(v) => setBiplotGenes(Number(v))}>
+                <SelectTrigger className="w-[90px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BIPLOT_GENE_OPTIONS.map(k => (
+                    <SelectItem key={k} value={String(k)}>Top {k}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
           {userAnnotations && userAnnotations.columns.length > 0 && (
             <AnnotationSelector
               columns={userAnnotations.columns}
@@ -530,53 +429,100 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
         </div>
       </CardHeader>
       <CardContent>
-        <div ref={chartRef} className="h-[280px] bg-card">
-          <ResponsiveContainer width="100%" height="100%">
-            <ScatterChart margin={{ top: 10, right: 10, bottom: 30, left: 20 }}>
-              <XAxis
-                type="number"
-                dataKey="x"
-                name="PC1"
-                tick={{ fontSize: 10 }}
-                tickLine={false}
-                axisLine={{ stroke: "hsl(var(--border))" }}
-                label={{ 
-                  value: `PC1 (${variancePC1.toFixed(1)}%)`, 
-                  position: "bottom", 
-                  offset: 10, 
-                  fontSize: 11,
-                  fill: "hsl(var(--muted-foreground))"
-                }}
-              />
-              <YAxis
-                type="number"
-                dataKey="y"
-                name="PC2"
-                tick={{ fontSize: 10 }}
-                tickLine={false}
-                axisLine={{ stroke: "hsl(var(--border))" }}
-                label={{ 
-                  value: `PC2 (${variancePC2.toFixed(1)}%)`, 
-                  angle: -90, 
-                  position: "insideLeft", 
-                  offset: 0, 
-                  fontSize: 11,
-                  fill: "hsl(var(--muted-foreground))"
-                }}
-              />
-              <ZAxis type="number" dataKey="z" range={[30, 60]} />
-              <Tooltip content={<CustomTooltip />} />
-              <Scatter data={scatterData}>
-                {scatterData.map((entry, index) => (
-                  <Cell
-                    key={`cell-${index}`}
-                    fill={getPointColor(entry)}
-                    fillOpacity={0.7}
+        {onCreateSampleSet && !is3D && (
+          <SelectionToolbar
+            mode={selectionMode}
+            onModeChange={setSelectionMode}
+            selectedCount={selectedIds.size}
+            defaultName={defaultSampleSetName(sampleSets)}
+            onSave={handleSaveSelection}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+        <div ref={chartRef} className={is3D ? "h-[360px] bg-card" : "relative h-[280px] bg-card"}>
+          {is3D ? (
+            <Scatter3D
+              points={scatterData.map(d => ({ id: d.sample_id, x: d.x, y: d.y, z: d.depth, color: getPointColor(d) }))}
+              axisLabels={[xPC, yPC, zPC].map(c => `PC${c + 1} (${(pcaResult.varianceExplained[c] ?? 0).toFixed(1)}%)`) as [string, string, string]}
+              renderTooltip={(id) => {
+                const entry = scatterData.find(d => d.sample_id === id);
+                return entry ? tooltipContent(entry) : null;
+              }}
+            />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 30, left: 20 }}>
+                <XAxis
+                  type="number"
+                  dataKey="x"
+                  name={`PC${xPC + 1}`}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  label={{ 
+                    value: `PC${xPC + 1} (${varianceX.toFixed(1)}%)`, 
+                    position: "bottom", 
+                    offset: 10, 
+                    fontSize: 11,
+                    fill: "hsl(var(--muted-foreground))"
+                  }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="y"
+                  name={`PC${yPC + 1}`}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  label={{ 
+                    value: `PC${yPC + 1} (${varianceY.toFixed(1)}%)`, 
+                    angle: -90, 
+                    position: "insideLeft", 
+                    offset: 0, 
+                    fontSize: 11,
+                    fill: "hsl(var(--muted-foreground))"
+                  }}
+                />
+                <ZAxis type="number" dataKey="z" range={[30, 60]} />
+                <Tooltip content={<CustomTooltip />} />
+                <Scatter data={scatterData}>
+                  {scatterData.map((entry, index) => (
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={getPointColor(entry)}
+                      fillOpacity={selectedIds.size > 0 && !selectedIds.has(entry.sample_id) ? 0.25 : 0.7}
+                      stroke={selectedIds.has(entry.sample_id) ? "hsl(var(--foreground))" : undefined}
+                      strokeWidth={selectedIds.has(entry.sample_id) ? 1.5 : 0}
+                    />
+                  ))}
+                </Scatter>
+                {biplotArrows.map(arrow => (
+                  <ReferenceLine
+                    key={`arrow-${arrow.name}`}
+                    segment={[{ x: 0, y: 0 }, { x: arrow.x, y: arrow.y }]}
+                    stroke="hsl(var(--foreground))"
+                    strokeOpacity={0.6}
+                    strokeWidth={1.2}
+                    ifOverflow="extendDomain"
+                  />
+                ))}
+                {biplotArrows.map(arrow => (
+                  <ReferenceDot
+                    key={`tip-${arrow.name}`}
+                    x={arrow.x}
+                    y={arrow.y}
+                    r={2.5}
+                    fill="hsl(var(--foreground))"
+                    stroke="none"
+                    ifOverflow="extendDomain"
+                    label={{ value: arrow.name, position: arrow.x >= 0 ? "right" : "left", fontSize: 9, fill: "hsl(var(--foreground))" }}
                   />
                 ))}
-              </Scatter>
-            </ScatterChart>
-          </ResponsiveContainer>
+                <Customized component={<ScaleRecorder scalesRef={scalesRef} />} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+          {selectionMode && !is3D && <SelectionOverlay mode={selectionMode} onSelect={handleSelect} />}
         </div>
 
         {/* Legend with clickable items or continuous color bar */}
@@ -645,6 +591,58 @@ export const PCAScatter = ({ samples, subtypeColors, userAnnotations, heatmapDat
             Showing {filteredSamples.length} of {samples.length} samples
           </p>
         )}
+
+        {/* Loadings of the selected component */}
+        {nComponents > 0 && (
+          <div className="mt-4 border-t pt-4">
+            <div className="flex items-center justify-between gap-2 mb-2 flex-wrap">
+              <div className="flex items-center gap-2">
+                <h4 className="text-sm font-semibold">Top loadings</h4>
+                {componentSelect(loadingsPC, setLoadingsComponent, "Loadings component")}
+                <span className="text-xs text-muted-foreground">
+                  {(pcaResult.varianceExplained[loadingsPC] ?? 0).toFixed(1)}% of variance
+                </span>
+              </div>
+              <Button variant="outline" size="sm" onClick={exportLoadingsCSV}>
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                Loadings CSV
+              </Button>
+            </div>
+            <div className="rounded-md border overflow-hidden max-h-[260px] overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b bg-muted/30">
+                    <th className="text-left py-1.5 px-3 font-medium w-10">#</th>
+                    <th className="text-left py-1.5 px-3 font-medium">{dataSource === "expression" ? "Gene" : "Feature"}</th>
+                    <th className="text-right py-1.5 px-3 font-medium w-24">Loading</th>
+                    <th className="py-1.5 px-3 font-medium w-1/3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topLoadings.map((l, idx) => (
+                    <tr key={l.name} className="border-b border-border/50">
+                      <td className="py-1 px-3 text-muted-foreground">{idx + 1}</td>
+                      <td className="py-1 px-3 font-medium">{l.name}</td>
+                      <td className="py-1 px-3 text-right font-mono">{l.loading.toFixed(4)}</td>
+                      <td className="py-1 px-3">
+                        <div className="relative h-2.5 bg-muted/50 rounded">
+                          <div
+                            className="absolute top-0 bottom-0 rounded"
+                            style={{
+                              left: l.loading >= 0 ? "50%" : `${50 - (Math.abs(l.loading) / maxAbsLoading) * 50}%`,
+                              width: `${(Math.abs(l.loading) / maxAbsLoading) * 50}%`,
+                              backgroundColor: l.loading >= 0 ? "hsl(var(--primary))" : "hsl(var(--destructive))",
+                            }}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,141 @@
+import { useMemo, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatPValue, PairwiseLogRankResult } from "@/lib/logRankTest";
+import { PValueAdjustment, P_VALUE_ADJUSTMENT_LABELS } from "@/lib/multipleTesting";
+
+type PValueType = 'raw' | PValueAdjustment;
+
+interface PairwiseLogRankMatrixProps {
+  results: PairwiseLogRankResult[];
+  groups: string[];
+  subtypeColors: Record<string, string>;
+  testLabel?: string;
+}
+
+const pValueOf = (result: PairwiseLogRankResult, type: PValueType): number => {
+  switch (type) {
+    case 'bonferroni':
+      return result.pValueBonferroni;
+    case 'holm':
+      return result.pValueHolm;
+    case 'fdr':
+      return result.pValueFDR;
+    default:
+      return result.pValue;
+  }
+};
+
+// Green shades deepen with -log10(p) for significant pairs; grey otherwise
+const cellColor = (pValue: number): string => {
+  if (pValue >= 0.05) return "hsl(var(--muted))";
+  const strength = Math.min(1, (-Math.log10(pValue) - 1.3) / 3);
+  return `hsl(142, ${50 + strength * 25}%, ${75 - strength * 40}%)`;
+};
+
+export const PairwiseLogRankMatrix = ({ results, groups, subtypeColors, testLabel = "Log-rank" }: PairwiseLogRankMatrixProps) => {
+  const [pValueType, setPValueType] = useState<PValueType>('holm');
+
+  const lookup = useMemo(() => {
+    const map: Record<string, PairwiseLogRankResult> = {};
+    results.forEach(r => {
+      map[`${r.group1}|${r.group2}`] = r;
+      map[`${r.group2}|${r.group1}`] = r;
+    });
+    return map;
+  }, [results]);
+
+  if (results.length === 0 || groups.length < 3) {
+    return null;
+  }
+
+  const significantCount = results.filter(r => pValueOf(r, pValueType) < 0.05).length;
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold">
+          Pairwise {testLabel} Comparisons
+          <span className="ml-2 text-xs font-normal text-muted-foreground">
+            {significantCount} of {results.length} pairs p &lt; 0.05
+          </span>
+        </h4>
+        <Select value={pValueType} onValueChange={(v) => setPValueType(v as PValueType)}>
+          <SelectTrigger className="w-[200px] h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="raw">Unadjusted p</SelectItem>
+            {(Object.keys(P_VALUE_ADJUSTMENT_LABELS) as PValueAdjustment[]).map(m => (
+              <SelectItem key={m} value={m}>{P_VALUE_ADJUSTMENT_LABELS[m]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <TooltipProvider>
+          <table className="text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th />
+                {groups.slice(0, -1).map(col => (
+                  <th key={col} className="px-2 py-1 font-medium text-center">
+                    <div className="flex items-center justify-center gap-1">
+                      <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: subtypeColors[col] }} />
+                      {col}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.slice(1).map((row, rowIdx) => (
+                <tr key={row}>
+                  <td className="pr-2 py-1 font-medium whitespace-nowrap">
+                    <div className="flex items-center gap-1">
+                      <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: subtypeColors[row] }} />
+                      {row}
+                    </div>
+                  </td>
+                  {groups.slice(0, -1).map((col, colIdx) => {
+                    if (colIdx > rowIdx) return <td key={col} />;
+                    const result = lookup[`${row}|${col}`];
+                    if (!result) {
+                      return (
+                        <td key={col} className="min-w-[90px] px-2 py-1.5 text-center rounded bg-muted/30 text-muted-foreground">
+                          —
+                        </td>
+                      );
+                    }
+                    const p = pValueOf(result, pValueType);
+                    return (
+                      <Tooltip key={col}>
+                        <TooltipTrigger asChild>
+                          <td
+                            className="min-w-[90px] px-2 py-1.5 text-center rounded cursor-help"
+                            style={{ backgroundColor: cellColor(p), color: p < 0.05 ? "hsl(142, 60%, 15%)" : undefined }}
+                          >
+                            <div className="font-mono">χ² = {result.chiSquare.toFixed(2)}</div>
+                            <div className={p < 0.05 ? "font-semibold" : "text-muted-foreground"}>{formatPValue(p)}</div>
+                          </td>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="font-semibold">{row} vs {col}</p>
+                          <p className="text-xs">Unadjusted: {formatPValue(result.pValue)}</p>
+                          <p className="text-xs">Bonferroni: {formatPValue(result.pValueBonferroni)}</p>
+                          <p className="text-xs">Holm: {formatPValue(result.pValueHolm)}</p>
+                          <p className="text-xs">BH (FDR): {formatPValue(result.pValueFDR)}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </TooltipProvider>
+      </div>
+    </div>
+  );
+};
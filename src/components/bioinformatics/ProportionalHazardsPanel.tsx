@@ -0,0 +1,302 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ComposedChart, Scatter, Line, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, Legend } from "recharts";
+import { AlertTriangle, CheckCircle, Download } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
+import { formatPValue } from "@/lib/logRankTest";
+import { LogLogPoint, TIME_TRANSFORM_LABELS, TimeTransform, ZphResult, lowessSmooth } from "@/lib/proportionalHazards";
+
+type DiagnosticView = "schoenfeld" | "loglog";
+
+interface ProportionalHazardsPanelProps {
+  result: ZphResult | null;
+  logLogCurves: Record<string, LogLogPoint[]>;
+  subtypeColors: Record<string, string>;
+  transform: TimeTransform;
+  onTransformChange: (transform: TimeTransform) => void;
+}
+
+export const ProportionalHazardsPanel = ({
+  result,
+  logLogCurves,
+  subtypeColors,
+  transform,
+  onTransformChange,
+}: ProportionalHazardsPanelProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<DiagnosticView>(result ? "schoenfeld" : "loglog");
+  const [covariateIndex, setCovariateIndex] = useState(0);
+
+  const activeView: DiagnosticView = result ? view : "loglog";
+  const activeCovariate = result && covariateIndex < result.covariates.length ? covariateIndex : 0;
+
+  const handleDownloadPNG = () => {
+    downloadChartAsPNG(chartRef.current, `ph-diagnostics-${activeView}`);
+  };
+
+  const handleDownloadSVG = () => {
+    downloadRechartsAsSVG(chartRef.current, `ph-diagnostics-${activeView}`);
+  };
+
+  // Scaled residuals plotted against transformed time, with a lowess trend
+  const residualPlot = useMemo(() => {
+    if (!result) return null;
+    const x = result.transformedTimes;
+    const y = result.scaledResiduals.map(r => r[activeCovariate]);
+    const points = x.map((xi, i) => ({ x: xi, y: y[i], time: result.eventTimes[i] }));
+    const smooth = lowessSmooth(x, y);
+
+    // Label the transformed axis with the event time closest to each tick
+    const min = Math.min(...x);
+    const max = Math.max(...x);
+    const ticks = Array.from({ length: 6 }, (_, i) => min + ((max - min) * i) / 5);
+    const timeAt = (g: number) => {
+      let best = 0;
+      x.forEach((xi, i) => {
+        if (Math.abs(xi - g) < Math.abs(x[best] - g)) best = i;
+      });
+      return result.eventTimes[best];
+    };
+
+    return { points, smooth, ticks, timeAt, beta: result.coefficients[activeCovariate], name: result.covariates[activeCovariate].name };
+  }, [result, activeCovariate]);
+
+  const logLogGroups = Object.keys(logLogCurves).filter(g => logLogCurves[g].length > 0);
+  if (!result && logLogGroups.length === 0) {
+    return null;
+  }
+
+  const violated = result ? result.global.pValue < 0.05 : false;
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">Proportional Hazards Check</CardTitle>
+          {result && (
+            <TooltipProvider>
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant={violated ? "destructive" : "secondary"} className="cursor-help">
+                    {violated ? <AlertTriangle className="h-3 w-3 mr-1" /> : <CheckCircle className="h-3 w-3 mr-1" />}
+                    Global: {formatPValue(result.global.pValue)}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="font-semibold mb-1">
+                    {violated ? "Proportional hazards assumption violated" : "No evidence against proportional hazards"}
+                  </p>
+                  <p className="text-xs">
+                    Grambsch-Therneau test on scaled Schoenfeld residuals ({TIME_TRANSFORM_LABELS[result.transform]} time transform):
+                    χ² = {result.global.chiSquare.toFixed(2)}, df = {result.global.df}
+                  </p>
+                </TooltipContent>
+              </UITooltip>
+            </TooltipProvider>
+          )}
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <Select value={activeView} onValueChange={(v) => setView(v as DiagnosticView)}>
+            <SelectTrigger className="w-[170px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="schoenfeld" disabled={!result}>Schoenfeld residuals</SelectItem>
+              <SelectItem value="loglog">log(−log S) vs log(t)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleDownloadPNG}>
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDownloadSVG}>
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {activeView === "schoenfeld" && result && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {result.covariates.length > 1 && (
+              <Select value={String(activeCovariate)} onValueChange={(v) => setCovariateIndex(Number(v))}>
+                <SelectTrigger className="w-[200px] h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {result.covariates.map((c, i) => (
+                    <SelectItem key={c.name} value={String(i)}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={transform} onValueChange={(v) => onTransformChange(v as TimeTransform)}>
+              <SelectTrigger className="w-[170px] h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TIME_TRANSFORM_LABELS) as TimeTransform[]).map(t => (
+                  <SelectItem key={t} value={t}>{TIME_TRANSFORM_LABELS[t]} time scale</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div ref={chartRef} className="h-[300px] bg-card">
+          <ResponsiveContainer width="100%" height="100%">
+            {activeView === "schoenfeld" && residualPlot ? (
+              <ComposedChart margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  ticks={residualPlot.ticks}
+                  tick={{ fontSize: 11 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  tickFormatter={(g) => residualPlot.timeAt(g).toFixed(0)}
+                  label={{ value: "Time (months)", position: "insideBottom", offset: -15, fontSize: 12 }}
+                />
+                <YAxis
+                  dataKey="y"
+                  type="number"
+                  tick={{ fontSize: 11 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  label={{ value: `β(t) for ${residualPlot.name}`, angle: -90, position: "insideLeft", fontSize: 11, dx: -5, dy: 60 }}
+                  tickFormatter={(v) => v.toFixed(1)}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                    fontSize: 12,
+                  }}
+                  formatter={(value: number) => value.toFixed(3)}
+                  labelFormatter={(g: number) => `t ≈ ${residualPlot.timeAt(g).toFixed(1)} mo`}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 4" strokeOpacity={0.5} />
+                <ReferenceLine y={residualPlot.beta} stroke="hsl(var(--primary))" strokeDasharray="6 3" strokeOpacity={0.7} />
+                <Scatter
+                  name="Scaled residual"
+                  data={residualPlot.points}
+                  fill="hsl(var(--muted-foreground))"
+                  fillOpacity={0.5}
+                  shape="circle"
+                  isAnimationActive={false}
+                />
+                <Line
+                  name="Lowess trend"
+                  data={residualPlot.smooth}
+                  dataKey="y"
+                  type="monotone"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            ) : (
+              <ComposedChart margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                <XAxis
+                  dataKey="logTime"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  allowDuplicatedCategory={false}
+                  tick={{ fontSize: 11 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  tickFormatter={(v) => v.toFixed(1)}
+                  label={{ value: "log(time)", position: "insideBottom", offset: -15, fontSize: 12 }}
+                />
+                <YAxis
+                  type="number"
+                  domain={['auto', 'auto']}
+                  tick={{ fontSize: 11 }}
+                  tickLine={false}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                  tickFormatter={(v) => v.toFixed(1)}
+                  label={{ value: "log(−log S(t))", angle: -90, position: "insideLeft", fontSize: 12, dx: -5 }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                    fontSize: 12,
+                  }}
+                  formatter={(value: number) => value.toFixed(3)}
+                  labelFormatter={(v: number) => `t = ${Math.exp(v).toFixed(1)} mo`}
+                />
+                <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 12 }} />
+                {logLogGroups.map(group => (
+                  <Line
+                    key={group}
+                    name={group}
+                    data={logLogCurves[group]}
+                    dataKey="logMinusLogSurvival"
+                    type="stepAfter"
+                    stroke={subtypeColors[group] || "hsl(var(--primary))"}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ComposedChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+
+        {result && (
+          <div className="mt-3 rounded-md border overflow-hidden">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b bg-muted/30">
+                  <th className="text-left py-1.5 px-3 font-medium">Term</th>
+                  <th className="text-right py-1.5 px-3 font-medium">rho</th>
+                  <th className="text-right py-1.5 px-3 font-medium">χ²</th>
+                  <th className="text-right py-1.5 px-3 font-medium">df</th>
+                  <th className="text-right py-1.5 px-3 font-medium">P-value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.covariates.map(c => (
+                  <tr key={c.name} className="border-b border-border/50">
+                    <td className="py-1.5 px-3">{c.name}</td>
+                    <td className="text-right py-1.5 px-3 font-mono">{c.rho.toFixed(3)}</td>
+                    <td className="text-right py-1.5 px-3 font-mono">{c.chiSquare.toFixed(2)}</td>
+                    <td className="text-right py-1.5 px-3">{c.df}</td>
+                    <td className={`text-right py-1.5 px-3 ${c.pValue < 0.05 ? "text-destructive font-medium" : ""}`}>
+                      {formatPValue(c.pValue)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="py-1.5 px-3">Global</td>
+                  <td className="text-right py-1.5 px-3">—</td>
+                  <td className="text-right py-1.5 px-3 font-mono">{result.global.chiSquare.toFixed(2)}</td>
+                  <td className="text-right py-1.5 px-3">{result.global.df}</td>
+                  <td className={`text-right py-1.5 px-3 ${violated ? "text-destructive" : ""}`}>
+                    {formatPValue(result.global.pValue)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-3 text-center">
+          {activeView === "schoenfeld"
+            ? "A flat trend around the fitted log hazard ratio (dashed) supports proportional hazards; a slope means the effect changes over time."
+            : "Roughly parallel curves support proportional hazards; crossing or converging curves suggest a violation."}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,176 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Info } from "lucide-react";
+import { formatPValue } from "@/lib/logRankTest";
+import { RMSTComparison, RMSTEstimate } from "@/lib/rmst";
+
+interface RMSTTableProps {
+  estimates: RMSTEstimate[];
+  comparisons: RMSTComparison[];
+  tau: number;
+  maxTau: number; // Last time every group is still under observation
+  onTauChange: (tau: number) => void;
+  subtypeColors: Record<string, string>;
+}
+
+const formatCI = (value: number, lower: number | null, upper: number | null, digits: number = 2) =>
+  lower !== null && upper !== null
+    ? `${value.toFixed(digits)} (${lower.toFixed(digits)}–${upper.toFixed(digits)})`
+    : value.toFixed(digits);
+
+const PValueBadge = ({ pValue }: { pValue: number | null }) => {
+  if (pValue === null) return <span className="text-muted-foreground">—</span>;
+  return (
+    <Badge
+      variant={pValue < 0.05 ? "default" : "secondary"}
+      className={`text-xs ${pValue < 0.05 ? "bg-green-600 hover:bg-green-700" : ""}`}
+    >
+      {formatPValue(pValue)}
+    </Badge>
+  );
+};
+
+const ColorDot = ({ color }: { color?: string }) => (
+  <div
+    className="w-3 h-3 rounded-full shrink-0"
+    style={{ backgroundColor: color || 'hsl(var(--primary))' }}
+  />
+);
+
+export const RMSTTable = ({ estimates, comparisons, tau, maxTau, onTauChange, subtypeColors }: RMSTTableProps) => {
+  if (estimates.length === 0) {
+    return null;
+  }
+
+  const hasVariance = estimates.every(e => e.se !== null);
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">Restricted Mean Survival Time</CardTitle>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="text-xs">
+                  Area under the Kaplan-Meier curve up to τ: the average survival time within the first τ months.
+                  Unlike the median, it is defined for curves that never fall below 50%.
+                  τ can be at most {Number(maxTau.toFixed(2))} months, the last time every group is still under observation.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          {!hasVariance && (
+            <Badge variant="secondary" className="text-xs">
+              No CIs (curves lack at-risk counts)
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="rmst-tau" className="text-xs text-muted-foreground whitespace-nowrap">
+            τ (months)
+          </Label>
+          <Input
+            id="rmst-tau"
+            type="number"
+            min={0}
+            max={maxTau}
+            step={1}
+            value={Number(tau.toFixed(2))}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value > 0) onTauChange(Math.min(value, maxTau));
+            }}
+            className="w-[90px] h-8 text-xs"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Group</TableHead>
+                <TableHead className="text-right">RMST (95% CI)</TableHead>
+                <TableHead className="text-right w-[100px]">SE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {estimates.map(est => (
+                <TableRow key={est.group}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <ColorDot color={subtypeColors[est.group]} />
+                      {est.group}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {formatCI(est.rmst, est.lowerCI, est.upperCI)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {est.se !== null ? est.se.toFixed(2) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {comparisons.length > 0 && (
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Comparison</TableHead>
+                  <TableHead className="text-right">Difference (95% CI)</TableHead>
+                  <TableHead className="text-right w-[100px]">P-value</TableHead>
+                  <TableHead className="text-right">Ratio (95% CI)</TableHead>
+                  <TableHead className="text-right w-[100px]">P-value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparisons.map(c => (
+                  <TableRow key={`${c.group}-${c.reference}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <ColorDot color={subtypeColors[c.group]} />
+                        {c.group}
+                        <span className="text-muted-foreground">vs</span>
+                        <ColorDot color={subtypeColors[c.reference]} />
+                        {c.reference}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatCI(c.difference, c.differenceLowerCI, c.differenceUpperCI)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PValueBadge pValue={c.differencePValue} />
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatCI(c.ratio, c.ratioLowerCI, c.ratioUpperCI)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PValueBadge pValue={c.ratioPValue} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground text-center">
+          RMST up to τ = {tau.toFixed(1)} months (default: shortest maximum follow-up across groups).
+          Difference &gt; 0 and ratio &gt; 1 indicate longer survival than the comparison group.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, Trash2 } from "lucide-react";
+import { SampleSet } from "@/lib/sampleSets";
+
+interface SampleSetsPanelProps {
+  sampleSets: SampleSet[];
+  onDelete: (name: string) => void;
+}
+
+// One sample ID per line
+const exportSampleSet = (set: SampleSet) => {
+  const blob = new Blob([set.sampleIds.join("\n") + "\n"], { type: "text/plain" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${set.name.replace(/[^\w-]+/g, "_")}_sample_ids.txt`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const SampleSetsPanel = ({ sampleSets, onDelete }: SampleSetsPanelProps) => {
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Sample Sets</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sampleSets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Use Box or Lasso on the UMAP / t-SNE or PCA plot to select samples and save them as a set.
+            Sets can be highlighted in the heatmap and used as a grouping in the survival analysis.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sampleSets.map(set => (
+              <div key={set.name} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: set.color }} />
+                <span className="text-sm font-medium">{set.name}</span>
+                <Badge variant="outline" className="text-xs">{set.source}</Badge>
+                <span className="text-xs text-muted-foreground">{set.sampleIds.length} samples</span>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => exportSampleSet(set)}>
+                    <Download className="h-3.5 w-3.5 mr-1" />
+                    IDs
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onDelete(set.name)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+export interface Scatter3DPoint {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  color: string;
+}
+
+interface Scatter3DProps {
+  points: Scatter3DPoint[];
+  axisLabels: [string, string, string];
+  // Tooltip body for the hovered point
+  renderTooltip?: (id: string) => React.ReactNode;
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const CAMERA_DISTANCE = 4;
+const DEFAULT_VIEW = { yaw: -0.6, pitch: 0.35, zoom: 1 };
+
+// Corners of the [-1, 1] cube and its 12 edges
+const CORNERS = [-1, 1].flatMap(x => [-1, 1].flatMap(y => [-1, 1].map(z => [x, y, z])));
+const EDGES: [number, number][] = [];
+CORNERS.forEach((a, p) => {
+  CORNERS.forEach((b, q) => {
+    if (q > p && a.filter((v, c) => v !== b[c]).length === 1) EDGES.push([p, q]);
+  });
+});
+
+/**
+ * 3D scatter drawn as an SVG perspective projection: drag to rotate, wheel
+ * to zoom, double-click to reset. Each axis is scaled to fill the cube.
+ */
+export const Scatter3D = ({ points, axisLabels, renderTooltip }: Scatter3DProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState(DEFAULT_VIEW);
+  const [hovered, setHovered] = useState<{ id: string; left: number; top: number } | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(v => ({ ...v, zoom: Math.min(5, Math.max(0.3, v.zoom * Math.exp(-e.deltaY * 0.001))) }));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const normalized = useMemo(() => {
+    const axis = (values: number[]) => {
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const mid = (min + max) / 2;
+      const half = (max - min) / 2 || 1;
+      return (v: number) => (v - mid) / half;
+    };
+    const nx = axis(points.map(p => p.x));
+    const ny = axis(points.map(p => p.y));
+    const nz = axis(points.map(p => p.z));
+    return points.map(p => ({ ...p, position: [nx(p.x), ny(p.y), nz(p.z)] }));
+  }, [points]);
+
+  const project = useMemo(() => {
+    const cy = Math.cos(view.yaw), sy = Math.sin(view.yaw);
+    const cp = Math.cos(view.pitch), sp = Math.sin(view.pitch);
+    const scale = Math.min(WIDTH, HEIGHT) * 0.42 * view.zoom;
+    return ([x, y, z]: number[]) => {
+      // Rotate about the vertical axis, then tilt towards the viewer
+      const x1 = cy * x + sy * z;
+      const z1 = -sy * x + cy * z;
+      const y2 = cp * y - sp * z1;
+      const z2 = sp * y + cp * z1;
+      const perspective = CAMERA_DISTANCE / (CAMERA_DISTANCE - z2);
+      return { sx: WIDTH / 2 + x1 * perspective * scale, sy: HEIGHT / 2 - y2 * perspective * scale, depth: z2 };
+    };
+  }, [view]);
+
+  // Painter's algorithm: far points first
+  const projected = useMemo(
+    () => normalized.map(p => ({ ...p, ...project(p.position) })).sort((a, b) => a.depth - b.depth),
+    [normalized, project]
+  );
+
+  const axisEnds = [[1.15, -1, -1], [-1, 1.15, -1], [-1, -1, 1.15]].map(project);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!drag.current) return;
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({
+      ...v,
+      yaw: v.yaw + dx * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, v.pitch + dy * 0.01)),
+    }));
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  // Anchor the tooltip to the circle on screen; the viewBox is letterboxed inside the container
+  const showTooltip = (id: string, circle: SVGCircleElement) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const box = container.getBoundingClientRect();
+    const dot = circle.getBoundingClientRect();
+    setHovered({ id, left: dot.left + dot.width / 2 - box.left, top: dot.top - box.top });
+  };
+
+  return (
+    <div ref={containerRef} className="relative h-full w-full">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-full w-full cursor-grab active:cursor-grabbing select-none"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={endDrag}
+        onDoubleClick={() => setView(DEFAULT_VIEW)}
+      >
+        {EDGES.map(([p, q]) => {
+          const a = project(CORNERS[p]);
+          const b = project(CORNERS[q]);
+          return (
+            <line key={`${p}-${q}`} x1={a.sx} y1={a.sy} x2={b.sx} y2={b.sy} stroke="hsl(var(--border))" strokeWidth={1} />
+          );
+        })}
+        {axisEnds.map((end, c) => (
+          <text
+            key={axisLabels[c]}
+            x={end.sx}
+            y={end.sy}
+            fontSize={11}
+            textAnchor="middle"
+            fill="hsl(var(--muted-foreground))"
+          >
+            {axisLabels[c]}
+          </text>
+        ))}
+        {projected.map(p => (
+          <circle
+            key={p.id}
+            cx={p.sx}
+            cy={p.sy}
+            r={Math.max(2, 4 * (CAMERA_DISTANCE / (CAMERA_DISTANCE - p.depth)) * Math.sqrt(view.zoom))}
+            fill={p.color}
+            fillOpacity={0.75}
+            stroke="hsl(var(--background))"
+            strokeWidth={0.5}
+            onMouseEnter={(e) => showTooltip(p.id, e.currentTarget)}
+            onMouseLeave={() => setHovered(null)}
+          />
+        ))}
+      </svg>
+      {hovered && renderTooltip && (
+        <div
+          className="absolute pointer-events-none z-10 -translate-x-1/2 -translate-y-full -mt-2"
+          style={{ left: hovered.left, top: hovered.top }}
+        >
+          {renderTooltip(hovered.id)}
+        </div>
+      )}
+      <span className="absolute bottom-1 right-2 text-[10px] text-muted-foreground pointer-events-none">
+        Drag to rotate · scroll to zoom · double-click to reset
+      </span>
+    </div>
+  );
+};
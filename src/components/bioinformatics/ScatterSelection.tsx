@@ -0,0 +1,166 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import React, { useRef, useState } from "react";
+import { BoxSelect, Lasso, Save, X } from "lucide-react";
+import { Point, boxPolygon } from "@/lib/sampleSets";
+
+export type SelectionMode = "box" | "lasso";
+
+export interface AxisScales {
+  x: (value: number) => number;
+  y: (value: number) => number;
+}
+
+type AxisMap = Record<string, { scale: (value: number) => number }>;
+
+interface ScaleRecorderProps {
+  scalesRef: React.MutableRefObject<AxisScales | null>;
+  // Injected by recharts' <Customized>
+  xAxisMap?: AxisMap;
+  yAxisMap?: AxisMap;
+}
+
+/**
+ * Render inside <Customized> to keep the chart's current axis scales, so a
+ * selection drawn in pixels can be matched against data coordinates
+ */
+export const ScaleRecorder = ({ scalesRef, xAxisMap, yAxisMap }: ScaleRecorderProps) => {
+  const xAxis = xAxisMap && Object.values(xAxisMap)[0];
+  const yAxis = yAxisMap && Object.values(yAxisMap)[0];
+  scalesRef.current = xAxis && yAxis ? { x: xAxis.scale, y: yAxis.scale } : null;
+  return null;
+};
+
+interface SelectionOverlayProps {
+  mode: SelectionMode;
+  // Polygon in chart pixel coordinates
+  onSelect: (polygon: Point[]) => void;
+}
+
+/**
+ * Transparent layer over a chart that captures a box or lasso drag.
+ * The parent must be positioned (relative).
+ */
+export const SelectionOverlay = ({ mode, onSelect }: SelectionOverlayProps) => {
+  const [path, setPath] = useState<Point[]>([]);
+  const drawing = useRef(false);
+
+  const position = (e: React.MouseEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    drawing.current = true;
+    setPath([position(e)]);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!drawing.current) return;
+    const point = position(e);
+    setPath(prev => {
+      if (mode === "box") return [prev[0], point];
+      const last = prev[prev.length - 1];
+      return Math.hypot(point[0] - last[0], point[1] - last[1]) < 3 ? prev : [...prev, point];
+    });
+  };
+
+  const handleMouseUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    const polygon = mode === "box" && path.length === 2 ? boxPolygon(path[0], path[1]) : path;
+    setPath([]);
+    onSelect(polygon.length >= 3 ? polygon : []);
+  };
+
+  const shape = mode === "box" && path.length === 2 ? boxPolygon(path[0], path[1]) : path;
+
+  return (
+    <div
+      className="absolute inset-0 z-10 cursor-crosshair"
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={handleMouseUp}
+    >
+      {shape.length > 1 && (
+        <svg className="absolute inset-0 h-full w-full pointer-events-none">
+          <polygon
+            points={shape.map(p => p.join(",")).join(" ")}
+            fill="hsl(var(--primary))"
+            fillOpacity={0.1}
+            stroke="hsl(var(--primary))"
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+interface SelectionToolbarProps {
+  mode: SelectionMode | null;
+  onModeChange: (mode: SelectionMode | null) => void;
+  selectedCount: number;
+  defaultName: string;
+  onSave: (name: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Box / lasso toggles and, once samples are selected, saving them as a named set
+ */
+export const SelectionToolbar = ({ mode, onModeChange, selectedCount, defaultName, onSave, onClear }: SelectionToolbarProps) => {
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    onSave(name.trim() || defaultName);
+    setName("");
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap mb-2">
+      <span className="text-xs text-muted-foreground">Select:</span>
+      <Button
+        variant={mode === "box" ? "secondary" : "outline"}
+        size="sm"
+        className="h-7 px-2"
+        onClick={() => onModeChange(mode === "box" ? null : "box")}
+        title="Box selection"
+      >
+        <BoxSelect className="h-3.5 w-3.5 mr-1" />
+        Box
+      </Button>
+      <Button
+        variant={mode === "lasso" ? "secondary" : "outline"}
+        size="sm"
+        className="h-7 px-2"
+        onClick={() => onModeChange(mode === "lasso" ? null : "lasso")}
+        title="Lasso selection"
+      >
+        <Lasso className="h-3.5 w-3.5 mr-1" />
+        Lasso
+      </Button>
+      {selectedCount > 0 && (
+        <>
+          <span className="text-xs font-medium">{selectedCount} selected</span>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") handleSave(); }}
+            placeholder={defaultName}
+            className="h-7 w-32 text-xs"
+          />
+          <Button variant="outline" size="sm" className="h-7 px-2" onClick={handleSave}>
+            <Save className="h-3.5 w-3.5 mr-1" />
+            Save set
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClear}>
+            <X className="h-3.5 w-3.5 mr-1" />
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -51,6 +51,9 @@ export const StepwiseSelectionPanel = ({ result, onApplyFinal }: StepwiseSelecti
     lines.push(['Total added:', result.addedCovariates.length.toString()].join(separator));
     lines.push(['Total removed:', result.removedCovariates.length.toString()].join(separator));
     lines.push(['Significance threshold:', result.threshold.toString()].join(separator));
+    if (result.nSamples !== undefined) {
+      lines.push(['Complete cases (n):', result.nSamples.toString()].join(separator));
+    }
     if (result.finalConcordance) {
       lines.push(['Final C-index:', result.finalConcordance.toFixed(3)].join(separator));
     }
@@ -266,6 +269,7 @@ export const StepwiseSelectionPanel = ({ result, onApplyFinal }: StepwiseSelecti
         
         <div className="mt-3 text-xs text-muted-foreground text-center">
           Stepwise selection alternates between adding (p &lt; {result.threshold}) and removing (p &gt; {(result.threshold * 2).toFixed(2)}) covariates.
+          {result.nSamples !== undefined && ` Every model is fitted on the same ${result.nSamples} patients with complete covariate values.`}
         </div>
       </CardContent>
     </Card>
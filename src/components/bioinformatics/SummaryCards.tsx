@@ -41,7 +41,9 @@ export const SummaryCards = ({ summary, markerGenesPerSubtype = 25, totalMarkerG
     {
       title: "Subtypes",
       value: summary.n_subtypes,
-      subtitle: `Cophenetic: ${summary.cophenetic_correlation.toFixed(3)}`,
+      subtitle: Number.isFinite(summary.cophenetic_correlation)
+        ? `Cophenetic: ${summary.cophenetic_correlation.toFixed(3)}`
+        : "Cophenetic: n/a",
       icon: TrendingUp,
       gradient: "from-orange-500 to-amber-500",
     },
@@ -12,25 +12,45 @@ import {
   ReferenceLine,
   Line
 } from "recharts";
-import { useMemo, useRef, useState } from "react";
-import { Download, FileSpreadsheet, Database, Calculator, Trash2, TrendingUp, ArrowLeftRight, BarChart3 } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, FileSpreadsheet, Database, Calculator, Trash2, TrendingUp, ArrowLeftRight, BarChart3, Sigma } from "lucide-react";
 import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
-import { logRankTest, formatPValue } from "@/lib/logRankTest";
-import { estimateCoxPH, formatHR, CoxPHResult, stratifiedCoxPH, StratifiedCoxPHResult, multivariateCoxPH, MultivariateCoxPHResult, stepwiseModelComparison, ModelComparisonResult, backwardElimination, BackwardEliminationResult, forwardSelection, ForwardSelectionResult, stepwiseSelection, StepwiseSelectionResult, crossValidateConcordance, CrossValidationResult } from "@/lib/coxphAnalysis";
+import { logRankTest, exactLogRankTest, exactLogRankTrendTest, exactPairwiseLogRankTests, pairwiseLogRankTests, formatPValue, LogRankWeighting, LOG_RANK_WEIGHTING_LABELS } from "@/lib/logRankTest";
+import { estimateCoxPH, exactCoxPH, exactProportionalHazardsTest, IndividualSurvivalData, formatHR, CoxPHResult, stratifiedCoxPH, StratifiedCoxPHResult, multivariateCoxPH, MultivariateCoxPHResult, stepwiseModelComparison, ModelComparisonResult, backwardElimination, BackwardEliminationResult, forwardSelection, ForwardSelectionResult, stepwiseSelection, StepwiseSelectionResult } from "@/lib/coxphAnalysis";
+import { validateCoxModel, CrossValidationResult, DEFAULT_VALIDATION_OPTIONS, ValidationOptions, VALIDATION_METHOD_LABELS } from "@/lib/modelValidation";
+import { DEFAULT_SEED } from "@/lib/random";
 import { CoxPHResultFromJSON } from "@/components/bioinformatics/JsonUploader";
 import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
 import { ForestPlot } from "@/components/bioinformatics/ForestPlot";
 import { StratumResultsTable } from "@/components/bioinformatics/StratumResultsTable";
 import { MultivariateResultsTable } from "@/components/bioinformatics/MultivariateResultsTable";
 import { MultivariateForestPlot } from "@/components/bioinformatics/MultivariateForestPlot";
 import { CovariateSelector } from "@/components/bioinformatics/CovariateSelector";
+import { EndpointSelector } from "@/components/bioinformatics/EndpointSelector";
 import { ModelComparisonPanel } from "@/components/bioinformatics/ModelComparisonPanel";
 import { BackwardEliminationPanel } from "@/components/bioinformatics/BackwardEliminationPanel";
 import { ForwardSelectionPanel } from "@/components/bioinformatics/ForwardSelectionPanel";
 import { StepwiseSelectionPanel } from "@/components/bioinformatics/StepwiseSelectionPanel";
 import { CrossValidationPanel } from "@/components/bioinformatics/CrossValidationPanel";
+import { RMSTTable } from "@/components/bioinformatics/RMSTTable";
+import { PairwiseLogRankMatrix } from "@/components/bioinformatics/PairwiseLogRankMatrix";
+import { ConditionalSurvivalTable, ConditionalSurvivalRow } from "@/components/bioinformatics/ConditionalSurvivalTable";
+import { ProportionalHazardsPanel } from "@/components/bioinformatics/ProportionalHazardsPanel";
+import { CumulativeIncidencePanel } from "@/components/bioinformatics/CumulativeIncidencePanel";
+import { TimeDependentROCPanel } from "@/components/bioinformatics/TimeDependentROCPanel";
+import { CalibrationPanel } from "@/components/bioinformatics/CalibrationPanel";
+import { RawSurvivalDataPoint } from "@/data/mockNmfData";
+import { TieMethod } from "@/lib/coxRegression";
+import { SurvivalEndpoint, endpointObservations } from "@/lib/survivalEndpoint";
+import { compareRMST, defaultRMSTHorizon, rmstByGroup } from "@/lib/rmst";
+import { logMinusLogCurves, TimeTransform } from "@/lib/proportionalHazards";
+import { CompetingRiskSpec, competingRiskObservations, defaultCompetingRiskSpec, fineGrayByGroup, graysTest } from "@/lib/competingRisks";
+import { kaplanMeierByGroup, kaplanMeierMedian, groupObservations, numberAtRisk, toObservations, landmarkObservations, survivalAt, SurvivalObservation } from "@/lib/kaplanMeier";
 
 export interface SurvivalTimePoint {
   time: number;
@@ -62,8 +82,18 @@ interface SurvivalCurveProps {
   userAnnotations?: AnnotationData;
   // Sample to subtype mapping for annotation-based analysis
   sampleSubtypes?: Record<string, string>;
+  // Patient-level survival times; when present, curves are computed from these
+  rawData?: RawSurvivalDataPoint[];
+  // Dashboard seed for resampling-based validation
+  seed?: number;
 }
 
+// Covariate name used for the NMF subtype term in multivariable models
+const SUBTYPE_COVARIATE = "NMF subtype";
+
+// Horizons (months) for the conditional survival table
+const CONDITIONAL_HORIZONS = [12, 24, 36, 60];
+
 // Generate colors for annotation groups
 const generateAnnotationColors = (groups: string[]): Record<string, string> => {
   const colorPalette = [
@@ -91,11 +121,26 @@ export const SurvivalCurve = ({
   survivalPValue,
   coxPHResults,
   userAnnotations,
-  sampleSubtypes
+  sampleSubtypes,
+  rawData,
+  seed = DEFAULT_SEED
 }: SurvivalCurveProps) => {
   const [groupBy, setGroupBy] = useState<string>("nmf_subtype");
   const [stratifyBy, setStratifyBy] = useState<string>("none");
   const [selectedCovariates, setSelectedCovariates] = useState<string[]>([]);
+  const [tieMethod, setTieMethod] = useState<TieMethod>("efron");
+  const [adjustForSubtype, setAdjustForSubtype] = useState(true);
+  const [referenceLevels, setReferenceLevels] = useState<Record<string, string>>({});
+  const [endpoint, setEndpoint] = useState<SurvivalEndpoint | null>(null);
+  const [rmstTau, setRmstTau] = useState<number | null>(null); // null = default horizon
+  const [phTransform, setPhTransform] = useState<TimeTransform>("km");
+  const [logRankMethod, setLogRankMethod] = useState<LogRankWeighting | "trend">("logrank");
+  const [fhRho, setFhRho] = useState(1);
+  const [fhGamma, setFhGamma] = useState(0);
+  const [landmarkEnabled, setLandmarkEnabled] = useState(false);
+  const [landmarkTime, setLandmarkTime] = useState(12);
+  const [analysisMode, setAnalysisMode] = useState<"km" | "cif">("km");
+  const [competingSpec, setCompetingSpec] = useState<CompetingRiskSpec | null>(null);
   const chartRef = useRef<HTMLDivElement>(null);
 
   const handleDownloadPNG = () => {
@@ -114,14 +159,71 @@ export const SurvivalCurve = ({
     );
   }, [userAnnotations]);
 
+  // Endpoint chosen from annotation columns (null = the one in the results JSON)
+  const activeEndpoint = endpoint && userAnnotations ? endpoint : null;
+
+  // Patient-level observations (time, event) for the selected endpoint,
+  // or from the JSON's rawSurvivalData by default
+  const allObservations = useMemo(() => {
+    const records = activeEndpoint
+      ? endpointObservations(userAnnotations, activeEndpoint, sampleSubtypes)
+      : rawData;
+    if (!records || records.length === 0) return null;
+    const obs = toObservations(records);
+    return obs.length > 0 ? obs : null;
+  }, [rawData, activeEndpoint, userAnnotations, sampleSubtypes]);
+
+  // Landmark analysis needs patient-level data: only patients still followed
+  // beyond the landmark are kept, with time measured from the landmark
+  const landmark = landmarkEnabled && allObservations ? landmarkTime : 0;
+  const observations = useMemo(() => {
+    if (!allObservations || landmark <= 0) return allObservations;
+    // Kept even when empty so the full-cohort curves are not shown in its place
+    return landmarkObservations(allObservations, landmark);
+  }, [allObservations, landmark]);
+
+  // Competing risks need a multi-state status column in the annotations
+  const defaultCompetingSpec = useMemo(
+    () => (userAnnotations ? defaultCompetingRiskSpec(userAnnotations, annotationColumns) : null),
+    [userAnnotations, annotationColumns]
+  );
+  const activeCompetingSpec = userAnnotations ? competingSpec ?? defaultCompetingSpec : null;
+  const showCumulativeIncidence = analysisMode === "cif" && !!activeCompetingSpec;
+
   // Calculate survival data based on selected grouping
-  const { effectiveData, effectiveColors, effectiveCounts, isAnnotationGrouping } = useMemo(() => {
+  const { effectiveData, effectiveColors, effectiveCounts, effectiveObservations, isAnnotationGrouping } = useMemo(() => {
+    const useAnnotationGrouping = groupBy !== "nmf_subtype" && !!userAnnotations && !!sampleSubtypes;
+
+    // With patient-level data, compute product-limit curves for whichever grouping is selected
+    if (observations) {
+      const groupOf = useAnnotationGrouping
+        ? (o: RawSurvivalDataPoint) => {
+            const value = userAnnotations.annotations[o.sample_id]?.[groupBy];
+            return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+          }
+        : (o: RawSurvivalDataPoint) => sampleSubtypes?.[o.sample_id] ?? o.subtype;
+      const groupOrder = useAnnotationGrouping ? undefined : (subtypeCounts ? Object.keys(subtypeCounts) : undefined);
+      const curves = kaplanMeierByGroup(observations, groupOf, groupOrder);
+      const grouped: Record<string, SurvivalObservation[]> = groupObservations(observations, groupOf);
+      const counts: Record<string, number> = {};
+      curves.forEach(c => { counts[c.subtype] = c.nTotal || 0; });
+
+      return {
+        effectiveData: curves,
+        effectiveColors: useAnnotationGrouping ? generateAnnotationColors(curves.map(c => c.subtype)) : subtypeColors,
+        effectiveCounts: counts,
+        effectiveObservations: grouped,
+        isAnnotationGrouping: useAnnotationGrouping
+      };
+    }
+
     // If grouping by NMF subtype or no annotations, use original data
-    if (groupBy === "nmf_subtype" || !userAnnotations || !sampleSubtypes) {
+    if (!useAnnotationGrouping) {
       return { 
         effectiveData: data, 
         effectiveColors: subtypeColors, 
         effectiveCounts: subtypeCounts,
+        effectiveObservations: null,
         isAnnotationGrouping: false
       };
     }
@@ -225,28 +327,89 @@ export const SurvivalCurve = ({
       effectiveData: newSurvivalData, 
       effectiveColors: colors, 
       effectiveCounts: counts,
+      effectiveObservations: null,
       isAnnotationGrouping: true
     };
-  }, [data, subtypeColors, subtypeCounts, groupBy, userAnnotations, sampleSubtypes]);
+  }, [data, observations, subtypeColors, subtypeCounts, groupBy, userAnnotations, sampleSubtypes]);
+
+  // Patient-level records for exact Cox fits (subtype is the NMF call for each sample)
+  const individualData = useMemo((): IndividualSurvivalData | undefined => {
+    if (!observations) return undefined;
+    return {
+      observations: observations.map(o => ({ ...o, subtype: sampleSubtypes?.[o.sample_id] ?? o.subtype })),
+      ties: tieMethod
+    };
+  }, [observations, sampleSubtypes, tieMethod]);
 
   // Track data source for statistics
-  const isPrecomputedPValue = survivalPValue !== undefined && !isAnnotationGrouping;
-  const isPrecomputedCoxPH = !!coxPHResults && !isAnnotationGrouping;
+  const isPrecomputedPValue = survivalPValue !== undefined && !isAnnotationGrouping && !effectiveObservations;
+  const isExactCoxPH = !!effectiveObservations;
+  const isPrecomputedCoxPH = !!coxPHResults && !isAnnotationGrouping && !isExactCoxPH;
+  const coxPHSource = isExactCoxPH
+    ? `Exact (${tieMethod === 'efron' ? 'Efron' : 'Breslow'} ties)`
+    : isPrecomputedCoxPH ? 'R (pre-computed)' : 'Estimated';
+
+  // Stratum of each sample for stratified tests (same annotation as the stratified Cox model)
+  const logRankStratumOf = useMemo(() => {
+    if (stratifyBy === "none" || !userAnnotations) return undefined;
+    return (o: RawSurvivalDataPoint) => {
+      const value = userAnnotations.annotations[o.sample_id]?.[stratifyBy];
+      return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+    };
+  }, [stratifyBy, userAnnotations]);
+
+  const logRankLabel = effectiveObservations
+    ? `${logRankMethod === "trend" ? "Log-rank trend" : LOG_RANK_WEIGHTING_LABELS[logRankMethod]}${
+        logRankMethod === "fleming-harrington" ? ` (ρ=${fhRho}, γ=${fhGamma})` : ''}${
+        logRankStratumOf ? `, stratified by ${stratifyBy}` : ''}`
+    : 'Log-rank';
 
   // Use pre-computed log-rank p-value from JSON if available, otherwise calculate
   const logRankResult = useMemo(() => {
+    // Patient-level data gives the exact test for whichever endpoint/grouping is shown
+    if (effectiveObservations) {
+      const groupOrder = effectiveData.map(d => d.subtype);
+      if (logRankMethod === "trend") {
+        return exactLogRankTrendTest(effectiveObservations, groupOrder, undefined, { stratumOf: logRankStratumOf });
+      }
+      return exactLogRankTest(effectiveObservations, groupOrder, {
+        weighting: logRankMethod,
+        rho: fhRho,
+        gamma: fhGamma,
+        stratumOf: logRankStratumOf
+      });
+    }
     if (survivalPValue !== undefined && !isAnnotationGrouping) {
       // Use the pre-computed p-value from R
       return { pValue: survivalPValue, chiSquare: 0, df: 0 };
     }
     return logRankTest(effectiveData, effectiveCounts);
-  }, [effectiveData, effectiveCounts, survivalPValue, isAnnotationGrouping]);
+  }, [effectiveData, effectiveCounts, effectiveObservations, survivalPValue, isAnnotationGrouping, logRankMethod, fhRho, fhGamma, logRankStratumOf]);
+
+  // All-pairs comparisons (the trend test has no pairwise form, so it falls back to log-rank weights)
+  const pairwiseLogRank = useMemo(() => {
+    if (effectiveData.length < 3) return [];
+    if (effectiveObservations) {
+      return exactPairwiseLogRankTests(effectiveObservations, effectiveData.map(d => d.subtype), {
+        weighting: logRankMethod === "trend" ? "logrank" : logRankMethod,
+        rho: fhRho,
+        gamma: fhGamma,
+        stratumOf: logRankStratumOf
+      });
+    }
+    return pairwiseLogRankTests(effectiveData, effectiveCounts);
+  }, [effectiveData, effectiveCounts, effectiveObservations, logRankMethod, fhRho, fhGamma, logRankStratumOf]);
+  
+  const pairwiseTestLabel = effectiveObservations && logRankMethod !== "trend"
+    ? LOG_RANK_WEIGHTING_LABELS[logRankMethod]
+    : "Log-rank";
 
-  // Use pre-computed Cox PH results from JSON if available, otherwise estimate
+  // Fit Cox PH exactly from patient-level data when available; otherwise use
+  // pre-computed Cox PH results from JSON if available, or estimate from curves.
   // Also support stratified analysis when a stratification variable is selected
   const { coxPHResult, isStratified } = useMemo((): { coxPHResult: CoxPHResult | CoxPHResultFromJSON | StratifiedCoxPHResult | null; isStratified: boolean } => {
     // Use pre-computed if available and not using custom grouping or stratification
-    if (coxPHResults && !isAnnotationGrouping && stratifyBy === "none") {
+    if (coxPHResults && !isAnnotationGrouping && stratifyBy === "none" && !effectiveObservations) {
       return { coxPHResult: coxPHResults, isStratified: false };
     }
     
@@ -260,15 +423,40 @@ export const SurvivalCurve = ({
         }
       });
       
-      const stratResult = stratifiedCoxPH(data, stratificationMap, sampleSubtypes, subtypeCounts);
+      const stratResult = stratifiedCoxPH(effectiveData, stratificationMap, sampleSubtypes, effectiveCounts, individualData);
       if (stratResult) {
         return { coxPHResult: stratResult, isStratified: true };
       }
     }
     
+    // Exact partial-likelihood fit on the current grouping
+    if (effectiveObservations) {
+      const exactResult = exactCoxPH(effectiveObservations, effectiveData.map(d => d.subtype), tieMethod);
+      if (exactResult) {
+        return { coxPHResult: exactResult, isStratified: false };
+      }
+    }
+    
     // Regular estimation
     return { coxPHResult: estimateCoxPH(effectiveData, effectiveCounts), isStratified: false };
-  }, [effectiveData, effectiveCounts, coxPHResults, isAnnotationGrouping, stratifyBy, userAnnotations, sampleSubtypes, data, subtypeCounts, groupBy]);
+  }, [effectiveData, effectiveCounts, effectiveObservations, coxPHResults, isAnnotationGrouping, stratifyBy, userAnnotations, sampleSubtypes, groupBy, individualData, tieMethod]);
+
+  // Proportional hazards diagnostics for the group model shown in the forest plot
+  const phTest = useMemo(() => {
+    if (!effectiveObservations) return null;
+    const groupOrder = effectiveData.map(d => d.subtype);
+    
+    if (isStratified && userAnnotations) {
+      const stratumOf = (o: RawSurvivalDataPoint) => {
+        const value = userAnnotations.annotations[o.sample_id]?.[stratifyBy];
+        return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+      };
+      return exactProportionalHazardsTest(effectiveObservations, groupOrder, tieMethod, phTransform, stratumOf);
+    }
+    return exactProportionalHazardsTest(effectiveObservations, groupOrder, tieMethod, phTransform);
+  }, [effectiveObservations, effectiveData, isStratified, userAnnotations, stratifyBy, tieMethod, phTransform]);
+  
+  const logLogCurves = useMemo(() => logMinusLogCurves(effectiveData), [effectiveData]);
 
   // Multivariate Cox PH analysis when covariates are selected
   const multivariateResult = useMemo((): MultivariateCoxPHResult | null => {
@@ -289,8 +477,13 @@ export const SurvivalCurve = ({
       });
     });
 
-    return multivariateCoxPH(data, covariateData, sampleSubtypes, subtypeCounts);
-  }, [selectedCovariates, userAnnotations, sampleSubtypes, data, subtypeCounts]);
+    // Fit the NMF subtype jointly with the annotation covariates (patient-level data only)
+    if (individualData && adjustForSubtype) {
+      covariateData[SUBTYPE_COVARIATE] = { ...sampleSubtypes };
+    }
+
+    return multivariateCoxPH(data, covariateData, sampleSubtypes, subtypeCounts, individualData, referenceLevels);
+  }, [selectedCovariates, userAnnotations, sampleSubtypes, data, subtypeCounts, individualData, adjustForSubtype, referenceLevels]);
 
   // Stepwise model comparison using likelihood ratio tests
   const modelComparisons = useMemo((): ModelComparisonResult[] => {
@@ -310,8 +503,8 @@ export const SurvivalCurve = ({
       });
     });
 
-    return stepwiseModelComparison(data, covariateData, sampleSubtypes, selectedCovariates, subtypeCounts);
-  }, [selectedCovariates, userAnnotations, sampleSubtypes, data, subtypeCounts]);
+    return stepwiseModelComparison(data, covariateData, sampleSubtypes, selectedCovariates, subtypeCounts, individualData, referenceLevels);
+  }, [selectedCovariates, userAnnotations, sampleSubtypes, data, subtypeCounts, individualData, referenceLevels]);
 
   // Backward elimination result
   const [backwardEliminationResult, setBackwardEliminationResult] = useState<BackwardEliminationResult | null>(null);
@@ -324,6 +517,12 @@ export const SurvivalCurve = ({
 
   // Cross-validation result
   const [crossValidationResult, setCrossValidationResult] = useState<CrossValidationResult | null>(null);
+  const [validationOptions, setValidationOptions] = useState<ValidationOptions>({ ...DEFAULT_VALIDATION_OPTIONS, seed });
+
+  // Follow the dashboard seed; the panel can still override it for a single run
+  useEffect(() => {
+    setValidationOptions(prev => ({ ...prev, seed }));
+  }, [seed]);
 
   const runBackwardElimination = () => {
     if (selectedCovariates.length < 2 || !userAnnotations || !sampleSubtypes) {
@@ -342,7 +541,7 @@ export const SurvivalCurve = ({
       });
     });
 
-    const result = backwardElimination(data, covariateData, sampleSubtypes, selectedCovariates, subtypeCounts, 0.05);
+    const result = backwardElimination(data, covariateData, sampleSubtypes, selectedCovariates, subtypeCounts, 0.05, individualData, referenceLevels);
     setBackwardEliminationResult(result);
     setForwardSelectionResult(null);
     setStepwiseSelectionResult(null);
@@ -365,7 +564,7 @@ export const SurvivalCurve = ({
       });
     });
 
-    const result = forwardSelection(data, covariateData, sampleSubtypes, annotationColumns, subtypeCounts, 0.05);
+    const result = forwardSelection(data, covariateData, sampleSubtypes, annotationColumns, subtypeCounts, 0.05, individualData, referenceLevels);
     setForwardSelectionResult(result);
     setBackwardEliminationResult(null);
     setStepwiseSelectionResult(null);
@@ -388,14 +587,15 @@ export const SurvivalCurve = ({
       });
     });
 
-    const result = stepwiseSelection(data, covariateData, sampleSubtypes, annotationColumns, subtypeCounts, 0.05, 0.10);
+    const result = stepwiseSelection(data, covariateData, sampleSubtypes, annotationColumns, subtypeCounts, 0.05, 0.10, individualData, referenceLevels);
     setStepwiseSelectionResult(result);
     setForwardSelectionResult(null);
     setBackwardEliminationResult(null);
   };
 
-  const runCrossValidation = () => {
-    if (selectedCovariates.length < 1 || !userAnnotations || !sampleSubtypes) {
+  // Resamples patients and refits the same model as multivariateResult (patient-level data only)
+  const runCrossValidation = (options: ValidationOptions = validationOptions) => {
+    if (selectedCovariates.length < 1 || !userAnnotations || !sampleSubtypes || !individualData) {
       return;
     }
 
@@ -411,8 +611,12 @@ export const SurvivalCurve = ({
       });
     });
 
-    const result = crossValidateConcordance(data, covariateData, sampleSubtypes, selectedCovariates, subtypeCounts, 5);
-    setCrossValidationResult(result);
+    if (adjustForSubtype) {
+      covariateData[SUBTYPE_COVARIATE] = { ...sampleSubtypes };
+    }
+
+    setValidationOptions(options);
+    setCrossValidationResult(validateCoxModel(covariateData, Object.keys(covariateData), individualData, options, referenceLevels));
   };
 
   const applyBackwardEliminationResult = (covariates: string[]) => {
@@ -461,6 +665,15 @@ export const SurvivalCurve = ({
     setCrossValidationResult(null);
   };
 
+  // Switching endpoint invalidates every fitted model shown below the chart
+  const changeEndpoint = (next: SurvivalEndpoint | null) => {
+    setEndpoint(next);
+    setBackwardEliminationResult(null);
+    setForwardSelectionResult(null);
+    setStepwiseSelectionResult(null);
+    setCrossValidationResult(null);
+  };
+
   const reorderCovariates = (newOrder: string[]) => {
     setSelectedCovariates(newOrder);
     setBackwardEliminationResult(null);
@@ -477,19 +690,62 @@ export const SurvivalCurve = ({
     // Header
     lines.push(['Statistic', 'Subtype', 'Value', 'Lower CI', 'Upper CI', 'P-value', 'Source'].join(separator));
     
+    // Endpoint the statistics refer to
+    if (activeEndpoint) {
+      lines.push([
+        'Endpoint',
+        activeEndpoint.label,
+        `time=${activeEndpoint.timeColumn}; event=${activeEndpoint.eventColumn} in {${activeEndpoint.eventValues.join('|')}}`,
+        'N/A',
+        'N/A',
+        'N/A',
+        'Annotations'
+      ].join(separator));
+    }
+    
+    // Dashboard seed, to reproduce the figures these statistics go with
+    lines.push(['Seed', 'All groups', String(seed), 'N/A', 'N/A', 'N/A', 'Dashboard seed'].join(separator));
+    
     // Log-rank test
     if (logRankResult) {
       lines.push([
-        'Log-rank Test',
+        effectiveObservations ? `${logRankLabel} Test` : 'Log-rank Test',
         'All groups',
         logRankResult.chiSquare ? logRankResult.chiSquare.toFixed(4) : 'N/A',
         'N/A',
         'N/A',
         logRankResult.pValue.toExponential(4),
-        isPrecomputedPValue ? 'R (pre-computed)' : 'Estimated'
+        effectiveObservations ? 'Exact (patient-level)' : isPrecomputedPValue ? 'R (pre-computed)' : 'Estimated'
       ].join(separator));
     }
     
+    // Landmark the statistics are conditioned on
+    if (landmark > 0) {
+      lines.push(['Landmark (months)', 'All groups', String(landmark), 'N/A', 'N/A', 'N/A', 'Patients followed beyond landmark'].join(separator));
+    }
+    
+    // Pairwise comparisons with multiple-testing corrections
+    const pairwiseSource = effectiveObservations ? 'Exact (patient-level)' : 'Estimated';
+    pairwiseLogRank.forEach(r => {
+      const pair = `${r.group1} vs ${r.group2}`;
+      ([
+        ['', r.pValue],
+        [' (Bonferroni)', r.pValueBonferroni],
+        [' (Holm)', r.pValueHolm],
+        [' (BH FDR)', r.pValueFDR],
+      ] as [string, number][]).forEach(([suffix, p]) => {
+        lines.push([
+          `Pairwise ${pairwiseTestLabel}${suffix}`,
+          pair,
+          r.chiSquare.toFixed(4),
+          'N/A',
+          'N/A',
+          p.toExponential(4),
+          pairwiseSource
+        ].join(separator));
+      });
+    });
+    
     // Median survival for each subtype
     subtypes.forEach(subtype => {
       const median = medianSurvival[subtype];
@@ -504,6 +760,37 @@ export const SurvivalCurve = ({
       ].join(separator));
     });
     
+    // Survival (conditional on the landmark, if set) at fixed horizons
+    conditionalSurvivalRows.forEach(row => {
+      row.estimates.forEach((est, i) => {
+        if (!est) return;
+        lines.push([
+          landmark > 0 ? `Conditional Survival (+${CONDITIONAL_HORIZONS[i]} mo | alive at ${landmark} mo)` : `Survival at ${CONDITIONAL_HORIZONS[i]} mo`,
+          row.group,
+          est.survival.toFixed(4),
+          est.lowerCI !== undefined ? est.lowerCI.toFixed(4) : 'N/A',
+          est.upperCI !== undefined ? est.upperCI.toFixed(4) : 'N/A',
+          'N/A',
+          'Calculated from curve'
+        ].join(separator));
+      });
+    });
+    
+    // Restricted mean survival time and pairwise comparisons
+    if (rmst) {
+      const ci = (v: number | null) => (v !== null ? v.toFixed(4) : 'N/A');
+      const p = (v: number | null) => (v !== null ? v.toExponential(4) : 'N/A');
+      const source = `Calculated from curve (tau=${rmst.tau.toFixed(2)})`;
+      rmst.estimates.forEach(est => {
+        lines.push(['RMST (months)', est.group, est.rmst.toFixed(4), ci(est.lowerCI), ci(est.upperCI), 'N/A', source].join(separator));
+      });
+      rmst.comparisons.forEach(c => {
+        const pair = `${c.group} vs ${c.reference}`;
+        lines.push(['RMST Difference (months)', pair, c.difference.toFixed(4), ci(c.differenceLowerCI), ci(c.differenceUpperCI), p(c.differencePValue), source].join(separator));
+        lines.push(['RMST Ratio', pair, c.ratio.toFixed(4), ci(c.ratioLowerCI), ci(c.ratioUpperCI), p(c.ratioPValue), source].join(separator));
+      });
+    }
+    
     // Cox PH results
     if (coxPHResult) {
       lines.push([
@@ -513,7 +800,7 @@ export const SurvivalCurve = ({
         'N/A',
         'N/A',
         'N/A',
-        isPrecomputedCoxPH ? 'R (pre-computed)' : 'Estimated'
+        coxPHSource
       ].join(separator));
       
       coxPHResult.groups.forEach(g => {
@@ -524,7 +811,7 @@ export const SurvivalCurve = ({
           g.lowerCI.toFixed(4),
           g.upperCI.toFixed(4),
           g.pValue.toExponential(4),
-          isPrecomputedCoxPH ? 'R (pre-computed)' : 'Estimated'
+          coxPHSource
         ].join(separator));
       });
       
@@ -535,8 +822,60 @@ export const SurvivalCurve = ({
         'N/A',
         'N/A',
         coxPHResult.waldTest.pValue.toExponential(4),
-        isPrecomputedCoxPH ? 'R (pre-computed)' : 'Estimated'
+        coxPHSource
       ].join(separator));
+
+      // Score and likelihood ratio tests are only available from exact fits
+      const extraTests: [string, CoxPHResult['scoreTest']][] = [
+        ['Score (Log-rank) Test', 'scoreTest' in coxPHResult ? coxPHResult.scoreTest : undefined],
+        ['Likelihood Ratio Test', 'likelihoodRatioTest' in coxPHResult ? coxPHResult.likelihoodRatioTest : undefined],
+      ];
+      extraTests.forEach(([label, test]) => {
+        if (!test) return;
+        lines.push([
+          label,
+          'All groups',
+          test.chiSquare.toFixed(4),
+          'N/A',
+          'N/A',
+          test.pValue.toExponential(4),
+          coxPHSource
+        ].join(separator));
+      });
+    }
+    
+    // Competing risks: Gray's test and Fine-Gray subdistribution hazard ratios
+    if (competingRisks) {
+      const crSource = 'Competing risks (patient-level)';
+      lines.push([
+        'Competing Risks Status',
+        'All groups',
+        `time=${activeCompetingSpec.timeColumn}; status=${activeCompetingSpec.statusColumn}; event in {${activeCompetingSpec.eventValues.join('|')}}; competing in {${activeCompetingSpec.competingValues.join('|')}}`,
+        'N/A',
+        'N/A',
+        'N/A',
+        'Annotations'
+      ].join(separator));
+      const gray = graysTest(competingRisks.grouped, competingRisks.groupOrder);
+      if (gray) {
+        lines.push(["Gray's Test", 'All groups', gray.chiSquare.toFixed(4), 'N/A', 'N/A', gray.pValue.toExponential(4), crSource].join(separator));
+      }
+      const fineGray = fineGrayByGroup(competingRisks.grouped, competingRisks.groupOrder);
+      if (fineGray) {
+        lines.push(['Fine-Gray Reference Group', fineGray.referenceGroup, '1.00', 'N/A', 'N/A', 'N/A', crSource].join(separator));
+        fineGray.groups.forEach(g => {
+          lines.push([
+            'Fine-Gray Subdistribution HR',
+            g.subtype,
+            g.hazardRatio.toFixed(4),
+            g.lowerCI.toFixed(4),
+            g.upperCI.toFixed(4),
+            g.pValue.toExponential(4),
+            crSource
+          ].join(separator));
+        });
+        lines.push(['Fine-Gray Score Test', 'All groups', fineGray.scoreTest.chiSquare.toFixed(4), 'N/A', 'N/A', fineGray.scoreTest.pValue.toExponential(4), crSource].join(separator));
+      }
     }
     
     const content = lines.join('\n');
@@ -549,11 +888,54 @@ export const SurvivalCurve = ({
     URL.revokeObjectURL(url);
   };
 
+  // Competing-risk records grouped like the KM curves (NMF subtype or annotation column)
+  const competingRisks = useMemo(() => {
+    if (!showCumulativeIncidence || !userAnnotations) return null;
+    const records = competingRiskObservations(userAnnotations, activeCompetingSpec, sampleSubtypes)
+      .filter(r => !sampleSubtypes || sampleSubtypes[r.sample_id]);
+    const grouped = groupObservations(records, r => {
+      if (!isAnnotationGrouping) return r.subtype || undefined;
+      const value = userAnnotations.annotations[r.sample_id]?.[groupBy];
+      return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+    });
+    const known = effectiveData.map(d => d.subtype).filter(g => grouped[g]);
+    const groupOrder = [...known, ...Object.keys(grouped).filter(g => !known.includes(g)).sort()];
+    const missing = groupOrder.filter(g => !effectiveColors[g]);
+    const colors = missing.length > 0 ? { ...generateAnnotationColors(groupOrder), ...effectiveColors } : effectiveColors;
+    return { grouped, groupOrder, colors };
+  }, [showCumulativeIncidence, userAnnotations, activeCompetingSpec, sampleSubtypes, isAnnotationGrouping, groupBy, effectiveData, effectiveColors]);
+
+  // Restricted mean survival time up to tau (median is often not reached)
+  const rmst = useMemo(() => {
+    if (effectiveData.length === 0) return null;
+    // Beyond the shortest follow-up some curve is no longer observed
+    const maxTau = defaultRMSTHorizon(effectiveData);
+    const tau = rmstTau !== null ? Math.min(rmstTau, maxTau) : maxTau;
+    if (!(tau > 0)) return null;
+    const estimates = rmstByGroup(effectiveData, tau);
+    return { tau, maxTau, estimates, comparisons: compareRMST(estimates) };
+  }, [effectiveData, rmstTau]);
+
+  // Survival at fixed horizons; in landmark mode this is conditional on surviving to the landmark
+  const conditionalSurvivalRows = useMemo((): ConditionalSurvivalRow[] => {
+    return effectiveData.map(group => ({
+      group: group.subtype,
+      atRisk: group.nTotal ?? effectiveCounts[group.subtype] ?? 0,
+      estimates: CONDITIONAL_HORIZONS.map(h => survivalAt(group.timePoints, h))
+    }));
+  }, [effectiveData, effectiveCounts]);
+
   // Calculate median survival for each subtype
   const medianSurvival = useMemo(() => {
     const result: Record<string, number | null> = {};
     
     effectiveData.forEach(group => {
+      // Product-limit curves: median is the first time S(t) <= 0.5
+      if (effectiveObservations) {
+        result[group.subtype] = kaplanMeierMedian(group.timePoints);
+        return;
+      }
+      
       // Sort time points
       const sorted = [...group.timePoints].sort((a, b) => a.time - b.time);
       
@@ -593,7 +975,7 @@ export const SurvivalCurve = ({
     });
     
     return result;
-  }, [effectiveData]);
+  }, [effectiveData, effectiveObservations]);
 
   // Transform data for chart - ensure monotonic survival and proper step function
   const { chartData, eventPoints, censorPoints, subtypes, maxTime, riskTableData } = useMemo(() => {
@@ -767,6 +1149,11 @@ export const SurvivalCurve = ({
     const riskTable = riskIntervals.map(t => {
       const row: Record<string, number | string> = { time: t };
       processedData.forEach(group => {
+        // Exact counts from patient-level data
+        if (effectiveObservations) {
+          row[group.subtype] = numberAtRisk(effectiveObservations[group.subtype] || [], t);
+          return;
+        }
         // Find the last point at or before this time
         const relevantPoints = group.points.filter(p => p.time <= t);
         if (relevantPoints.length > 0) {
@@ -787,30 +1174,116 @@ export const SurvivalCurve = ({
       maxTime: maxT,
       riskTableData: riskTable
     };
-  }, [effectiveData, effectiveCounts]);
+  }, [effectiveData, effectiveCounts, effectiveObservations]);
 
-  if (!data || data.length === 0) {
+  if (!effectiveData || effectiveData.length === 0) {
     return (
       <Card className="border-0 bg-card/50 backdrop-blur-sm">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center gap-3 space-y-0">
           <CardTitle className="text-lg">Survival Analysis</CardTitle>
+          {userAnnotations && annotationColumns.length > 0 && (
+            <EndpointSelector
+              annotations={userAnnotations}
+              columns={annotationColumns}
+              endpoint={activeEndpoint}
+              onChange={changeEndpoint}
+              hasResultsEndpoint={!!rawData?.length || data.length > 0}
+            />
+          )}
         </CardHeader>
         <CardContent>
-          <div className="h-[280px] flex items-center justify-center text-muted-foreground text-sm">
-            No survival data available. Include survivalData in your JSON.
+          <div className="h-[280px] flex flex-col gap-3 items-center justify-center text-muted-foreground text-sm">
+            {landmark > 0
+              ? `No patients are still followed beyond the ${landmark}-month landmark.`
+              : activeEndpoint
+                ? `No samples with ${activeEndpoint.timeColumn} and ${activeEndpoint.eventColumn} match the NMF results.`
+                : 'No survival data available. Include survivalData or rawSurvivalData in your JSON, or choose an endpoint from your annotations.'}
+            {landmark > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setLandmarkEnabled(false)}>
+                Disable landmark
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
     );
   }
 
+  // Kaplan-Meier vs cumulative incidence, offered when a multi-state status column exists
+  const analysisModeSelect = defaultCompetingSpec && (
+    <Select value={analysisMode} onValueChange={(v) => setAnalysisMode(v as "km" | "cif")}>
+      <SelectTrigger className="w-[170px] h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="km">Kaplan-Meier</SelectItem>
+        <SelectItem value="cif">Cumulative incidence</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className="space-y-6">
+      {showCumulativeIncidence && competingRisks ? (
+        <CumulativeIncidencePanel
+          groupedObservations={competingRisks.grouped}
+          groupOrder={competingRisks.groupOrder}
+          subtypeColors={competingRisks.colors}
+          annotations={userAnnotations}
+          columns={annotationColumns}
+          spec={activeCompetingSpec}
+          onSpecChange={setCompetingSpec}
+          horizons={CONDITIONAL_HORIZONS}
+          headerControls={analysisModeSelect}
+          onExportStats={exportSurvivalStats}
+        />
+      ) : (
       <Card className="border-0 bg-card/50 backdrop-blur-sm">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <div className="flex items-center gap-3 flex-wrap">
             <CardTitle className="text-lg">Kaplan-Meier Survival Curves</CardTitle>
             
+            {analysisModeSelect}
+            
+            {/* Endpoint selector (time/event columns from annotations) */}
+            {userAnnotations && annotationColumns.length > 0 && (
+              <EndpointSelector
+                annotations={userAnnotations}
+                columns={annotationColumns}
+                endpoint={activeEndpoint}
+                onChange={changeEndpoint}
+                hasResultsEndpoint={!!rawData?.length || data.length > 0}
+              />
+            )}
+            
+            {/* Landmark mode */}
+            {allObservations && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="landmark-toggle"
+                  checked={landmarkEnabled}
+                  onCheckedChange={setLandmarkEnabled}
+                />
+                <Label htmlFor="landmark-toggle" className="text-xs text-muted-foreground">
+                  Landmark
+                </Label>
+                {landmarkEnabled && (
+                  <Input
+                    type="number"
+                    min={1}
+                    step={6}
+                    value={landmarkTime}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (Number.isFinite(value) && value > 0) setLandmarkTime(value);
+                    }}
+                    className="w-[70px] h-8 text-xs"
+                    aria-label="Landmark time (months)"
+                  />
+                )}
+              </div>
+            )}
+            
             {/* Group selector */}
             {annotationColumns.length > 0 && (
               <div className="flex items-center gap-2">
@@ -872,6 +1345,20 @@ export const SurvivalCurve = ({
                   onClearAll={clearAllCovariates}
                   onReorder={reorderCovariates}
                 />
+
+                {/* Include NMF subtype as a term in the multivariable model */}
+                {individualData && selectedCovariates.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="adjust-subtype-toggle"
+                      checked={adjustForSubtype}
+                      onCheckedChange={setAdjustForSubtype}
+                    />
+                    <Label htmlFor="adjust-subtype-toggle" className="text-xs text-muted-foreground">
+                      + Subtype
+                    </Label>
+                  </div>
+                )}
                 
                 {/* Forward Selection - works on all candidates */}
                 <TooltipProvider>
@@ -936,7 +1423,7 @@ export const SurvivalCurve = ({
                 </TooltipProvider>
 
                 {/* Cross-Validation */}
-                {selectedCovariates.length >= 1 && (
+                {selectedCovariates.length >= 1 && individualData && (
                   <TooltipProvider>
                     <UITooltip>
                       <TooltipTrigger asChild>
@@ -944,14 +1431,14 @@ export const SurvivalCurve = ({
                           variant="outline"
                           size="sm"
                           className="h-8 text-xs"
-                          onClick={runCrossValidation}
+                          onClick={() => runCrossValidation()}
                         >
                           <BarChart3 className="h-3.5 w-3.5 mr-1" />
-                          5-fold CV
+                          Validate
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Estimate out-of-sample concordance with 5-fold cross-validation</p>
+                        <p>Optimism-corrected C-index and calibration slope ({VALIDATION_METHOD_LABELS[validationOptions.method]}, seed {validationOptions.seed})</p>
                       </TooltipContent>
                     </UITooltip>
                   </TooltipProvider>
@@ -959,6 +1446,47 @@ export const SurvivalCurve = ({
               </div>
             )}
             
+            {/* Test selector (weighted / trend / stratified tests need patient-level data) */}
+            {effectiveObservations && effectiveData.length > 1 && (
+              <div className="flex items-center gap-1">
+                <Select value={logRankMethod} onValueChange={(v) => setLogRankMethod(v as LogRankWeighting | "trend")}>
+                  <SelectTrigger className="w-[190px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LOG_RANK_WEIGHTING_LABELS) as LogRankWeighting[]).map(w => (
+                      <SelectItem key={w} value={w}>{LOG_RANK_WEIGHTING_LABELS[w]}</SelectItem>
+                    ))}
+                    <SelectItem value="trend" disabled={effectiveData.length < 3}>Log-rank test for trend</SelectItem>
+                  </SelectContent>
+                </Select>
+                {logRankMethod === "fleming-harrington" && (
+                  <>
+                    <Label htmlFor="fh-rho" className="text-xs text-muted-foreground">ρ</Label>
+                    <Input
+                      id="fh-rho"
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={fhRho}
+                      onChange={(e) => setFhRho(Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="w-[56px] h-8 text-xs"
+                    />
+                    <Label htmlFor="fh-gamma" className="text-xs text-muted-foreground">γ</Label>
+                    <Input
+                      id="fh-gamma"
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={fhGamma}
+                      onChange={(e) => setFhGamma(Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="w-[56px] h-8 text-xs"
+                    />
+                  </>
+                )}
+              </div>
+            )}
+            
             {logRankResult && (
               <TooltipProvider>
                 <UITooltip>
@@ -967,12 +1495,17 @@ export const SurvivalCurve = ({
                       variant={logRankResult.pValue < 0.05 ? "default" : "secondary"}
                       className={`cursor-help ${logRankResult.pValue < 0.05 ? "bg-green-600 hover:bg-green-700" : ""}`}
                     >
-                      {isPrecomputedPValue ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
-                      Log-rank: {formatPValue(logRankResult.pValue)}
+                      {effectiveObservations ? <Sigma className="h-3 w-3 mr-1" /> : isPrecomputedPValue ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
+                      {!effectiveObservations ? 'Log-rank' : logRankMethod === "trend" ? 'Trend' : LOG_RANK_WEIGHTING_LABELS[logRankMethod].split(' ')[0]}: {formatPValue(logRankResult.pValue)}
                     </Badge>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>{isPrecomputedPValue ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}</p>
+                    {effectiveObservations && (
+                      <p className="font-semibold">
+                        {logRankLabel}: χ² = {logRankResult.chiSquare.toFixed(2)}, df = {'degreesOfFreedom' in logRankResult ? logRankResult.degreesOfFreedom : '—'}
+                      </p>
+                    )}
+                    <p>{effectiveObservations ? 'Computed from patient-level survival times' : isPrecomputedPValue ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}</p>
                   </TooltipContent>
                 </UITooltip>
               </TooltipProvider>
@@ -1008,7 +1541,7 @@ export const SurvivalCurve = ({
                 tick={{ fontSize: 11 }}
                 tickLine={false}
                 axisLine={{ stroke: "hsl(var(--border))" }}
-                label={{ value: "Time (months)", position: "insideBottom", offset: -15, fontSize: 12 }}
+                label={{ value: landmark > 0 ? `Months since ${landmark}-month landmark` : "Time (months)", position: "insideBottom", offset: -15, fontSize: 12 }}
                 tickFormatter={(value) => value.toFixed(0)}
               />
               <YAxis
@@ -1245,6 +1778,14 @@ export const SurvivalCurve = ({
           </div>
         )}
         
+        {/* Pairwise log-rank matrix */}
+        <PairwiseLogRankMatrix
+          results={pairwiseLogRank}
+          groups={effectiveData.map(d => d.subtype)}
+          subtypeColors={effectiveColors}
+          testLabel={pairwiseTestLabel}
+        />
+        
         {/* Summary statistics */}
         <div className="mt-4 space-y-3">
           {/* Median survival times */}
@@ -1277,15 +1818,30 @@ export const SurvivalCurve = ({
                   <UITooltip>
                     <TooltipTrigger asChild>
                       <Badge variant="outline" className="cursor-help text-xs">
-                        {isPrecomputedCoxPH ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
-                        {isPrecomputedCoxPH ? 'R' : 'Est.'}
+                        {isExactCoxPH ? <Sigma className="h-3 w-3 mr-1" /> : isPrecomputedCoxPH ? <Database className="h-3 w-3 mr-1" /> : <Calculator className="h-3 w-3 mr-1" />}
+                        {isExactCoxPH ? 'Exact' : isPrecomputedCoxPH ? 'R' : 'Est.'}
                       </Badge>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>{isPrecomputedCoxPH ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}</p>
+                      <p>
+                        {isExactCoxPH
+                          ? 'Partial-likelihood fit (Newton-Raphson) on patient-level data'
+                          : isPrecomputedCoxPH ? 'Pre-computed from R analysis' : 'Estimated from survival curves'}
+                      </p>
                     </TooltipContent>
                   </UITooltip>
                 </TooltipProvider>
+                {isExactCoxPH && (
+                  <Select value={tieMethod} onValueChange={(v) => setTieMethod(v as TieMethod)}>
+                    <SelectTrigger className="w-[130px] h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="efron">Efron ties</SelectItem>
+                      <SelectItem value="breslow">Breslow ties</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               <div className="text-xs text-muted-foreground mb-2">
                 Reference: {coxPHResult.referenceGroup}
@@ -1314,6 +1870,20 @@ export const SurvivalCurve = ({
                 df = {coxPHResult.waldTest.df}, 
                 {formatPValue(coxPHResult.waldTest.pValue)}
               </div>
+              {'scoreTest' in coxPHResult && coxPHResult.scoreTest && (
+                <div className="text-xs text-muted-foreground">
+                  Score (log-rank) test: χ² = {coxPHResult.scoreTest.chiSquare.toFixed(2)}, 
+                  df = {coxPHResult.scoreTest.df}, 
+                  {formatPValue(coxPHResult.scoreTest.pValue)}
+                </div>
+              )}
+              {'likelihoodRatioTest' in coxPHResult && coxPHResult.likelihoodRatioTest && (
+                <div className="text-xs text-muted-foreground">
+                  Likelihood ratio test: χ² = {coxPHResult.likelihoodRatioTest.chiSquare.toFixed(2)}, 
+                  df = {coxPHResult.likelihoodRatioTest.df}, 
+                  {formatPValue(coxPHResult.likelihoodRatioTest.pValue)}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1328,6 +1898,12 @@ export const SurvivalCurve = ({
             <Calculator className="h-3 w-3" />
             <span>= Estimated</span>
           </div>
+          {isExactCoxPH && (
+            <div className="flex items-center gap-1">
+              <Sigma className="h-3 w-3" />
+              <span>= Exact (patient-level)</span>
+            </div>
+          )}
           <div className="flex items-center gap-1">
             <span className="inline-block w-3 h-0.5 bg-current" />
             <span>| = Censored</span>
@@ -1345,24 +1921,57 @@ export const SurvivalCurve = ({
         </p>
       </CardContent>
     </Card>
+      )}
     
-    {/* Forest Plot */}
-    {coxPHResult && coxPHResult.groups.length > 0 && (
-      <ForestPlot
-        referenceGroup={coxPHResult.referenceGroup}
-        groups={coxPHResult.groups}
+    {/* Survival at fixed horizons (conditional in landmark mode) */}
+    <ConditionalSurvivalTable
+      rows={conditionalSurvivalRows}
+      horizons={CONDITIONAL_HORIZONS}
+      landmark={landmark}
+      subtypeColors={effectiveColors}
+    />
+    
+    {/* Restricted mean survival time */}
+    {rmst && (
+      <RMSTTable
+        estimates={rmst.estimates}
+        comparisons={rmst.comparisons}
+        tau={rmst.tau}
+        maxTau={rmst.maxTau}
+        onTauChange={setRmstTau}
         subtypeColors={effectiveColors}
-        isPrecomputed={isPrecomputedCoxPH && !isStratified}
-        title={
-          isStratified 
-            ? `Forest Plot: NMF Subtypes (stratified by ${stratifyBy})`
-            : isAnnotationGrouping 
-              ? `Forest Plot: ${groupBy}` 
-              : "Forest Plot: NMF Subtypes"
-        }
       />
     )}
     
+    {/* Forest Plot with proportional hazards diagnostics alongside */}
+    {coxPHResult && coxPHResult.groups.length > 0 && (
+      <div className={`grid gap-4 ${effectiveData.length > 1 ? 'xl:grid-cols-2' : ''}`}>
+        <ForestPlot
+          referenceGroup={coxPHResult.referenceGroup}
+          groups={coxPHResult.groups}
+          subtypeColors={effectiveColors}
+          isPrecomputed={isPrecomputedCoxPH && !isStratified}
+          isExact={isExactCoxPH}
+          title={
+            isStratified 
+              ? `Forest Plot: NMF Subtypes (stratified by ${stratifyBy})`
+              : isAnnotationGrouping 
+                ? `Forest Plot: ${groupBy}` 
+                : "Forest Plot: NMF Subtypes"
+          }
+        />
+        {effectiveData.length > 1 && (
+          <ProportionalHazardsPanel
+            result={phTest}
+            logLogCurves={logLogCurves}
+            subtypeColors={effectiveColors}
+            transform={phTransform}
+            onTransformChange={setPhTransform}
+          />
+        )}
+      </div>
+    )}
+    
     {/* Stratum-Specific Results Table */}
     {isStratified && coxPHResult && 'strataResults' in coxPHResult && (coxPHResult as StratifiedCoxPHResult).strataResults.length > 0 && (
       <StratumResultsTable
@@ -1401,14 +2010,36 @@ export const SurvivalCurve = ({
 
     {/* Cross-Validation Results */}
     {crossValidationResult && crossValidationResult.concordanceScores.length > 0 && (
-      <CrossValidationPanel result={crossValidationResult} selectedCovariates={selectedCovariates} />
+      <CrossValidationPanel
+        result={crossValidationResult}
+        selectedCovariates={selectedCovariates}
+        options={validationOptions}
+        onRun={runCrossValidation}
+      />
     )}
 
     {/* Multivariate Cox Regression Results */}
     {multivariateResult && (
       <>
         <MultivariateForestPlot result={multivariateResult} />
-        <MultivariateResultsTable result={multivariateResult} />
+        <MultivariateResultsTable
+          result={multivariateResult}
+          onReferenceLevelChange={(covariate, level) => setReferenceLevels(prev => ({ ...prev, [covariate]: level }))}
+        />
+        {multivariateResult.predictions && (
+          <>
+            <TimeDependentROCPanel
+              predictions={multivariateResult.predictions}
+              harrellC={multivariateResult.concordance}
+              unoC={multivariateResult.unoConcordance}
+            />
+            <CalibrationPanel
+              predictions={multivariateResult.predictions}
+              ties={tieMethod}
+              covariates={multivariateResult.terms?.map(t => t.name) ?? selectedCovariates}
+            />
+          </>
+        )}
       </>
     )}
   </div>
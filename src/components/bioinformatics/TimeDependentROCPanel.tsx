@@ -0,0 +1,196 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from "recharts";
+import { Download } from "lucide-react";
+import { downloadChartAsPNG, downloadRechartsAsSVG } from "@/lib/chartExport";
+import { MultivariateCoxPHResult } from "@/lib/coxphAnalysis";
+import { timeDependentROC } from "@/lib/discrimination";
+
+interface TimeDependentROCPanelProps {
+  predictions: NonNullable<MultivariateCoxPHResult['predictions']>;
+  harrellC?: number;
+  unoC?: number;
+}
+
+const DEFAULT_HORIZONS = "12, 36, 60";
+
+const HORIZON_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(25, 85%, 55%)",
+  "hsl(142, 60%, 40%)",
+  "hsl(280, 60%, 50%)",
+  "hsl(0, 70%, 50%)",
+];
+
+const parseHorizons = (text: string): number[] =>
+  Array.from(new Set(
+    text.split(/[,;\s]+/).map(v => parseFloat(v)).filter(v => Number.isFinite(v) && v > 0)
+  )).sort((a, b) => a - b);
+
+export const TimeDependentROCPanel = ({ predictions, harrellC, unoC }: TimeDependentROCPanelProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [horizonText, setHorizonText] = useState(DEFAULT_HORIZONS);
+
+  const results = useMemo(() => {
+    const time = predictions.map(p => p.time);
+    const event = predictions.map(p => p.event);
+    const risk = predictions.map(p => p.linearPredictor);
+    return parseHorizons(horizonText)
+      .map(h => timeDependentROC(time, event, risk, h))
+      .filter((r): r is NonNullable<typeof r> => r !== null);
+  }, [predictions, horizonText]);
+
+  const handleDownloadPNG = () => {
+    downloadChartAsPNG(chartRef.current, "time-dependent-roc");
+  };
+
+  const handleDownloadSVG = () => {
+    downloadRechartsAsSVG(chartRef.current, "time-dependent-roc");
+  };
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+        <div className="flex items-center gap-3 flex-wrap">
+          <CardTitle className="text-lg">Time-Dependent ROC</CardTitle>
+          <TooltipProvider>
+            {harrellC !== undefined && (
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="cursor-help">Harrell's C: {harrellC.toFixed(3)}</Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="text-xs">Share of comparable patient pairs in which the higher linear predictor had the earlier event.</p>
+                </TooltipContent>
+              </UITooltip>
+            )}
+            {unoC !== undefined && (
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="cursor-help">Uno's C: {unoC.toFixed(3)}</Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="text-xs">Concordance with inverse-probability-of-censoring weights, robust to heavy censoring.</p>
+                </TooltipContent>
+              </UITooltip>
+            )}
+          </TooltipProvider>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Horizons (months):</span>
+          <Input
+            value={horizonText}
+            onChange={(e) => setHorizonText(e.target.value)}
+            className="w-[120px] h-8 text-xs"
+            aria-label="ROC horizons in months"
+          />
+          <Button variant="outline" size="sm" onClick={handleDownloadPNG}>
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDownloadSVG}>
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {results.length === 0 ? (
+          <div className="h-[200px] flex items-center justify-center text-muted-foreground text-sm text-center">
+            No horizon has both patients with an event before it and patients event-free after it.
+          </div>
+        ) : (
+          <>
+            <div ref={chartRef} className="h-[340px] bg-card">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart margin={{ top: 10, right: 20, left: 10, bottom: 30 }}>
+                  <XAxis
+                    dataKey="falsePositiveRate"
+                    type="number"
+                    domain={[0, 1]}
+                    tick={{ fontSize: 11 }}
+                    tickLine={false}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                    tickFormatter={(v) => v.toFixed(1)}
+                    label={{ value: "1 − Specificity", position: "insideBottom", offset: -15, fontSize: 12 }}
+                  />
+                  <YAxis
+                    type="number"
+                    domain={[0, 1]}
+                    tick={{ fontSize: 11 }}
+                    tickLine={false}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                    tickFormatter={(v) => v.toFixed(1)}
+                    label={{ value: "Sensitivity", angle: -90, position: "insideLeft", fontSize: 12, dx: -5 }}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                      fontSize: 12,
+                    }}
+                    formatter={(value: number) => value.toFixed(3)}
+                    labelFormatter={(v: number) => `1 − Spec = ${v.toFixed(3)}`}
+                  />
+                  <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 12 }} />
+                  <ReferenceLine
+                    segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                    strokeOpacity={0.6}
+                  />
+                  {results.map((r, i) => (
+                    <Line
+                      key={r.horizon}
+                      name={`${r.horizon} mo (AUC ${r.auc.toFixed(3)})`}
+                      data={r.roc}
+                      dataKey="truePositiveRate"
+                      type="linear"
+                      stroke={HORIZON_COLORS[i % HORIZON_COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="mt-3 rounded-md border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b bg-muted/30">
+                    <th className="text-left py-1.5 px-3 font-medium">Horizon</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Cases</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Controls</th>
+                    <th className="text-right py-1.5 px-3 font-medium">AUC(t)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(r => (
+                    <tr key={r.horizon} className="border-b border-border/50">
+                      <td className="py-1.5 px-3">{r.horizon} months</td>
+                      <td className="text-right py-1.5 px-3">{r.cases}</td>
+                      <td className="text-right py-1.5 px-3">{r.controls}</td>
+                      <td className="text-right py-1.5 px-3 font-mono">{r.auc.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-3 text-center">
+          Cumulative/dynamic ROC of the model's linear predictor: cases had an event by the horizon, controls were
+          still event-free after it. Cases are weighted by the inverse probability of remaining uncensored.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
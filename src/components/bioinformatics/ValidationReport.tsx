@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertCircle, AlertTriangle, ChevronDown } from "lucide-react";
+import { ValidationIssue } from "@/lib/nmfValidation";
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Collapsible list of validation errors and warnings with where they occur
+ */
+export const ValidationReport = ({ issues, open, onOpenChange }: ValidationReportProps) => {
+  const errorCount = issues.filter(i => i.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  if (issues.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className="mt-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between text-xs">
+          <span className="flex items-center gap-2">
+            Validation report
+            {errorCount > 0 && <span className="text-destructive">{errorCount} error{errorCount === 1 ? "" : "s"}</span>}
+            {warningCount > 0 && (
+              <span className="text-amber-600 dark:text-amber-400">{warningCount} warning{warningCount === 1 ? "" : "s"}</span>
+            )}
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="max-h-56 overflow-y-auto rounded-md border divide-y text-xs">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-2 px-2 py-1.5">
+              {issue.severity === "error" ? (
+                <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-amber-500" />
+              )}
+              <div className="min-w-0">
+                <code className="block break-all text-[11px] text-muted-foreground">{issue.path}</code>
+                <p>{issue.message}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
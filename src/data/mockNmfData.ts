@@ -1,11 +1,11 @@
 // Mock NMF analysis results based on GSE62254 structure
+import { DEFAULT_SEED, deriveSeed, seededRandom } from "@/lib/random";
+
 export interface SampleResult {
   sample_id: string;
   subtype: string;
-  score_subtype_1: number;
-  score_subtype_2: number;
-  score_subtype_3: number;
-  score_subtype_4: number;
+  // NMF coefficients (H matrix column), one per factor; see NmfData.scoreSubtypes
+  scores: number[];
 }
 
 export interface MarkerGene {
@@ -25,6 +25,14 @@ export interface SurvivalDataPoint {
   timePoints: { time: number; survival: number }[];
 }
 
+// Patient-level survival record (rawSurvivalData in the R CLI output)
+export interface RawSurvivalDataPoint {
+  sample_id: string;
+  subtype: string;
+  time: number;
+  event: number;
+}
+
 export interface NmfSummary {
   dataset: string;
   n_samples: number;
@@ -109,24 +117,27 @@ export const defaultSurvivalData: SurvivalDataPoint[] = [
   },
 ];
 
-// Generate realistic sample data
-export const sampleResults: SampleResult[] = Array.from({ length: 300 }, (_, i) => {
-  const subtype = Math.floor(Math.random() * 4) + 1;
-  const scores = [0, 0, 0, 0].map((_, idx) => 
-    idx + 1 === subtype 
-      ? 0.6 + Math.random() * 0.35 
-      : Math.random() * 0.3
-  );
-  
-  return {
-    sample_id: `GSM${1523700 + i}`,
-    subtype: `Subtype_${subtype}`,
-    score_subtype_1: scores[0],
-    score_subtype_2: scores[1],
-    score_subtype_3: scores[2],
-    score_subtype_4: scores[3],
-  };
-});
+// Generate realistic sample data from the dashboard seed
+export const generateSampleResults = (seed: number = DEFAULT_SEED): SampleResult[] => {
+  const random = seededRandom(deriveSeed(seed, "samples"));
+  return Array.from({ length: 300 }, (_, i) => {
+    const subtype = Math.floor(random() * 4) + 1;
+    const scores = [0, 0, 0, 0].map((_, idx) => 
+      idx + 1 === subtype 
+        ? 0.6 + random() * 0.35 
+        : random() * 0.3
+    );
+    
+    return {
+      sample_id: `GSM${1523700 + i}`,
+      subtype: `Subtype_${subtype}`,
+      scores,
+    };
+  });
+};
+
+// Subtype defined by each score of the mock samples
+export const defaultScoreSubtypes = ["Subtype_1", "Subtype_2", "Subtype_3", "Subtype_4"];
 
 // Marker genes per subtype
 const subtypeGeneSignatures: Record<string, string[]> = {
@@ -136,18 +147,22 @@ const subtypeGeneSignatures: Record<string, string[]> = {
   "Subtype_4": ["PTPRC", "CD3D", "CD8A", "GZMA", "PRF1", "IFNG", "CD4", "FOXP3", "IL2RA", "CTLA4"],
 };
 
-export const markerGenes: MarkerGene[] = Object.entries(subtypeGeneSignatures).flatMap(
-  ([subtype, genes]) => genes.map((gene, idx) => ({
-    gene,
-    weight: 1 - idx * 0.08 + Math.random() * 0.05,
-    subtype,
-  }))
-);
+export const generateMarkerGenes = (seed: number = DEFAULT_SEED): MarkerGene[] => {
+  const random = seededRandom(deriveSeed(seed, "markers"));
+  return Object.entries(subtypeGeneSignatures).flatMap(
+    ([subtype, genes]) => genes.map((gene, idx) => ({
+      gene,
+      weight: 1 - idx * 0.08 + random() * 0.05,
+      subtype,
+    }))
+  );
+};
 
 // Heatmap expression data (genes x samples) - uses ALL genes and ALL samples
-export const generateHeatmapData = () => {
+export const generateHeatmapData = (seed: number = DEFAULT_SEED) => {
+  const random = seededRandom(deriveSeed(seed, "heatmap"));
   const genes = Object.values(subtypeGeneSignatures).flat(); // All genes
-  const samples = sampleResults; // All samples
+  const samples = generateSampleResults(seed); // All samples
   
   return {
     genes,
@@ -160,8 +175,8 @@ export const generateHeatmapData = () => {
       
       return samples.map(sample => {
         const isMatchingSubtype = sample.subtype === geneSubtype;
-        const baseValue = isMatchingSubtype ? 2 + Math.random() : -1 + Math.random() * 1.5;
-        return baseValue + (Math.random() - 0.5) * 0.5;
+        const baseValue = isMatchingSubtype ? 2 + random() : -1 + random() * 1.5;
+        return baseValue + (random() - 0.5) * 0.5;
       });
     }),
   };
@@ -177,8 +192,16 @@ const PALETTE = [
   "hsl(47, 96%, 53%)",
   "hsl(186, 72%, 48%)",
   "hsl(316, 72%, 55%)",
+  "hsl(0, 0%, 45%)",
+  "hsl(95, 55%, 40%)",
+  "hsl(200, 95%, 35%)",
+  "hsl(30, 60%, 35%)",
 ];
 
+// Natural order for subtype names, so Subtype_10 sorts after Subtype_9
+export const compareSubtypes = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true });
+
 export const generateSubtypeColors = (subtypes: string[]): Record<string, string> => {
   const colors: Record<string, string> = {};
   subtypes.forEach((subtype, idx) => {
@@ -0,0 +1,70 @@
+/**
+ * Sample annotation tables (TSV/CSV), as uploaded or as written by the
+ * R CLI into samples_annotation.tsv
+ */
+
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+
+export const parseDelimitedFile = (text: string): { headers: string[]; rows: string[][] } => {
+  const lines = text.trim().split(/\r?\n/);
+  if (lines.length === 0) return { headers: [], rows: [] };
+
+  // Detect delimiter (tab vs comma)
+  const firstLine = lines[0];
+  const delimiter = firstLine.includes('\t') ? '\t' : ',';
+
+  const headers = lines[0].split(delimiter).map(h => h.trim().replace(/^["']|["']$/g, ''));
+  const rows = lines.slice(1).map(line =>
+    line.split(delimiter).map(cell => cell.trim().replace(/^["']|["']$/g, ''))
+  );
+
+  return { headers, rows };
+};
+
+/**
+ * Annotation data from table text, or an error message. The sample column is
+ * the first one matching enough of sampleIds, otherwise the first column.
+ */
+export function parseAnnotationText(text: string, sampleIds?: string[]): AnnotationData | string {
+  const { headers, rows } = parseDelimitedFile(text);
+
+  if (headers.length < 2 || rows.length < 1) {
+    return "Annotation file must have at least 2 columns";
+  }
+
+  // Find which column matches sample IDs (if provided)
+  let sampleColIndex = 0; // Default to first column
+
+  if (sampleIds && sampleIds.length > 0) {
+    for (let i = 0; i < headers.length; i++) {
+      const colValues = rows.map(row => row[i]);
+      const matchCount = sampleIds.filter(s => colValues.includes(s)).length;
+      if (matchCount > sampleIds.length * 0.3) {
+        sampleColIndex = i;
+        break;
+      }
+    }
+  }
+
+  const sampleColumn = headers[sampleColIndex];
+  const annotationColumns = headers.filter((_, i) => i !== sampleColIndex);
+  const annotations: Record<string, Record<string, string>> = {};
+
+  for (const row of rows) {
+    const sampleId = row[sampleColIndex];
+    if (!sampleId) continue;
+
+    annotations[sampleId] = {};
+    headers.forEach((col, i) => {
+      if (i !== sampleColIndex) {
+        annotations[sampleId][col] = row[i] || "";
+      }
+    });
+  }
+
+  return {
+    sampleColumn,
+    annotations,
+    columns: annotationColumns,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Calibration of Cox model survival predictions
+ *
+ * Predicted survival S(t | x) = exp(-H0(t) * exp(lp)) uses the model's
+ * baseline cumulative hazard. Patients are binned by predicted risk at a
+ * horizon and the mean prediction in each bin is compared with the bin's
+ * Kaplan-Meier estimate. Overall accuracy is summarised by the IPCW Brier
+ * score (Graf et al. 1999) and its integral over time, as in R's pec.
+ */
+
+import { SurvivalTimePoint } from "@/components/bioinformatics/SurvivalCurve";
+import { baselineCumulativeHazard, TieMethod } from "@/lib/coxRegression";
+import { censoringSurvivalBefore, kaplanMeier, survivalAt } from "@/lib/kaplanMeier";
+
+export interface SurvivalPrediction {
+  time: number;
+  event: number;
+  linearPredictor: number;
+}
+
+export interface CalibrationGroup {
+  group: number; // 1 = lowest predicted risk
+  n: number;
+  events: number;
+  predicted: number; // mean predicted survival at the horizon
+  observed: number | null; // KM survival at the horizon (null beyond follow-up)
+  lowerCI?: number;
+  upperCI?: number;
+  observedCurve: SurvivalTimePoint[];
+  predictedCurve: { time: number; survival: number }[];
+}
+
+export interface BrierScoreResult {
+  horizon: number; // integration limit
+  integratedBrier: number;
+  // Same score for the covariate-free Kaplan-Meier prediction
+  referenceIntegratedBrier: number;
+  curve: { time: number; brier: number; reference: number }[];
+}
+
+/**
+ * Predicted survival curves for a fitted Cox model
+ */
+export function coxSurvivalPredictor(
+  predictions: SurvivalPrediction[],
+  ties: TieMethod = 'efron'
+): (linearPredictor: number, time: number) => number {
+  const baseline = baselineCumulativeHazard(
+    predictions.map(p => p.time),
+    predictions.map(p => p.event),
+    predictions.map(p => p.linearPredictor),
+    ties
+  );
+  return (linearPredictor: number, time: number) => {
+    let hazard = 0;
+    for (let i = 0; i < baseline.time.length && baseline.time[i] <= time; i++) {
+      hazard = baseline.cumulativeHazard[i];
+    }
+    return Math.exp(-hazard * Math.exp(linearPredictor));
+  };
+}
+
+/**
+ * Observed vs predicted survival at a horizon in groups of predicted risk
+ * (quantile bins of the linear predictor)
+ */
+export function calibrationByRiskGroup(
+  predictions: SurvivalPrediction[],
+  horizon: number,
+  nGroups: number = 5,
+  ties: TieMethod = 'efron'
+): CalibrationGroup[] {
+  if (predictions.length < nGroups * 2) return [];
+
+  const predict = coxSurvivalPredictor(predictions, ties);
+  const sorted = [...predictions].sort((a, b) => a.linearPredictor - b.linearPredictor);
+  const eventTimes = Array.from(new Set(predictions.filter(p => p.event).map(p => p.time))).sort((a, b) => a - b);
+
+  return Array.from({ length: nGroups }, (_, g) => {
+    const members = sorted.slice(
+      Math.floor((g * sorted.length) / nGroups),
+      Math.floor(((g + 1) * sorted.length) / nGroups)
+    );
+    const observedCurve = kaplanMeier(members);
+    const observed = survivalAt(observedCurve, horizon);
+    const meanPrediction = (t: number) =>
+      members.reduce((sum, m) => sum + predict(m.linearPredictor, t), 0) / members.length;
+
+    return {
+      group: g + 1,
+      n: members.length,
+      events: members.filter(m => m.event).length,
+      predicted: meanPrediction(horizon),
+      observed: observed?.survival ?? null,
+      lowerCI: observed?.lowerCI,
+      upperCI: observed?.upperCI,
+      observedCurve,
+      predictedCurve: [0, ...eventTimes].map(t => ({ time: t, survival: meanPrediction(t) }))
+    };
+  });
+}
+
+/**
+ * IPCW Brier score at each event time up to tau and its integral divided
+ * by tau, for the Cox predictions and for the pooled Kaplan-Meier curve
+ */
+export function integratedBrierScore(
+  predictions: SurvivalPrediction[],
+  tau: number,
+  ties: TieMethod = 'efron'
+): BrierScoreResult | null {
+  const times = Array.from(new Set(predictions.filter(p => p.event && p.time <= tau).map(p => p.time))).sort((a, b) => a - b);
+  if (times.length === 0) return null;
+
+  const predict = coxSurvivalPredictor(predictions, ties);
+  const G = censoringSurvivalBefore(predictions);
+  const pooled = kaplanMeier(predictions);
+
+  // Graf's weights: events by t count with 1 / G(T_i-), survivors with 1 / G(t)
+  const brierAt = (t: number, survivalOf: (p: SurvivalPrediction) => number) => {
+    const gt = G(t, true);
+    let sum = 0;
+    predictions.forEach(p => {
+      const s = survivalOf(p);
+      if (p.time <= t && p.event) {
+        const g = G(p.time);
+        if (g > 0) sum += (s * s) / g;
+      } else if (p.time > t && gt > 0) {
+        sum += ((1 - s) * (1 - s)) / gt;
+      }
+    });
+    return sum / predictions.length;
+  };
+
+  const curve = times.map(t => {
+    const km = survivalAt(pooled, t)?.survival ?? 0;
+    return {
+      time: t,
+      brier: brierAt(t, p => predict(p.linearPredictor, t)),
+      reference: brierAt(t, () => km)
+    };
+  });
+
+  // Step-function integral over [0, tau]; the score is 0 before the first event
+  const integrate = (key: 'brier' | 'reference') => {
+    let area = 0;
+    curve.forEach((c, i) => {
+      const next = i + 1 < curve.length ? curve[i + 1].time : tau;
+      area += c[key] * (next - c.time);
+    });
+    return area / tau;
+  };
+
+  return {
+    horizon: tau,
+    integratedBrier: integrate('brier'),
+    referenceIntegratedBrier: integrate('reference'),
+    curve
+  };
+}
@@ -423,13 +423,20 @@ export const exportAllAsZip = async (
   charts: ChartRef[],
   format: 'png' | 'svg',
   filename: string = 'nmf-visualizations',
-  onProgress?: (progress: ExportProgress) => void
+  onProgress?: (progress: ExportProgress) => void,
+  settings?: Record<string, string | number>
 ): Promise<void> => {
   const zip = new JSZip();
   const folder = zip.folder(filename);
   
   if (!folder) return;
 
+  // Record the settings (e.g. random seed) needed to reproduce the figures
+  if (settings) {
+    const lines = Object.entries(settings).map(([key, value]) => `${key}\t${value}`);
+    folder.file('analysis-settings.tsv', ['setting\tvalue', ...lines].join('\n'));
+  }
+
   const validCharts = charts.filter(c => c.ref);
   const total = validCharts.length;
 
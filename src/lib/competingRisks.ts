@@ -0,0 +1,434 @@
+/**
+ * Competing risks analysis on patient-level data
+ *
+ * When subjects can fail from several causes (e.g. recurrence vs death without
+ * recurrence), 1 - KM overstates the probability of the event of interest.
+ * This module provides:
+ *  - Aalen-Johansen cumulative incidence functions (CIF) with delta-method
+ *    standard errors (Marubini & Valsecchi) and log(-log) confidence limits
+ *  - Fine-Gray subdistribution hazard regression, fitted as a weighted Cox
+ *    model on counting-process data like R's survival::finegray + coxph
+ *  - Gray's K-sample test of equal cumulative incidence (rho = 0, as the
+ *    default of cmprsk::cuminc), with the variance from the martingale
+ *    representation of each group's cumulative incidence estimate
+ *  - the score test of the Fine-Gray model for group membership
+ */
+
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import { fitCoxPH, invertMatrix, quadraticForm, CoxModelTest, TieMethod } from "@/lib/coxRegression";
+import { chiSquarePValue, zCritical } from "@/lib/distributions";
+import { isMissingValue } from "@/lib/designMatrix";
+import { kaplanMeier } from "@/lib/kaplanMeier";
+import { eventColumnCandidates, eventValueCounts, timeColumnCandidates } from "@/lib/survivalEndpoint";
+
+// 0 = censored, 1 = event of interest, 2 = competing event
+export type CompetingRiskStatus = 0 | 1 | 2;
+
+export interface CompetingRiskObservation {
+  time: number;
+  status: CompetingRiskStatus;
+}
+
+// Maps a multi-state annotation column onto censored / event / competing
+export interface CompetingRiskSpec {
+  timeColumn: string;
+  statusColumn: string;
+  eventValues: string[];     // values counted as the event of interest
+  competingValues: string[]; // values counted as a competing event; unmapped values are censored
+}
+
+export interface CumulativeIncidencePoint {
+  time: number;
+  incidence: number;          // CIF of the event of interest
+  competingIncidence: number; // CIF of the competing event
+  stdErr: number;
+  lowerCI: number;
+  upperCI: number;
+  atRisk: number;
+  events: number;
+  competingEvents: number;
+}
+
+export interface FineGrayResult {
+  referenceGroup: string;
+  groups: Array<{
+    subtype: string;
+    hazardRatio: number;
+    lowerCI: number;
+    upperCI: number;
+    pValue: number;
+    coefficient: number;
+    se: number;
+  }>;
+  waldTest: CoxModelTest;
+  // Fine-Gray score test of equal cumulative incidence across groups
+  scoreTest: CoxModelTest;
+  nEvents: number;
+  nCompeting: number;
+}
+
+// Column names that usually hold a multi-state follow-up status
+const STATUS_COLUMN_PATTERN = /status|state|event|outcome/i;
+
+/**
+ * Columns usable as a multi-state status: integer codes with at least three
+ * distinct values (e.g. censored / relapse / death without relapse), listing
+ * status-like names first
+ */
+export function competingRiskStatusCandidates(annotations: AnnotationData, columns: string[]): string[] {
+  const candidates = eventColumnCandidates(annotations, columns).filter(col => {
+    const values = eventValueCounts(annotations, col).map(v => v.value);
+    return values.length >= 3 && values.every(v => /^-?\d+$/.test(v));
+  });
+  return [
+    ...candidates.filter(col => STATUS_COLUMN_PATTERN.test(col)),
+    ...candidates.filter(col => !STATUS_COLUMN_PATTERN.test(col))
+  ];
+}
+
+/**
+ * Initial mapping for a status column. Code meanings differ between cohorts,
+ * so no code is mapped and every sample counts as censored until the user
+ * picks the event and competing codes.
+ */
+export function defaultCompetingRiskSpec(
+  annotations: AnnotationData,
+  columns: string[],
+  statusColumn?: string
+): CompetingRiskSpec | null {
+  const status = statusColumn ?? competingRiskStatusCandidates(annotations, columns)[0];
+  const timeColumns = timeColumnCandidates(annotations, columns).filter(col => col !== status);
+  if (!status || timeColumns.length === 0) return null;
+
+  return {
+    timeColumn: timeColumns[0],
+    statusColumn: status,
+    eventValues: [],
+    competingValues: []
+  };
+}
+
+/**
+ * Patient-level competing-risk records from annotation columns;
+ * samples missing either value are skipped
+ */
+export function competingRiskObservations(
+  annotations: AnnotationData,
+  spec: CompetingRiskSpec,
+  sampleSubtypes?: Record<string, string>
+): (CompetingRiskObservation & { sample_id: string; subtype: string })[] {
+  const eventValues = new Set(spec.eventValues);
+  const competingValues = new Set(spec.competingValues);
+  const records: (CompetingRiskObservation & { sample_id: string; subtype: string })[] = [];
+
+  Object.entries(annotations.annotations).forEach(([sampleId, cols]) => {
+    const rawTime = cols[spec.timeColumn];
+    const rawStatus = cols[spec.statusColumn];
+    if (isMissingValue(rawTime) || isMissingValue(rawStatus)) return;
+
+    const time = parseFloat(String(rawTime));
+    if (!Number.isFinite(time) || time < 0) return;
+
+    const value = String(rawStatus).trim();
+    records.push({
+      sample_id: sampleId,
+      subtype: sampleSubtypes?.[sampleId] ?? '',
+      time,
+      status: eventValues.has(value) ? 1 : competingValues.has(value) ? 2 : 0
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Aalen-Johansen estimate of the cumulative incidence of the event of
+ * interest (and of the competing event) at each distinct event time
+ */
+export function cumulativeIncidence(
+  observations: CompetingRiskObservation[],
+  confLevel: number = 0.95
+): CumulativeIncidencePoint[] {
+  const obs = observations
+    .filter(o => Number.isFinite(o.time) && o.time >= 0)
+    .sort((a, b) => a.time - b.time);
+  if (obs.length === 0) return [];
+
+  // Event-time summaries: n at risk, cause-1 and cause-2 events, S(t-)
+  const steps: { time: number; n: number; d1: number; d2: number; survivalBefore: number; incidence: number; competing: number }[] = [];
+  let atRisk = obs.length;
+  let survival = 1;
+  let incidence = 0;
+  let competing = 0;
+  let i = 0;
+  while (i < obs.length) {
+    const time = obs[i].time;
+    let d1 = 0;
+    let d2 = 0;
+    let leaving = 0;
+    while (i < obs.length && obs[i].time === time) {
+      if (obs[i].status === 1) d1++;
+      else if (obs[i].status === 2) d2++;
+      leaving++;
+      i++;
+    }
+    if (d1 + d2 > 0) {
+      incidence += (survival * d1) / atRisk;
+      competing += (survival * d2) / atRisk;
+      steps.push({ time, n: atRisk, d1, d2, survivalBefore: survival, incidence, competing });
+      survival *= 1 - (d1 + d2) / atRisk;
+    }
+    atRisk -= leaving;
+  }
+
+  const z = zCritical(confLevel);
+  return steps.map((step, m) => {
+    const F = step.incidence;
+    let variance = 0;
+    for (let j = 0; j <= m; j++) {
+      const s = steps[j];
+      const d = s.d1 + s.d2;
+      const diff = F - s.incidence;
+      if (s.n > d) variance += (diff * diff * d) / (s.n * (s.n - d));
+      variance += (s.survivalBefore * s.survivalBefore * s.d1 * (s.n - s.d1)) / (s.n ** 3);
+      variance -= (2 * diff * s.survivalBefore * s.d1) / (s.n * s.n);
+    }
+    const stdErr = Math.sqrt(Math.max(0, variance));
+
+    // log(-log) transformed limits keep the interval inside (0, 1)
+    let lowerCI = F;
+    let upperCI = F;
+    if (F > 0 && F < 1 && stdErr > 0) {
+      const a = (z * stdErr) / (F * Math.log(F));
+      lowerCI = Math.pow(F, Math.exp(-a));
+      upperCI = Math.pow(F, Math.exp(a));
+    }
+
+    return {
+      time: step.time,
+      incidence: F,
+      competingIncidence: step.competing,
+      stdErr,
+      lowerCI,
+      upperCI,
+      atRisk: step.n,
+      events: step.d1,
+      competingEvents: step.d2,
+    };
+  });
+}
+
+/**
+ * Cumulative incidence (with its confidence limits) at time t;
+ * null beyond the group's follow-up, where the CIF is not estimable
+ */
+export function cumulativeIncidenceAt(
+  points: CumulativeIncidencePoint[],
+  time: number,
+  maxFollowUp: number
+): { incidence: number; lowerCI: number; upperCI: number } | null {
+  if (time > maxFollowUp) return null;
+
+  let current: CumulativeIncidencePoint | null = null;
+  for (const p of points) {
+    if (p.time > time) break;
+    current = p;
+  }
+  if (!current) return { incidence: 0, lowerCI: 0, upperCI: 0 };
+  return { incidence: current.incidence, lowerCI: current.lowerCI, upperCI: current.upperCI };
+}
+
+/**
+ * Gray's K-sample test of equal cumulative incidence of the event of interest
+ * across groups (Gray 1988, rho = 0). The score for group k sums, over event
+ * times, d1_k - d1 * R_k / sum(R), where R_k = Y_k (1 - F_k(t-)) / S_k(t-) is
+ * the subdistribution risk set. Its covariance is estimated per group from
+ * the cause-specific counting processes, and the statistic z' V^-1 z over the
+ * first K - 1 groups is chi-square with K - 1 df.
+ */
+export function graysTest<T extends CompetingRiskObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[]
+): CoxModelTest | null {
+  const levels = groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0);
+  const nGroups = levels.length;
+  if (nGroups < 2) return null;
+  const df = nGroups - 1;
+
+  const obs = levels
+    .flatMap((level, group) => groupedObservations[level].map(o => ({ time: o.time, status: o.status, group })))
+    .filter(o => Number.isFinite(o.time) && o.time >= 0)
+    .sort((a, b) => a.time - b.time);
+  if (!obs.some(o => o.status === 1)) return null;
+
+  // Forward pass: per-group risk sets, left-continuous KM and CIF at each event time
+  const steps: {
+    atRisk: number[];
+    survivalBefore: number[];   // all-cause KM S(t-)
+    survival: number[];         // S(t)
+    incidenceBefore: number[];  // CIF F(t-)
+    d1: number[];
+    d2: number[];
+    weight: number[][];
+  }[] = [];
+  const atRisk = levels.map(level => groupedObservations[level].filter(o => Number.isFinite(o.time) && o.time >= 0).length);
+  const survival = levels.map(() => 1);
+  const incidence = levels.map(() => 0);
+  const score = new Array(df).fill(0);
+  let i = 0;
+  while (i < obs.length) {
+    const time = obs[i].time;
+    const d1 = levels.map(() => 0);
+    const d2 = levels.map(() => 0);
+    const leaving = levels.map(() => 0);
+    while (i < obs.length && obs[i].time === time) {
+      const { group, status } = obs[i];
+      if (status === 1) d1[group]++;
+      else if (status === 2) d2[group]++;
+      leaving[group]++;
+      i++;
+    }
+    if (d1.some(d => d > 0) || d2.some(d => d > 0)) {
+      const survivalBefore = [...survival];
+      const incidenceBefore = [...incidence];
+      const riskSet = atRisk.map((n, g) => (n > 0 ? (n * (1 - incidenceBefore[g])) / survivalBefore[g] : 0));
+      const totalRisk = riskSet.reduce((sum, r) => sum + r, 0);
+      const totalD1 = d1.reduce((sum, d) => sum + d, 0);
+      // weight[k][l]: contribution of group l's events to the score of group k
+      const weight = score.map((_, k) => levels.map((_, l) => (l === k ? 1 : 0) - (totalRisk > 0 ? riskSet[k] / totalRisk : 0)));
+      for (let k = 0; k < df; k++) {
+        score[k] += levels.reduce((sum, _, l) => sum + weight[k][l] * d1[l], 0);
+      }
+      levels.forEach((_, g) => {
+        if (atRisk[g] === 0) return;
+        incidence[g] += (survivalBefore[g] * d1[g]) / atRisk[g];
+        survival[g] *= 1 - (d1[g] + d2[g]) / atRisk[g];
+      });
+      steps.push({ atRisk: [...atRisk], survivalBefore, survival: [...survival], incidenceBefore, d1, d2, weight });
+    }
+    leaving.forEach((n, g) => { atRisk[g] -= n; });
+  }
+
+  // Backward pass per group: each CIF's error is a sum of cause-1 and cause-2
+  // martingale increments whose coefficients depend on later event times
+  const variance = score.map(() => new Array(df).fill(0));
+  levels.forEach((_, l) => {
+    const tail = new Array(df).fill(0);    // remaining jumps of the integrated weight / (1 - F)
+    const future = new Array(df).fill(0);  // remaining weighted increments of F
+    for (let m = steps.length - 1; m >= 0; m--) {
+      const step = steps[m];
+      const n = step.atRisk[l];
+      if (n === 0) continue;
+      const c1 = tail.map((t, k) => step.weight[k][l] + (t * step.survival[l] - future[k]) / n);
+      const c2 = future.map(f => -f / n);
+      for (let k = 0; k < df; k++) {
+        for (let k2 = 0; k2 < df; k2++) {
+          variance[k][k2] += c1[k] * c1[k2] * step.d1[l] + c2[k] * c2[k2] * step.d2[l];
+        }
+      }
+      if (step.d1[l] === 0) continue;
+      for (let k = 0; k < df; k++) {
+        future[k] += (step.weight[k][l] + (tail[k] * step.survivalBefore[l]) / n) * step.d1[l];
+        tail[k] += (step.weight[k][l] * step.d1[l]) / (1 - step.incidenceBefore[l]);
+      }
+    }
+  });
+
+  const inverse = invertMatrix(variance);
+  if (!inverse) return null;
+  const chiSquare = Math.max(0, quadraticForm(score, inverse));
+  return { chiSquare, df, pValue: chiSquarePValue(chiSquare, df) };
+}
+
+/**
+ * Fine-Gray subdistribution hazard model for group membership
+ * (treatment-coded against the first group in groupOrder with data).
+ *
+ * Subjects with a competing event stay in the risk set after their event
+ * with weight G(t) / G(T_i), where G is the Kaplan-Meier estimate of the
+ * censoring distribution; the weighted data are expanded into (start, stop]
+ * intervals at each later censoring time, as in R's finegray().
+ */
+export function fineGrayByGroup<T extends CompetingRiskObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[],
+  ties: TieMethod = 'efron'
+): FineGrayResult | null {
+  const levels = groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0);
+  if (levels.length < 2) return null;
+
+  const subjects = levels.flatMap((level, levelIdx) =>
+    groupedObservations[level].map(o => ({
+      time: o.time,
+      status: o.status,
+      x: levels.slice(1).map((_, j) => (levelIdx === j + 1 ? 1 : 0))
+    }))
+  );
+  const nEvents = subjects.filter(s => s.status === 1).length;
+  const nCompeting = subjects.filter(s => s.status === 2).length;
+  if (nEvents === 0) return null;
+
+  // Censoring distribution G(t) (censoring is the "event")
+  const censoringCurve = kaplanMeier(subjects.map(s => ({ time: s.time, event: s.status === 0 ? 1 : 0 })));
+  const censoringTimes = censoringCurve.filter(p => p.events && p.events > 0).map(p => p.time);
+  const G = (t: number) => {
+    let value = 1;
+    for (const p of censoringCurve) {
+      if (p.time > t) break;
+      value = p.survival;
+    }
+    return value;
+  };
+  const lastEventTime = Math.max(...subjects.filter(s => s.status === 1).map(s => s.time));
+
+  const entry: number[] = [];
+  const exit: number[] = [];
+  const event: number[] = [];
+  const weights: number[] = [];
+  const X: number[][] = [];
+  const addRow = (start: number, stop: number, status: number, weight: number, x: number[]) => {
+    if (!(stop > start) || !(weight > 0)) return;
+    entry.push(start);
+    exit.push(stop);
+    event.push(status);
+    weights.push(weight);
+    X.push(x);
+  };
+
+  subjects.forEach(s => {
+    addRow(0, s.time, s.status === 1 ? 1 : 0, 1, s.x);
+    if (s.status !== 2 || s.time >= lastEventTime) return;
+
+    // Keep competing-event subjects at risk with decaying weight
+    const gAtEvent = G(s.time);
+    if (gAtEvent <= 0) return;
+    let start = s.time;
+    for (const c of censoringTimes) {
+      if (c <= s.time) continue;
+      if (start >= lastEventTime) break;
+      addRow(start, c, 0, G(start) / gAtEvent, s.x);
+      start = c;
+    }
+    if (start < lastEventTime) addRow(start, lastEventTime, 0, G(start) / gAtEvent, s.x);
+  });
+
+  const fit = fitCoxPH(exit, event, X, { ties, weights, entry });
+  if (!fit) return null;
+
+  return {
+    referenceGroup: levels[0],
+    groups: levels.slice(1).map((subtype, j) => ({
+      subtype,
+      hazardRatio: fit.hazardRatios[j],
+      lowerCI: fit.lowerCI[j],
+      upperCI: fit.upperCI[j],
+      pValue: fit.pValues[j],
+      coefficient: fit.coefficients[j],
+      se: fit.se[j]
+    })),
+    waldTest: fit.waldTest,
+    scoreTest: fit.scoreTest,
+    nEvents,
+    nCompeting
+  };
+}
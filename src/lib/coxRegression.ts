@@ -0,0 +1,492 @@
+/**
+ * Exact Cox proportional hazards regression on patient-level survival data
+ *
+ * Maximizes the partial likelihood by Newton-Raphson with step halving,
+ * handling tied event times with the Breslow or Efron approximation and
+ * optional stratification (separate baseline hazard per stratum), case
+ * weights and (start, stop] counting-process data.
+ * Mirrors the behaviour of R's survival::coxph: covariates are centered
+ * internally, convergence uses a relative log-likelihood tolerance of 1e-9,
+ * and the variance is the inverse of the observed information matrix.
+ */
+
+import { chiSquarePValue, normalTwoSidedPValue, zCritical } from "@/lib/distributions";
+
+export type TieMethod = 'breslow' | 'efron';
+
+export interface CoxFitOptions {
+  ties?: TieMethod;
+  strata?: (string | number)[];
+  weights?: number[];
+  // Entry (start) times for (start, stop] counting-process data; subjects
+  // are only at risk at times t with entry < t <= time
+  entry?: number[];
+  maxIter?: number;
+  tolerance?: number;
+}
+
+export interface CoxModelTest {
+  chiSquare: number;
+  df: number;
+  pValue: number;
+}
+
+export interface CoxFit {
+  coefficients: number[];
+  se: number[];
+  zScores: number[];
+  pValues: number[];
+  hazardRatios: number[];
+  lowerCI: number[];
+  upperCI: number[];
+  variance: number[][];
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  waldTest: CoxModelTest;
+  scoreTest: CoxModelTest;
+  likelihoodRatioTest: CoxModelTest;
+  iterations: number;
+  converged: boolean;
+  n: number;
+  nEvents: number;
+  ties: TieMethod;
+  // Column means used for internal centering
+  means: number[];
+}
+
+interface PartialLikelihood {
+  logLikelihood: number;
+  gradient: number[];
+  information: number[][];
+}
+
+/**
+ * Invert a symmetric positive-definite matrix by Gauss-Jordan elimination
+ * with partial pivoting. Returns null when the matrix is (numerically) singular.
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(1e-300, ...matrix.map((row, i) => Math.abs(row[i])));
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12 * scale) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const pv = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= pv;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * Quadratic form v' M v
+ */
+export function quadraticForm(v: number[], m: number[][]): number {
+  let total = 0;
+  for (let i = 0; i < v.length; i++) {
+    for (let j = 0; j < v.length; j++) {
+      total += v[i] * m[i][j] * v[j];
+    }
+  }
+  return total;
+}
+
+function matVec(m: number[][], v: number[]): number[] {
+  return m.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+}
+
+interface RiskSetBlock {
+  byTime: number[];  // subjects by decreasing exit time
+  byEntry: number[]; // subjects by decreasing entry time (counting-process data only)
+}
+
+/**
+ * Order subjects by stratum, then by decreasing time, so risk sets can be
+ * accumulated in a single backward pass (subjects leave the risk set again
+ * once the pass moves below their entry time)
+ */
+function riskSetOrder(time: number[], strata?: (string | number)[], entry?: number[]): RiskSetBlock[] {
+  const blocks = new Map<string, number[]>();
+  time.forEach((_, i) => {
+    const key = strata ? String(strata[i]) : '';
+    if (!blocks.has(key)) blocks.set(key, []);
+    blocks.get(key)!.push(i);
+  });
+  return Array.from(blocks.values()).map(idx => ({
+    byTime: [...idx].sort((a, b) => time[b] - time[a]),
+    byEntry: entry ? [...idx].sort((a, b) => entry[b] - entry[a]) : [],
+  }));
+}
+
+/**
+ * Log partial likelihood with its gradient and observed information at beta
+ */
+function partialLikelihood(
+  beta: number[],
+  time: number[],
+  event: number[],
+  Z: number[][],
+  weights: number[],
+  blocks: RiskSetBlock[],
+  ties: TieMethod,
+  entry?: number[]
+): PartialLikelihood {
+  const p = beta.length;
+  const eta = Z.map(row => row.reduce((sum, x, j) => sum + x * beta[j], 0));
+  let logLikelihood = 0;
+  const gradient = new Array(p).fill(0);
+  const information = Array.from({ length: p }, () => new Array(p).fill(0));
+
+  for (const { byTime: block, byEntry } of blocks) {
+    let S0 = 0;
+    const S1 = new Array(p).fill(0);
+    const S2 = Array.from({ length: p }, () => new Array(p).fill(0));
+    let exited = 0;
+
+    let i = 0;
+    while (i < block.length) {
+      const t = time[block[i]];
+
+      // Drop subjects whose interval starts at or after t
+      while (entry && exited < byEntry.length && entry[byEntry[exited]] >= t) {
+        const k = byEntry[exited++];
+        if (time[k] <= entry[k]) continue; // empty interval, never joined
+        const r = weights[k] * Math.exp(eta[k]);
+        S0 -= r;
+        for (let a = 0; a < p; a++) {
+          S1[a] -= r * Z[k][a];
+          for (let b = 0; b <= a; b++) S2[a][b] -= r * Z[k][a] * Z[k][b];
+        }
+      }
+
+      let nDeaths = 0;
+      let deathWeight = 0;
+      let E0 = 0;
+      const E1 = new Array(p).fill(0);
+      const E2 = Array.from({ length: p }, () => new Array(p).fill(0));
+
+      // Everyone with time == t joins the risk set before events at t are scored
+      let j = i;
+      while (j < block.length && time[block[j]] === t) {
+        const k = block[j];
+        const r = weights[k] * Math.exp(eta[k]);
+        const z = Z[k];
+        S0 += r;
+        for (let a = 0; a < p; a++) {
+          S1[a] += r * z[a];
+          for (let b = 0; b <= a; b++) S2[a][b] += r * z[a] * z[b];
+        }
+        if (event[k]) {
+          nDeaths++;
+          deathWeight += weights[k];
+          logLikelihood += weights[k] * eta[k];
+          for (let a = 0; a < p; a++) gradient[a] += weights[k] * z[a];
+          E0 += r;
+          for (let a = 0; a < p; a++) {
+            E1[a] += r * z[a];
+            for (let b = 0; b <= a; b++) E2[a][b] += r * z[a] * z[b];
+          }
+        }
+        j++;
+      }
+
+      if (nDeaths > 0) {
+        if (ties === 'breslow' || nDeaths === 1) {
+          logLikelihood -= deathWeight * Math.log(S0);
+          for (let a = 0; a < p; a++) {
+            gradient[a] -= deathWeight * S1[a] / S0;
+            for (let b = 0; b <= a; b++) {
+              information[a][b] += deathWeight * (S2[a][b] / S0 - (S1[a] * S1[b]) / (S0 * S0));
+            }
+          }
+        } else {
+          // Efron: the tied deaths are removed from the risk set in equal fractions
+          const meanWeight = deathWeight / nDeaths;
+          for (let k = 0; k < nDeaths; k++) {
+            const f = k / nDeaths;
+            const D0 = S0 - f * E0;
+            logLikelihood -= meanWeight * Math.log(D0);
+            for (let a = 0; a < p; a++) {
+              const D1a = S1[a] - f * E1[a];
+              gradient[a] -= meanWeight * D1a / D0;
+              for (let b = 0; b <= a; b++) {
+                const D1b = S1[b] - f * E1[b];
+                const D2 = S2[a][b] - f * E2[a][b];
+                information[a][b] += meanWeight * (D2 / D0 - (D1a * D1b) / (D0 * D0));
+              }
+            }
+          }
+        }
+      }
+
+      i = j;
+    }
+  }
+
+  for (let a = 0; a < p; a++) {
+    for (let b = a + 1; b < p; b++) information[a][b] = information[b][a];
+  }
+
+  return { logLikelihood, gradient, information };
+}
+
+/**
+ * Fit a Cox proportional hazards model.
+ *
+ * @param time  follow-up time per subject
+ * @param event 1 = event, 0 = censored
+ * @param X     design matrix (one row per subject, one column per covariate)
+ */
+export function fitCoxPH(
+  time: number[],
+  event: number[],
+  X: number[][],
+  options: CoxFitOptions = {}
+): CoxFit | null {
+  const n = time.length;
+  const p = X[0]?.length ?? 0;
+  if (n === 0 || p === 0 || event.length !== n || X.length !== n) return null;
+
+  const ties = options.ties ?? 'efron';
+  const maxIter = options.maxIter ?? 20;
+  const tolerance = options.tolerance ?? 1e-9;
+  const weights = options.weights ?? new Array(n).fill(1);
+  const nEvents = event.reduce((sum, e) => sum + (e ? 1 : 0), 0);
+  if (nEvents === 0) return null;
+
+  // Center covariates for numerical stability (does not change the estimates)
+  const means = Array.from({ length: p }, (_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+  const Z = X.map(row => row.map((x, j) => x - means[j]));
+  const blocks = riskSetOrder(time, options.strata, options.entry);
+  const evaluate = (beta: number[]) => partialLikelihood(beta, time, event, Z, weights, blocks, ties, options.entry);
+
+  let beta = new Array(p).fill(0);
+  const nullFit = evaluate(beta);
+  const nullInverse = invertMatrix(nullFit.information);
+  if (!nullInverse) return null;
+  const scoreChiSquare = quadraticForm(nullFit.gradient, nullInverse);
+
+  let current = nullFit;
+  let currentInverse = nullInverse;
+  let iterations = 0;
+  let converged = false;
+
+  for (let iter = 1; iter <= maxIter; iter++) {
+    iterations = iter;
+    let step = matVec(currentInverse, current.gradient);
+    let candidate = beta.map((b, j) => b + step[j]);
+    let next = evaluate(candidate);
+
+    // Step halving when the likelihood does not improve
+    let halvings = 0;
+    while ((!Number.isFinite(next.logLikelihood) || next.logLikelihood < current.logLikelihood - 1e-12) && halvings < 30) {
+      step = step.map(s => s / 2);
+      candidate = beta.map((b, j) => b + step[j]);
+      next = evaluate(candidate);
+      halvings++;
+    }
+    if (!Number.isFinite(next.logLikelihood)) break;
+
+    const nextInverse = invertMatrix(next.information);
+    if (!nextInverse) break;
+
+    const change = Math.abs(1 - current.logLikelihood / next.logLikelihood);
+    beta = candidate;
+    current = next;
+    currentInverse = nextInverse;
+
+    if (change <= tolerance && halvings === 0) {
+      converged = true;
+      break;
+    }
+  }
+
+  const variance = currentInverse;
+  const z = zCritical(0.95);
+  const se = variance.map((row, j) => Math.sqrt(Math.max(0, row[j])));
+  const zScores = beta.map((b, j) => b / se[j]);
+  const waldChiSquare = quadraticForm(beta, current.information);
+  const lrtChiSquare = Math.max(0, 2 * (current.logLikelihood - nullFit.logLikelihood));
+
+  return {
+    coefficients: beta,
+    se,
+    zScores,
+    pValues: zScores.map(normalTwoSidedPValue),
+    hazardRatios: beta.map(b => Math.exp(b)),
+    lowerCI: beta.map((b, j) => Math.exp(b - z * se[j])),
+    upperCI: beta.map((b, j) => Math.exp(b + z * se[j])),
+    variance,
+    logLikelihood: current.logLikelihood,
+    nullLogLikelihood: nullFit.logLikelihood,
+    waldTest: { chiSquare: waldChiSquare, df: p, pValue: chiSquarePValue(waldChiSquare, p) },
+    scoreTest: { chiSquare: scoreChiSquare, df: p, pValue: chiSquarePValue(scoreChiSquare, p) },
+    likelihoodRatioTest: { chiSquare: lrtChiSquare, df: p, pValue: chiSquarePValue(lrtChiSquare, p) },
+    iterations,
+    converged,
+    n,
+    nEvents,
+    ties,
+    means,
+  };
+}
+
+export interface SchoenfeldResiduals {
+  time: number[];        // event time of each residual, ascending
+  residuals: number[][]; // one row per event, one column per covariate
+}
+
+/**
+ * Schoenfeld residuals of a fitted model: for every event, the covariate
+ * vector of the subject minus the risk-weighted covariate mean of its risk set.
+ * Tied events share the Efron-averaged mean when the fit used Efron ties,
+ * as in R's residuals(fit, type = "schoenfeld").
+ */
+export function schoenfeldResiduals(
+  fit: CoxFit,
+  time: number[],
+  event: number[],
+  X: number[][],
+  options: Pick<CoxFitOptions, 'strata' | 'weights'> = {}
+): SchoenfeldResiduals {
+  const n = time.length;
+  const p = fit.coefficients.length;
+  const weights = options.weights ?? new Array(n).fill(1);
+  const Z = X.map(row => row.map((x, j) => x - fit.means[j]));
+  const eta = Z.map(row => row.reduce((sum, x, j) => sum + x * fit.coefficients[j], 0));
+  const rows: { time: number; residual: number[] }[] = [];
+
+  for (const { byTime: block } of riskSetOrder(time, options.strata)) {
+    let S0 = 0;
+    const S1 = new Array(p).fill(0);
+
+    let i = 0;
+    while (i < block.length) {
+      const t = time[block[i]];
+      const deaths: number[] = [];
+      let E0 = 0;
+      const E1 = new Array(p).fill(0);
+
+      let j = i;
+      while (j < block.length && time[block[j]] === t) {
+        const k = block[j];
+        const r = weights[k] * Math.exp(eta[k]);
+        S0 += r;
+        for (let a = 0; a < p; a++) S1[a] += r * Z[k][a];
+        if (event[k]) {
+          deaths.push(k);
+          E0 += r;
+          for (let a = 0; a < p; a++) E1[a] += r * Z[k][a];
+        }
+        j++;
+      }
+
+      if (deaths.length > 0) {
+        const mean = new Array(p).fill(0);
+        const d = deaths.length;
+        const fractions = fit.ties === 'efron' ? d : 1;
+        for (let k = 0; k < fractions; k++) {
+          const f = fit.ties === 'efron' ? k / d : 0;
+          const D0 = S0 - f * E0;
+          for (let a = 0; a < p; a++) mean[a] += (S1[a] - f * E1[a]) / D0 / fractions;
+        }
+        deaths.forEach(k => rows.push({ time: t, residual: Z[k].map((z, a) => z - mean[a]) }));
+      }
+
+      i = j;
+    }
+  }
+
+  rows.sort((a, b) => a.time - b.time);
+  return { time: rows.map(r => r.time), residuals: rows.map(r => r.residual) };
+}
+
+/**
+ * Log partial likelihood of the model with no covariates
+ * (used as the baseline for likelihood ratio tests and AIC)
+ */
+export function nullCoxLogLikelihood(
+  time: number[],
+  event: number[],
+  options: Pick<CoxFitOptions, 'ties' | 'strata' | 'weights' | 'entry'> = {}
+): number {
+  const n = time.length;
+  const Z = Array.from({ length: n }, () => [] as number[]);
+  const weights = options.weights ?? new Array(n).fill(1);
+  const blocks = riskSetOrder(time, options.strata, options.entry);
+  return partialLikelihood([], time, event, Z, weights, blocks, options.ties ?? 'efron', options.entry).logLikelihood;
+}
+
+/**
+ * Joint Wald test for a subset of coefficients (e.g. all dummies of one factor)
+ */
+export function waldTestSubset(fit: CoxFit, indices: number[]): CoxModelTest {
+  const b = indices.map(i => fit.coefficients[i]);
+  const v = indices.map(i => indices.map(j => fit.variance[i][j]));
+  const vInv = invertMatrix(v);
+  if (!vInv) return { chiSquare: 0, df: indices.length, pValue: 1 };
+  const chiSquare = quadraticForm(b, vInv);
+  return { chiSquare, df: indices.length, pValue: chiSquarePValue(chiSquare, indices.length) };
+}
+
+/**
+ * Baseline cumulative hazard H0(t) at each distinct event time for a fitted
+ * linear predictor (Breslow estimator, with the Efron correction for tied
+ * deaths as in R's survfit.coxph), so S(t | x) = exp(-H0(t) * exp(lp))
+ */
+export function baselineCumulativeHazard(
+  time: number[],
+  event: number[],
+  linearPredictor: number[],
+  ties: TieMethod = 'efron'
+): { time: number[]; cumulativeHazard: number[] } {
+  const order = time.map((_, i) => i).sort((a, b) => time[b] - time[a]);
+  const times: number[] = [];
+  const increments: number[] = [];
+  let riskSum = 0;
+
+  // Walk backwards in time so the risk set sum accumulates
+  let i = 0;
+  while (i < order.length) {
+    const t = time[order[i]];
+    let deaths = 0;
+    let deathRisk = 0;
+    while (i < order.length && time[order[i]] === t) {
+      const k = order[i++];
+      const r = Math.exp(linearPredictor[k]);
+      riskSum += r;
+      if (event[k]) {
+        deaths++;
+        deathRisk += r;
+      }
+    }
+    if (deaths === 0) continue;
+
+    let increment = 0;
+    if (ties === 'efron') {
+      for (let r = 0; r < deaths; r++) increment += 1 / (riskSum - (r / deaths) * deathRisk);
+    } else {
+      increment = deaths / riskSum;
+    }
+    times.push(t);
+    increments.push(increment);
+  }
+
+  times.reverse();
+  increments.reverse();
+  let cumulative = 0;
+  return { time: times, cumulativeHazard: increments.map(h => (cumulative += h)) };
+}
@@ -1,13 +1,28 @@
 /**
- * Cox Proportional Hazards (Cox PH) analysis approximation
- * Calculates hazard ratios from Kaplan-Meier survival curves
+ * Cox Proportional Hazards (Cox PH) analysis
+ * Fits exact partial-likelihood models when patient-level survival times
+ * are available (see coxRegression.ts), and otherwise falls back to
+ * approximating hazard ratios from Kaplan-Meier survival curves.
  * 
- * Note: This provides estimates from pre-computed survival curves.
- * For exact Cox PH results, use the R coxph function and include
- * the results in the JSON data.
+ * Note: The curve-based approximations are only estimates. Load
+ * rawSurvivalData (or include R coxph results in the JSON data)
+ * for exact Cox PH results.
  */
 
 import { SurvivalData, SurvivalTimePoint } from "@/components/bioinformatics/SurvivalCurve";
+import { fitCoxPH, waldTestSubset, CoxModelTest, TieMethod } from "@/lib/coxRegression";
+import { buildDesignMatrix } from "@/lib/designMatrix";
+import { groupObservations, SurvivalObservation } from "@/lib/kaplanMeier";
+import { coxZph, TimeTransform, ZphResult } from "@/lib/proportionalHazards";
+import { adjustPValues } from "@/lib/multipleTesting";
+import { harrellConcordance, unoConcordance } from "@/lib/discrimination";
+import { chiSquarePValue, normalTwoSidedPValue } from "@/lib/distributions";
+
+// Patient-level survival records used for exact partial-likelihood fits
+export interface IndividualSurvivalData {
+  observations: (SurvivalObservation & { sample_id: string; subtype?: string })[];
+  ties?: TieMethod;
+}
 
 export interface CoxPHResult {
   referenceGroup: string;
@@ -26,6 +41,11 @@ export interface CoxPHResult {
     pValue: number;
   };
   stratifiedBy?: string;
+  // Only present for exact fits on patient-level data
+  scoreTest?: CoxModelTest;
+  likelihoodRatioTest?: CoxModelTest;
+  ties?: TieMethod;
+  nEvents?: number;
 }
 
 export interface StratifiedCoxPHResult extends CoxPHResult {
@@ -52,6 +72,8 @@ export interface StratifiedCoxPHResult extends CoxPHResult {
 export interface MultivariateCoxPHResult {
   covariates: Array<{
     name: string;
+    term?: string; // originating covariate (exact fits)
+    level?: string; // dummy-coded level of a categorical covariate
     hazardRatio: number;
     lowerCI: number;
     upperCI: number;
@@ -68,6 +90,28 @@ export interface MultivariateCoxPHResult {
   };
   concordance?: number;
   logLikelihood?: number;
+  // Only present for exact fits on patient-level data
+  unoConcordance?: number;
+  // Fitted linear predictor for each complete-case sample
+  predictions?: Array<{
+    sampleId: string;
+    time: number;
+    event: number;
+    linearPredictor: number;
+  }>;
+  terms?: Array<{
+    name: string;
+    type: 'continuous' | 'categorical';
+    levels: string[];
+    reference?: string;
+    df: number;
+    chiSquare: number;
+    pValue: number;
+  }>;
+  nullLogLikelihood?: number;
+  likelihoodRatioTest?: CoxModelTest;
+  nSamples?: number;
+  nEvents?: number;
 }
 
 export interface ModelComparisonResult {
@@ -90,6 +134,7 @@ export interface ModelComparisonResult {
   };
   addedCovariates: string[];
   significantImprovement: boolean;
+  nSamples?: number;
 }
 
 export interface BackwardEliminationResult {
@@ -105,6 +150,7 @@ export interface BackwardEliminationResult {
   significantCovariates: string[];
   removedCovariates: string[];
   threshold: number;
+  nSamples?: number;
 }
 
 export interface ForwardSelectionResult {
@@ -121,6 +167,7 @@ export interface ForwardSelectionResult {
   finalCovariates: string[];
   rejectedCovariates: string[];
   threshold: number;
+  nSamples?: number;
 }
 
 export interface StepwiseSelectionResult {
@@ -138,15 +185,7 @@ export interface StepwiseSelectionResult {
   removedCovariates: string[];
   threshold: number;
   finalConcordance?: number;
-}
-
-export interface CrossValidationResult {
-  folds: number;
-  concordanceScores: number[];
-  meanConcordance: number;
-  stdConcordance: number;
-  ci95Lower: number;
-  ci95Upper: number;
+  nSamples?: number;
 }
 
 /**
@@ -221,7 +260,7 @@ export function estimateCoxPH(
     
     // Wald test p-value
     const zStat = meanLogHR / se;
-    const pValue = 2 * (1 - normalCDF(Math.abs(zStat)));
+    const pValue = normalTwoSidedPValue(zStat);
     
     groups.push({
       subtype: group.subtype,
@@ -242,7 +281,7 @@ export function estimateCoxPH(
   const chiSquare = groups.reduce((sum, g) => 
     sum + Math.pow(g.coefficient / g.se, 2), 0);
   const df = groups.length;
-  const waldPValue = 1 - chiSquareCDF(chiSquare, df);
+  const waldPValue = chiSquarePValue(chiSquare, df);
   
   return {
     referenceGroup,
@@ -256,85 +295,98 @@ export function estimateCoxPH(
 }
 
 /**
- * Standard normal CDF approximation
+ * Treatment-coded design for group membership: one 0/1 column per
+ * non-reference group, plus the stratum of each observation
  */
-function normalCDF(x: number): number {
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
+function groupDesign<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  levels: string[],
+  stratumOf?: (observation: T) => string | undefined
+): { time: number[]; event: number[]; X: number[][]; strata?: string[] } {
+  const time: number[] = [];
+  const event: number[] = [];
+  const X: number[][] = [];
+  const strata: string[] = [];
 
-  const sign = x < 0 ? -1 : 1;
-  x = Math.abs(x) / Math.sqrt(2);
-
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+  levels.forEach((level, levelIdx) => {
+    groupedObservations[level].forEach(o => {
+      const stratum = stratumOf ? stratumOf(o) : '';
+      if (stratum === undefined) return;
+      time.push(o.time);
+      event.push(o.event ? 1 : 0);
+      X.push(levels.slice(1).map((_, j) => (levelIdx === j + 1 ? 1 : 0)));
+      strata.push(stratum);
+    });
+  });
 
-  return 0.5 * (1.0 + sign * y);
+  return { time, event, X, strata: stratumOf ? strata : undefined };
 }
 
 /**
- * Chi-square CDF approximation
+ * Exact Cox PH fit of group membership from patient-level survival times.
+ * Groups are treatment-coded against the first group in groupOrder that has
+ * observations; stratumOf gives each stratum its own baseline hazard.
  */
-function chiSquareCDF(x: number, df: number): number {
-  if (x <= 0) return 0;
-  if (df <= 0) return 0;
-  
-  // Use regularized incomplete gamma function
-  return gammainc(df / 2, x / 2);
-}
+export function exactCoxPH<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[],
+  ties: TieMethod = 'efron',
+  stratumOf?: (observation: T) => string | undefined
+): CoxPHResult | null {
+  const levels = groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0);
+  if (levels.length < 2) {
+    return null;
+  }
 
-function gammainc(a: number, x: number): number {
-  if (x < 0 || a <= 0) return 0;
-  if (x === 0) return 0;
-  
-  const gln = gammaLn(a);
-  
-  if (x < a + 1) {
-    let sum = 1 / a;
-    let del = sum;
-    for (let n = 1; n <= 100; n++) {
-      del *= x / (a + n);
-      sum += del;
-      if (Math.abs(del) < Math.abs(sum) * 1e-10) break;
-    }
-    return sum * Math.exp(-x + a * Math.log(x) - gln);
-  } else {
-    let b = x + 1 - a;
-    let c = 1e30;
-    let d = 1 / b;
-    let h = d;
-    for (let i = 1; i <= 100; i++) {
-      const an = -i * (i - a);
-      b += 2;
-      d = an * d + b;
-      if (Math.abs(d) < 1e-30) d = 1e-30;
-      c = b + an / c;
-      if (Math.abs(c) < 1e-30) c = 1e-30;
-      d = 1 / d;
-      const del = d * c;
-      h *= del;
-      if (Math.abs(del - 1) < 1e-10) break;
-    }
-    return 1 - Math.exp(-x + a * Math.log(x) - gln) * h;
+  const { time, event, X, strata } = groupDesign(groupedObservations, levels, stratumOf);
+  const fit = fitCoxPH(time, event, X, { ties, strata });
+  if (!fit) {
+    return null;
   }
+
+  return {
+    referenceGroup: levels[0],
+    groups: levels.slice(1).map((subtype, j) => ({
+      subtype,
+      hazardRatio: fit.hazardRatios[j],
+      lowerCI: fit.lowerCI[j],
+      upperCI: fit.upperCI[j],
+      pValue: fit.pValues[j],
+      coefficient: fit.coefficients[j],
+      se: fit.se[j]
+    })),
+    waldTest: fit.waldTest,
+    scoreTest: fit.scoreTest,
+    likelihoodRatioTest: fit.likelihoodRatioTest,
+    ties,
+    nEvents: fit.nEvents
+  };
 }
 
-function gammaLn(x: number): number {
-  const c = [
-    76.18009172947146, -86.50532032941677, 24.01409824083091,
-    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
-  ];
-  let y = x;
-  let tmp = x + 5.5;
-  tmp -= (x + 0.5) * Math.log(tmp);
-  let ser = 1.000000000190015;
-  for (let j = 0; j < 6; j++) {
-    ser += c[j] / ++y;
+/**
+ * Proportional hazards diagnostics (scaled Schoenfeld residuals,
+ * Grambsch-Therneau test) for the same group model exactCoxPH fits
+ */
+export function exactProportionalHazardsTest<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[],
+  ties: TieMethod = 'efron',
+  transform: TimeTransform = 'km',
+  stratumOf?: (observation: T) => string | undefined
+): ZphResult | null {
+  const levels = groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0);
+  if (levels.length < 2) {
+    return null;
   }
-  return -tmp + Math.log(2.5066282746310005 * ser / x);
+
+  const { time, event, X, strata } = groupDesign(groupedObservations, levels, stratumOf);
+  const fit = fitCoxPH(time, event, X, { ties, strata });
+  if (!fit) {
+    return null;
+  }
+
+  const names = levels.slice(1).map(level => `${level} vs ${levels[0]}`);
+  return coxZph(fit, time, event, X, names, transform, { strata });
 }
 
 /**
@@ -353,12 +405,17 @@ export function stratifiedCoxPH(
   survivalData: SurvivalData[],
   stratificationMap: Record<string, string>, // sampleId -> stratumValue
   sampleSubtypes: Record<string, string>, // sampleId -> subtype
-  subtypeCounts?: Record<string, number>
+  subtypeCounts?: Record<string, number>,
+  individual?: IndividualSurvivalData
 ): StratifiedCoxPHResult | null {
   if (!survivalData || survivalData.length < 2) {
     return null;
   }
 
+  if (individual) {
+    return exactStratifiedCoxPH(survivalData, stratificationMap, sampleSubtypes, individual);
+  }
+
   // Get unique strata
   const strata = [...new Set(Object.values(stratificationMap))].sort();
   
@@ -473,7 +530,7 @@ export function stratifiedCoxPH(
     const upperCI = Math.exp(pooledLogHR + z * pooledSE);
     
     const zStat = pooledLogHR / pooledSE;
-    const pValue = 2 * (1 - normalCDF(Math.abs(zStat)));
+    const pValue = normalTwoSidedPValue(zStat);
     
     pooledHR.push({ subtype, hazardRatio: hr, lowerCI, upperCI, pValue });
     groups.push({
@@ -491,42 +548,12 @@ export function stratifiedCoxPH(
   const chiSquare = groups.reduce((sum, g) => 
     sum + Math.pow(g.coefficient / g.se, 2), 0);
   const df = groups.length;
-  const waldPValue = 1 - chiSquareCDF(chiSquare, df);
+  const waldPValue = chiSquarePValue(chiSquare, df);
   
   // Calculate interaction test (test for heterogeneity across strata)
-  // Uses Cochran's Q statistic to test if HRs vary significantly across strata
-  let interactionTest: StratifiedCoxPHResult['interactionTest'] | undefined;
-  
-  if (strataResults.length >= 2 && groups.length > 0) {
-    // For each comparison group, calculate Q statistic across strata
-    let totalQ = 0;
-    let totalDf = 0;
-    
-    Object.entries(pooledData).forEach(([subtype, data]) => {
-      if (data.weights.length < 2) return;
-      
-      const totalWeight = data.weights.reduce((a, b) => a + b, 0);
-      const pooledLogHR = data.logHRs.reduce((sum, lhr, i) => 
-        sum + lhr * data.weights[i], 0) / totalWeight;
-      
-      // Cochran's Q = Σ w_i * (logHR_i - pooledLogHR)^2
-      const Q = data.logHRs.reduce((sum, lhr, i) => 
-        sum + data.weights[i] * Math.pow(lhr - pooledLogHR, 2), 0);
-      
-      totalQ += Q;
-      totalDf += data.weights.length - 1;
-    });
-    
-    if (totalDf > 0) {
-      const interactionPValue = 1 - chiSquareCDF(totalQ, totalDf);
-      interactionTest = {
-        chiSquare: totalQ,
-        df: totalDf,
-        pValue: interactionPValue,
-        significant: interactionPValue < 0.05
-      };
-    }
-  }
+  const interactionTest = strataResults.length >= 2 && groups.length > 0
+    ? heterogeneityTest(pooledData)
+    : undefined;
   
   return {
     referenceGroup,
@@ -543,16 +570,152 @@ export function stratifiedCoxPH(
   };
 }
 
+/**
+ * Test for heterogeneity of hazard ratios across strata
+ * Uses Cochran's Q statistic to test if HRs vary significantly across strata
+ */
+function heterogeneityTest(
+  pooledData: Record<string, { logHRs: number[]; weights: number[] }>
+): StratifiedCoxPHResult['interactionTest'] | undefined {
+  // For each comparison group, calculate Q statistic across strata
+  let totalQ = 0;
+  let totalDf = 0;
+  
+  Object.values(pooledData).forEach(data => {
+    if (data.weights.length < 2) return;
+    
+    const totalWeight = data.weights.reduce((a, b) => a + b, 0);
+    const pooledLogHR = data.logHRs.reduce((sum, lhr, i) => 
+      sum + lhr * data.weights[i], 0) / totalWeight;
+    
+    // Cochran's Q = Σ w_i * (logHR_i - pooledLogHR)^2
+    const Q = data.logHRs.reduce((sum, lhr, i) => 
+      sum + data.weights[i] * Math.pow(lhr - pooledLogHR, 2), 0);
+    
+    totalQ += Q;
+    totalDf += data.weights.length - 1;
+  });
+  
+  if (totalDf === 0) return undefined;
+  
+  const interactionPValue = chiSquarePValue(totalQ, totalDf);
+  return {
+    chiSquare: totalQ,
+    df: totalDf,
+    pValue: interactionPValue,
+    significant: interactionPValue < 0.05
+  };
+}
+
+/**
+ * Stratified Cox PH on patient-level data: the pooled estimate is a true
+ * stratified partial-likelihood fit (separate baseline hazard per stratum),
+ * and per-stratum fits feed the heterogeneity test
+ */
+function exactStratifiedCoxPH(
+  survivalData: SurvivalData[],
+  stratificationMap: Record<string, string>,
+  sampleSubtypes: Record<string, string>,
+  individual: IndividualSurvivalData
+): StratifiedCoxPHResult | null {
+  const ties = individual.ties ?? 'efron';
+  const groupOrder = survivalData.map(g => g.subtype);
+  const grouped = groupObservations(
+    individual.observations,
+    o => sampleSubtypes[o.sample_id] ?? o.subtype
+  );
+  const stratumOf = (o: IndividualSurvivalData['observations'][number]) => stratificationMap[o.sample_id];
+
+  const strata = [...new Set(
+    Object.values(grouped).flat().map(stratumOf).filter((v): v is string => v !== undefined)
+  )].sort();
+
+  if (strata.length < 2) {
+    const regular = exactCoxPH(grouped, groupOrder, ties);
+    if (!regular) return null;
+
+    return {
+      ...regular,
+      stratifiedBy: undefined,
+      strataResults: [],
+      pooledHR: regular.groups.map(g => ({
+        subtype: g.subtype,
+        hazardRatio: g.hazardRatio,
+        lowerCI: g.lowerCI,
+        upperCI: g.upperCI,
+        pValue: g.pValue
+      }))
+    };
+  }
+
+  const pooled = exactCoxPH(grouped, groupOrder, ties, stratumOf);
+  if (!pooled) {
+    return null;
+  }
+
+  const strataResults: StratifiedCoxPHResult['strataResults'] = [];
+  const pooledData: Record<string, { logHRs: number[]; weights: number[] }> = {};
+  pooled.groups.forEach(g => {
+    pooledData[g.subtype] = { logHRs: [], weights: [] };
+  });
+
+  for (const stratum of strata) {
+    const stratumGrouped: typeof grouped = {};
+    let nSamples = 0;
+    Object.entries(grouped).forEach(([subtype, obs]) => {
+      stratumGrouped[subtype] = obs.filter(o => stratumOf(o) === stratum);
+      nSamples += stratumGrouped[subtype].length;
+    });
+
+    if (nSamples < 10) continue; // Skip small strata
+
+    const stratumResult = exactCoxPH(stratumGrouped, groupOrder, ties);
+    if (!stratumResult) continue;
+
+    strataResults.push({
+      stratum,
+      nSamples,
+      groups: stratumResult.groups
+    });
+
+    // Only strata sharing the overall reference group are comparable
+    if (stratumResult.referenceGroup !== pooled.referenceGroup) continue;
+    stratumResult.groups.forEach(g => {
+      if (pooledData[g.subtype] && Number.isFinite(g.se) && g.se > 0) {
+        pooledData[g.subtype].logHRs.push(g.coefficient);
+        pooledData[g.subtype].weights.push(1 / (g.se * g.se));
+      }
+    });
+  }
+
+  return {
+    ...pooled,
+    stratifiedBy: `${strata.length} strata`,
+    strataResults,
+    pooledHR: pooled.groups.map(g => ({
+      subtype: g.subtype,
+      hazardRatio: g.hazardRatio,
+      lowerCI: g.lowerCI,
+      upperCI: g.upperCI,
+      pValue: g.pValue
+    })),
+    interactionTest: strataResults.length >= 2 ? heterogeneityTest(pooledData) : undefined
+  };
+}
+
 /**
  * Multivariate Cox PH analysis
- * Includes multiple covariates simultaneously in the model
- * Uses a simplified approach that estimates independent effects
+ * Includes multiple covariates simultaneously in the model: a joint
+ * partial-likelihood fit with dummy-coded factors when patient-level data
+ * is available, otherwise a simplified approach that estimates independent effects
  */
 export function multivariateCoxPH(
   survivalData: SurvivalData[],
   covariateData: Record<string, Record<string, string | number>>, // covariate -> sampleId -> value
   sampleSubtypes: Record<string, string>,
-  subtypeCounts?: Record<string, number>
+  subtypeCounts?: Record<string, number>,
+  individual?: IndividualSurvivalData,
+  referenceLevels?: Record<string, string> // covariate -> reference level
 ): MultivariateCoxPHResult | null {
   if (!survivalData || survivalData.length < 2) {
     return null;
@@ -563,6 +726,10 @@ export function multivariateCoxPH(
     return null;
   }
 
+  if (individual) {
+    return exactMultivariateCoxPH(covariateData, covariateNames, individual, referenceLevels);
+  }
+
   const covariates: MultivariateCoxPHResult['covariates'] = [];
   
   // For each covariate, estimate its effect on survival
@@ -621,8 +788,8 @@ export function multivariateCoxPH(
         }
       }
     } else {
-      // For categorical covariates, use first value as reference
-      const referenceValue = uniqueValues[0];
+      // For categorical covariates, use the chosen (or first) value as reference
+      const referenceValue = uniqueValues.includes(referenceLevels?.[covariateName]) ? referenceLevels[covariateName] : uniqueValues[0];
       const referenceIds = Object.entries(values).filter(([, v]) => String(v) === referenceValue).map(([id]) => id);
       
       // Combine all non-reference as comparison group
@@ -666,29 +833,12 @@ export function multivariateCoxPH(
   }
   
   // Calculate adjusted p-values
-  const nTests = covariates.length;
-  
-  // Bonferroni correction
-  covariates.forEach(cov => {
-    cov.pValueBonferroni = Math.min(1, cov.pValue * nTests);
-  });
-  
-  // FDR (Benjamini-Hochberg) correction
-  const sortedByP = [...covariates].sort((a, b) => a.pValue - b.pValue);
-  sortedByP.forEach((cov, i) => {
-    const rank = i + 1;
-    cov.pValueFDR = Math.min(1, (cov.pValue * nTests) / rank);
-  });
-  
-  // Ensure FDR is monotonic (step-up procedure)
-  for (let i = sortedByP.length - 2; i >= 0; i--) {
-    sortedByP[i].pValueFDR = Math.min(sortedByP[i].pValueFDR, sortedByP[i + 1].pValueFDR);
-  }
+  adjustCovariatePValues(covariates);
   
   // Calculate overall Wald test
   const chiSquare = covariates.reduce((sum, c) => sum + Math.pow(c.coefficient / c.se, 2), 0);
   const df = covariates.length;
-  const waldPValue = 1 - chiSquareCDF(chiSquare, df);
+  const waldPValue = chiSquarePValue(chiSquare, df);
   
   // Approximate log-likelihood
   const logLikelihood = -0.5 * chiSquare;
@@ -708,6 +858,112 @@ export function multivariateCoxPH(
   };
 }
 
+/**
+ * Fill in Bonferroni and Benjamini-Hochberg adjusted p-values in place
+ */
+function adjustCovariatePValues(covariates: MultivariateCoxPHResult['covariates']): void {
+  const pValues = covariates.map(cov => cov.pValue);
+  const bonferroni = adjustPValues(pValues, 'bonferroni');
+  const fdr = adjustPValues(pValues, 'fdr');
+  covariates.forEach((cov, i) => {
+    cov.pValueBonferroni = bonferroni[i];
+    cov.pValueFDR = fdr[i];
+  });
+}
+
+/**
+ * Joint Cox PH fit of all covariates on patient-level data.
+ * Categorical covariates are dummy-coded against their reference level and
+ * continuous ones kept continuous; each covariate also gets a joint Wald test
+ * over its coefficients. Restricted to samples with complete covariate values.
+ */
+function exactMultivariateCoxPH(
+  covariateData: Record<string, Record<string, string | number>>,
+  covariateNames: string[],
+  individual: IndividualSurvivalData,
+  referenceLevels?: Record<string, string>
+): MultivariateCoxPHResult | null {
+  const observationById = new Map(individual.observations.map(o => [o.sample_id, o]));
+  const design = buildDesignMatrix([...observationById.keys()], covariateData, covariateNames, referenceLevels);
+  if (design.columns.length === 0 || design.sampleIds.length < 2) {
+    return null;
+  }
+
+  const complete = design.sampleIds.map(id => observationById.get(id)!);
+  const fit = fitCoxPH(
+    complete.map(o => o.time),
+    complete.map(o => (o.event ? 1 : 0)),
+    design.X,
+    { ties: individual.ties ?? 'efron' }
+  );
+  if (!fit) {
+    return null;
+  }
+
+  const covariates: MultivariateCoxPHResult['covariates'] = design.columns.map((c, j) => ({
+    name: c.name,
+    term: c.term,
+    level: c.level,
+    hazardRatio: fit.hazardRatios[j],
+    lowerCI: fit.lowerCI[j],
+    upperCI: fit.upperCI[j],
+    pValue: fit.pValues[j],
+    pValueBonferroni: fit.pValues[j],
+    pValueFDR: fit.pValues[j],
+    coefficient: fit.coefficients[j],
+    se: fit.se[j]
+  }));
+  adjustCovariatePValues(covariates);
+
+  const terms: MultivariateCoxPHResult['terms'] = design.terms.map(t => {
+    const test = waldTestSubset(fit, t.columns);
+    return {
+      name: t.name,
+      type: t.type,
+      levels: t.levels,
+      reference: t.reference,
+      df: test.df,
+      chiSquare: test.chiSquare,
+      pValue: test.pValue
+    };
+  });
+
+  // Discrimination of the fitted linear predictor against observed outcomes
+  const predictions = complete.map((o, i) => ({
+    sampleId: o.sample_id,
+    time: o.time,
+    event: o.event ? 1 : 0,
+    linearPredictor: design.X[i].reduce((sum, x, j) => sum + x * fit.coefficients[j], 0)
+  }));
+  const time = predictions.map(p => p.time);
+  const event = predictions.map(p => p.event);
+  const risk = predictions.map(p => p.linearPredictor);
+
+  return {
+    covariates,
+    terms,
+    waldTest: fit.waldTest,
+    logLikelihood: fit.logLikelihood,
+    concordance: harrellConcordance(time, event, risk).concordance,
+    unoConcordance: unoConcordance(time, event, risk),
+    predictions,
+    nullLogLikelihood: fit.nullLogLikelihood,
+    likelihoodRatioTest: fit.likelihoodRatioTest,
+    nSamples: fit.n,
+    nEvents: fit.nEvents
+  };
+}
+
+/**
+ * P-value for one original covariate in a fitted model: the joint test of all
+ * its coefficients when available (exact fits), otherwise its single coefficient
+ */
+function covariatePValue(model: MultivariateCoxPHResult, covariate: string): number | undefined {
+  const term = model.terms?.find(t => t.name === covariate);
+  if (term) return term.pValue;
+  return model.covariates.find(c => c.name === covariate || c.name.startsWith(covariate))?.pValue;
+}
+
 /**
  * Calculate the concordance index (C-statistic) for a Cox model
  * C-index measures the probability that predictions and outcomes are concordant
@@ -880,7 +1136,9 @@ export function compareNestedModels(
     return null;
   }
 
-  const nullLogLikelihood = nullModelResult?.logLikelihood ?? 0;
+  // Exact fits carry true partial log-likelihoods, including the empty model's
+  const isExact = fullModelResult.nullLogLikelihood !== undefined;
+  const nullLogLikelihood = nullModelResult?.logLikelihood ?? fullModelResult.nullLogLikelihood ?? 0;
   const fullLogLikelihood = fullModelResult.logLikelihood ?? -0.5 * fullModelResult.waldTest.chiSquare;
   
   const nullDf = nullModelResult?.covariates.length ?? 0;
@@ -891,8 +1149,10 @@ export function compareNestedModels(
 
   const nullChiSquare = nullModelResult?.waldTest.chiSquare ?? 0;
   const fullChiSquare = fullModelResult.waldTest.chiSquare;
-  const lrtChiSquare = Math.max(0, fullChiSquare - nullChiSquare);
-  const lrtPValue = 1 - chiSquareCDF(lrtChiSquare, dfDiff);
+  const lrtChiSquare = isExact
+    ? Math.max(0, 2 * (fullLogLikelihood - nullLogLikelihood))
+    : Math.max(0, fullChiSquare - nullChiSquare);
+  const lrtPValue = chiSquarePValue(lrtChiSquare, dfDiff);
   
   const nullAIC = -2 * nullLogLikelihood + 2 * nullDf;
   const fullAIC = -2 * fullLogLikelihood + 2 * fullDf;
@@ -902,10 +1162,28 @@ export function compareNestedModels(
     fullModel: { covariates: fullCovariates, logLikelihood: fullLogLikelihood, df: fullDf, aic: fullAIC },
     likelihoodRatioTest: { chiSquare: lrtChiSquare, df: dfDiff, pValue: lrtPValue },
     addedCovariates,
-    significantImprovement: lrtPValue < 0.05
+    significantImprovement: lrtPValue < 0.05,
+    nSamples: fullModelResult.nSamples
   };
 }
 
+/**
+ * Restrict patient-level data to samples with a value for every candidate
+ * covariate, so all models of a comparison or selection path are fitted on
+ * the same patients (as R's anova and step require)
+ */
+function sharedCompleteCases(
+  individual: IndividualSurvivalData | undefined,
+  covariateData: Record<string, Record<string, string | number>>,
+  candidateCovariates: string[]
+): IndividualSurvivalData | undefined {
+  if (!individual) return undefined;
+  const names = candidateCovariates.filter(cov => covariateData[cov]);
+  const { sampleIds } = buildDesignMatrix(individual.observations.map(o => o.sample_id), covariateData, names);
+  const complete = new Set(sampleIds);
+  return { ...individual, observations: individual.observations.filter(o => complete.has(o.sample_id)) };
+}
+
 /**
  * Stepwise model comparison by adding one covariate at a time
  */
@@ -914,10 +1192,13 @@ export function stepwiseModelComparison(
   covariateData: Record<string, Record<string, string | number>>,
   sampleSubtypes: Record<string, string>,
   orderedCovariates: string[],
-  subtypeCounts?: Record<string, number>
+  subtypeCounts?: Record<string, number>,
+  individual?: IndividualSurvivalData,
+  referenceLevels?: Record<string, string>
 ): ModelComparisonResult[] {
   const comparisons: ModelComparisonResult[] = [];
   if (orderedCovariates.length === 0) return comparisons;
+  individual = sharedCompleteCases(individual, covariateData, orderedCovariates);
 
   let previousModel: MultivariateCoxPHResult | null = null;
   
@@ -931,7 +1212,7 @@ export function stepwiseModelComparison(
       }
     });
     
-    const currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts);
+    const currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
     
     if (currentModel) {
       const comparison = compareNestedModels(previousModel, currentModel);
@@ -953,11 +1234,14 @@ export function backwardElimination(
   sampleSubtypes: Record<string, string>,
   initialCovariates: string[],
   subtypeCounts?: Record<string, number>,
-  threshold: number = 0.05
+  threshold: number = 0.05,
+  individual?: IndividualSurvivalData,
+  referenceLevels?: Record<string, string>
 ): BackwardEliminationResult {
   const steps: BackwardEliminationResult['steps'] = [];
   let currentCovariates = [...initialCovariates];
   const removedCovariates: string[] = [];
+  individual = sharedCompleteCases(individual, covariateData, initialCovariates);
   
   // Step 0: Initial full model
   let currentCovariateData: Record<string, Record<string, string | number>> = {};
@@ -967,7 +1251,7 @@ export function backwardElimination(
     }
   });
   
-  let currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts);
+  let currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
   
   if (!currentModel) {
     return {
@@ -1003,10 +1287,11 @@ export function backwardElimination(
     let maxPValue = 0;
     let maxPValueCovariate: string | null = null;
     
-    currentModel.covariates.forEach(cov => {
-      if (cov.pValue > maxPValue) {
-        maxPValue = cov.pValue;
-        maxPValueCovariate = cov.name;
+    currentCovariates.forEach(cov => {
+      const pValue = covariatePValue(currentModel, cov);
+      if (pValue !== undefined && pValue > maxPValue) {
+        maxPValue = pValue;
+        maxPValueCovariate = cov;
       }
     });
     
@@ -1027,7 +1312,7 @@ export function backwardElimination(
       }
     });
     
-    const newModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts);
+    const newModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
     
     if (!newModel) break;
     
@@ -1049,16 +1334,16 @@ export function backwardElimination(
   }
   
   // Get final significant covariates
-  const significantCovariates = currentModel.covariates
-    .filter(c => c.pValue < threshold)
-    .map(c => c.name);
+  const significantCovariates = currentCovariates
+    .filter(cov => (covariatePValue(currentModel, cov) ?? 1) < threshold);
   
   return {
     steps,
     finalCovariates: currentCovariates,
     significantCovariates,
     removedCovariates,
-    threshold
+    threshold,
+    nSamples: individual?.observations.length
   };
 }
 
@@ -1072,12 +1357,15 @@ export function forwardSelection(
   sampleSubtypes: Record<string, string>,
   candidateCovariates: string[],
   subtypeCounts?: Record<string, number>,
-  threshold: number = 0.05
+  threshold: number = 0.05,
+  individual?: IndividualSurvivalData,
+  referenceLevels?: Record<string, string>
 ): ForwardSelectionResult {
   const steps: ForwardSelectionResult['steps'] = [];
   const selectedCovariates: string[] = [];
   const rejectedCovariates: string[] = [];
   let remainingCandidates = [...candidateCovariates];
+  individual = sharedCompleteCases(individual, covariateData, candidateCovariates);
   
   // Step 0: Null model (no covariates)
   steps.push({
@@ -1110,21 +1398,19 @@ export function forwardSelection(
         }
       });
       
-      const testModel = multivariateCoxPH(survivalData, testCovariateData, sampleSubtypes, subtypeCounts);
+      const testModel = multivariateCoxPH(survivalData, testCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
       
       if (testModel) {
         // Get p-value of the newly added covariate
-        const newCovResult = testModel.covariates.find(c => 
-          c.name === candidate || c.name.startsWith(candidate)
-        );
+        const newCovPValue = covariatePValue(testModel, candidate);
         
-        if (newCovResult) {
+        if (newCovPValue !== undefined) {
           // Calculate LRT for this addition
           const comparison = compareNestedModels(previousModel, testModel);
-          const lrtPValue = comparison?.likelihoodRatioTest.pValue ?? newCovResult.pValue;
+          const lrtPValue = comparison?.likelihoodRatioTest.pValue ?? newCovPValue;
           
           // Use the minimum of LRT and Wald p-value for selection
-          const selectionPValue = Math.min(lrtPValue, newCovResult.pValue);
+          const selectionPValue = Math.min(lrtPValue, newCovPValue);
           
           if (selectionPValue < bestPValue) {
             bestPValue = selectionPValue;
@@ -1141,6 +1427,12 @@ export function forwardSelection(
       selectedCovariates.push(bestCandidate);
       remainingCandidates = remainingCandidates.filter(c => c !== bestCandidate);
       
+      // Exact fits give the empty model a real baseline AIC
+      if (stepNumber === 1 && bestModel.nullLogLikelihood !== undefined) {
+        previousAIC = -2 * bestModel.nullLogLikelihood;
+        steps[0].modelAIC = previousAIC;
+      }
+      
       const newAIC = bestModel.logLikelihood 
         ? -2 * bestModel.logLikelihood + 2 * bestModel.covariates.length
         : 0;
@@ -1170,7 +1462,8 @@ export function forwardSelection(
     steps,
     finalCovariates: selectedCovariates,
     rejectedCovariates,
-    threshold
+    threshold,
+    nSamples: individual?.observations.length
   };
 }
 
@@ -1185,13 +1478,16 @@ export function stepwiseSelection(
   candidateCovariates: string[],
   subtypeCounts?: Record<string, number>,
   entryThreshold: number = 0.05,
-  removalThreshold: number = 0.10
+  removalThreshold: number = 0.10,
+  individual?: IndividualSurvivalData,
+  referenceLevels?: Record<string, string>
 ): StepwiseSelectionResult {
   const steps: StepwiseSelectionResult['steps'] = [];
   const selectedCovariates: string[] = [];
   const addedCovariates: string[] = [];
   const removedCovariates: string[] = [];
   let remainingCandidates = [...candidateCovariates];
+  individual = sharedCompleteCases(individual, covariateData, candidateCovariates);
   
   let stepNumber = 1;
   const maxIterations = candidateCovariates.length * 3; // Prevent infinite loops
@@ -1216,15 +1512,13 @@ export function stepwiseSelection(
         }
       });
       
-      const testModel = multivariateCoxPH(survivalData, testCovariateData, sampleSubtypes, subtypeCounts);
+      const testModel = multivariateCoxPH(survivalData, testCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
       
       if (testModel) {
-        const newCovResult = testModel.covariates.find(c => 
-          c.name === candidate || c.name.startsWith(candidate)
-        );
+        const newCovPValue = covariatePValue(testModel, candidate);
         
-        if (newCovResult && newCovResult.pValue < bestPValue) {
-          bestPValue = newCovResult.pValue;
+        if (newCovPValue !== undefined && newCovPValue < bestPValue) {
+          bestPValue = newCovPValue;
           bestCandidate = candidate;
           bestModel = testModel;
         }
@@ -1264,22 +1558,18 @@ export function stepwiseSelection(
         }
       });
       
-      const currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts);
+      const currentModel = multivariateCoxPH(survivalData, currentCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
       
       if (currentModel) {
         // Find covariate with highest p-value
         let maxPValue = 0;
         let maxPValueCovariate: string | null = null;
         
-        currentModel.covariates.forEach(cov => {
-          // Find the original covariate name
-          const originalName = selectedCovariates.find(sc => 
-            cov.name === sc || cov.name.startsWith(sc)
-          );
-          
-          if (originalName && cov.pValue > maxPValue) {
-            maxPValue = cov.pValue;
-            maxPValueCovariate = originalName;
+        selectedCovariates.forEach(cov => {
+          const pValue = covariatePValue(currentModel, cov);
+          if (pValue !== undefined && pValue > maxPValue) {
+            maxPValue = pValue;
+            maxPValueCovariate = cov;
           }
         });
         
@@ -1300,7 +1590,7 @@ export function stepwiseSelection(
               }
             });
             
-            const reducedModel = multivariateCoxPH(survivalData, reducedCovariateData, sampleSubtypes, subtypeCounts);
+            const reducedModel = multivariateCoxPH(survivalData, reducedCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
             const newAIC = reducedModel?.logLikelihood 
               ? -2 * reducedModel.logLikelihood + 2 * reducedModel.covariates.length
               : 0;
@@ -1335,7 +1625,7 @@ export function stepwiseSelection(
         finalCovariateData[cov] = covariateData[cov];
       }
     });
-    const finalModel = multivariateCoxPH(survivalData, finalCovariateData, sampleSubtypes, subtypeCounts);
+    const finalModel = multivariateCoxPH(survivalData, finalCovariateData, sampleSubtypes, subtypeCounts, individual, referenceLevels);
     finalConcordance = finalModel?.concordance;
   }
   
@@ -1345,225 +1635,7 @@ export function stepwiseSelection(
     addedCovariates,
     removedCovariates,
     threshold: entryThreshold,
-    finalConcordance
-  };
-}
-
-/**
- * K-fold cross-validation for Cox model to estimate out-of-sample concordance
- * Uses stratified sampling by subtype to ensure balanced folds
- */
-export function crossValidateConcordance(
-  survivalData: SurvivalData[],
-  covariateData: Record<string, Record<string, string | number>>,
-  sampleSubtypes: Record<string, string>,
-  covariateNames: string[],
-  subtypeCounts?: Record<string, number>,
-  folds: number = 5
-): CrossValidationResult {
-  // Get all sample IDs with complete data
-  const allSampleIds: string[] = [];
-  const firstCovariate = covariateNames[0];
-  if (firstCovariate && covariateData[firstCovariate]) {
-    Object.keys(covariateData[firstCovariate]).forEach(id => {
-      // Check if this sample has all covariates
-      const hasAllCovariates = covariateNames.every(cov => 
-        covariateData[cov]?.[id] !== undefined && covariateData[cov]?.[id] !== null
-      );
-      if (hasAllCovariates && sampleSubtypes[id]) {
-        allSampleIds.push(id);
-      }
-    });
-  }
-  
-  if (allSampleIds.length < folds * 2) {
-    // Not enough samples for cross-validation
-    return {
-      folds,
-      concordanceScores: [],
-      meanConcordance: 0.5,
-      stdConcordance: 0,
-      ci95Lower: 0.5,
-      ci95Upper: 0.5
-    };
-  }
-  
-  // Stratified split by subtype
-  const subtypeGroups: Record<string, string[]> = {};
-  allSampleIds.forEach(id => {
-    const subtype = sampleSubtypes[id];
-    if (!subtypeGroups[subtype]) {
-      subtypeGroups[subtype] = [];
-    }
-    subtypeGroups[subtype].push(id);
-  });
-  
-  // Shuffle each subtype group
-  Object.values(subtypeGroups).forEach(group => {
-    for (let i = group.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [group[i], group[j]] = [group[j], group[i]];
-    }
-  });
-  
-  // Create fold assignments
-  const foldAssignments: number[] = new Array(allSampleIds.length).fill(0);
-  const sampleToIndex: Record<string, number> = {};
-  allSampleIds.forEach((id, idx) => { sampleToIndex[id] = idx; });
-  
-  Object.values(subtypeGroups).forEach(group => {
-    group.forEach((id, idx) => {
-      foldAssignments[sampleToIndex[id]] = idx % folds;
-    });
-  });
-  
-  // Perform k-fold cross-validation
-  const concordanceScores: number[] = [];
-  
-  for (let fold = 0; fold < folds; fold++) {
-    // Split into train and test
-    const trainIds: string[] = [];
-    const testIds: string[] = [];
-    
-    allSampleIds.forEach((id, idx) => {
-      if (foldAssignments[idx] === fold) {
-        testIds.push(id);
-      } else {
-        trainIds.push(id);
-      }
-    });
-    
-    if (trainIds.length < 10 || testIds.length < 5) continue;
-    
-    // Build model on training data
-    const trainCovariateData: Record<string, Record<string, string | number>> = {};
-    covariateNames.forEach(cov => {
-      trainCovariateData[cov] = {};
-      trainIds.forEach(id => {
-        if (covariateData[cov]?.[id] !== undefined) {
-          trainCovariateData[cov][id] = covariateData[cov][id];
-        }
-      });
-    });
-    
-    const trainSampleSubtypes: Record<string, string> = {};
-    trainIds.forEach(id => { trainSampleSubtypes[id] = sampleSubtypes[id]; });
-    
-    const model = multivariateCoxPH(survivalData, trainCovariateData, trainSampleSubtypes, subtypeCounts);
-    
-    if (!model) continue;
-    
-    // Calculate concordance on test set
-    // Use the learned coefficients to predict risk scores
-    const testRiskScores: { id: string; riskScore: number; subtype: string }[] = [];
-    
-    testIds.forEach(id => {
-      let riskScore = 0;
-      
-      model.covariates.forEach(cov => {
-        // Find the original covariate name
-        const originalName = covariateNames.find(cn => 
-          cov.name === cn || cov.name.startsWith(cn)
-        );
-        
-        if (originalName) {
-          const value = covariateData[originalName]?.[id];
-          if (value !== undefined && value !== null) {
-            const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-            if (!isNaN(numValue)) {
-              riskScore += cov.coefficient * numValue;
-            }
-          }
-        }
-      });
-      
-      testRiskScores.push({
-        id,
-        riskScore,
-        subtype: sampleSubtypes[id]
-      });
-    });
-    
-    // Get survival ranking
-    const subtypeMedianSurvival: Record<string, number> = {};
-    survivalData.forEach(group => {
-      const points = group.timePoints.sort((a, b) => a.time - b.time);
-      let median = points[points.length - 1]?.time || 0;
-      for (const p of points) {
-        if (p.survival <= 0.5) {
-          median = p.time;
-          break;
-        }
-      }
-      subtypeMedianSurvival[group.subtype] = median;
-    });
-    
-    // Calculate C-index on test set
-    let concordant = 0;
-    let discordant = 0;
-    let tied = 0;
-    
-    for (let i = 0; i < testRiskScores.length; i++) {
-      for (let j = i + 1; j < testRiskScores.length; j++) {
-        const a = testRiskScores[i];
-        const b = testRiskScores[j];
-        
-        const survA = subtypeMedianSurvival[a.subtype] || 0;
-        const survB = subtypeMedianSurvival[b.subtype] || 0;
-        
-        if (Math.abs(survA - survB) < 0.001) {
-          tied++;
-          continue;
-        }
-        
-        const riskDiff = a.riskScore - b.riskScore;
-        const survivalDiff = survA - survB;
-        
-        if (riskDiff === 0) {
-          tied++;
-        } else if ((riskDiff > 0 && survivalDiff < 0) || (riskDiff < 0 && survivalDiff > 0)) {
-          concordant++;
-        } else {
-          discordant++;
-        }
-      }
-    }
-    
-    const totalPairs = concordant + discordant + tied;
-    if (totalPairs > 0) {
-      const cIndex = (concordant + 0.5 * tied) / totalPairs;
-      concordanceScores.push(cIndex);
-    }
-  }
-  
-  if (concordanceScores.length === 0) {
-    return {
-      folds,
-      concordanceScores: [],
-      meanConcordance: 0.5,
-      stdConcordance: 0,
-      ci95Lower: 0.5,
-      ci95Upper: 0.5
-    };
-  }
-  
-  // Calculate mean and standard deviation
-  const mean = concordanceScores.reduce((a, b) => a + b, 0) / concordanceScores.length;
-  const variance = concordanceScores.reduce((sum, c) => sum + Math.pow(c - mean, 2), 0) / concordanceScores.length;
-  const std = Math.sqrt(variance);
-  
-  // 95% CI using t-distribution approximation
-  const se = std / Math.sqrt(concordanceScores.length);
-  const tValue = 2.776; // t(0.975, df=4) for 5 folds
-  const ci95Lower = Math.max(0, mean - tValue * se);
-  const ci95Upper = Math.min(1, mean + tValue * se);
-  
-  return {
-    folds,
-    concordanceScores,
-    meanConcordance: mean,
-    stdConcordance: std,
-    ci95Lower,
-    ci95Upper
+    finalConcordance,
+    nSamples: individual?.observations.length
   };
 }
@@ -0,0 +1,123 @@
+/**
+ * Design matrix construction for multivariable Cox regression
+ *
+ * Encodes covariates like R's model.matrix with treatment contrasts:
+ * categorical covariates get one 0/1 dummy column per non-reference level,
+ * continuous covariates enter unchanged so their hazard ratio is per unit.
+ * Only samples with a value for every covariate are kept (complete cases).
+ */
+
+import { isNumericColumn } from "@/data/mockNmfData";
+
+export type CovariateValues = Record<string, string | number>; // sampleId -> value
+
+export interface DesignTerm {
+  name: string;
+  type: 'continuous' | 'categorical';
+  levels: string[]; // categorical levels, reference first
+  reference?: string;
+  columns: number[]; // indices into DesignMatrix.columns
+}
+
+export interface DesignColumn {
+  name: string;
+  term: string;
+  level?: string;
+}
+
+export interface DesignMatrix {
+  sampleIds: string[];
+  X: number[][];
+  columns: DesignColumn[];
+  terms: DesignTerm[];
+}
+
+const MISSING_VALUES = new Set(['', 'NA', 'NaN', 'N/A', 'null']);
+
+/**
+ * Whether an annotation value should be treated as missing
+ */
+export function isMissingValue(value: string | number | undefined | null): boolean {
+  return value === undefined || value === null || MISSING_VALUES.has(String(value).trim());
+}
+
+/**
+ * Whether a covariate is modelled as continuous (mostly numeric with
+ * more than a handful of distinct values) rather than as a factor
+ */
+export function isContinuousCovariate(values: CovariateValues): boolean {
+  return isNumericColumn(Object.values(values).filter(v => !isMissingValue(v)));
+}
+
+/**
+ * Distinct levels of a categorical covariate in natural sort order
+ * (so "2" comes before "10")
+ */
+export function covariateLevels(values: (string | number)[]): string[] {
+  return [...new Set(values.map(v => String(v)))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Build the design matrix for the given covariates.
+ * referenceLevels maps a categorical covariate to its reference level;
+ * the first level is used when none (or an absent level) is given.
+ * Covariates that turn out constant among complete cases are dropped.
+ */
+export function buildDesignMatrix(
+  sampleIds: string[],
+  covariateData: Record<string, CovariateValues>,
+  covariateNames: string[],
+  referenceLevels: Record<string, string> = {}
+): DesignMatrix {
+  const continuous: Record<string, boolean> = {};
+  covariateNames.forEach(name => {
+    continuous[name] = isContinuousCovariate(covariateData[name] || {});
+  });
+
+  const valueOf = (name: string, sampleId: string): string | number | null => {
+    const raw = covariateData[name]?.[sampleId];
+    if (isMissingValue(raw)) return null;
+    if (!continuous[name]) return String(raw).trim();
+    const num = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const completeIds = sampleIds.filter(id => covariateNames.every(name => valueOf(name, id) !== null));
+
+  const columns: DesignColumn[] = [];
+  const terms: DesignTerm[] = [];
+  const encoders: ((sampleId: string) => number)[] = [];
+
+  covariateNames.forEach(name => {
+    const values = completeIds.map(id => valueOf(name, id) as string | number);
+
+    if (continuous[name]) {
+      if (new Set(values).size < 2) return;
+      terms.push({ name, type: 'continuous', levels: [], columns: [columns.length] });
+      columns.push({ name, term: name });
+      encoders.push(id => valueOf(name, id) as number);
+      return;
+    }
+
+    const sorted = covariateLevels(values);
+    if (sorted.length < 2) return;
+    const reference = sorted.includes(referenceLevels[name]) ? referenceLevels[name] : sorted[0];
+    const levels = [reference, ...sorted.filter(l => l !== reference)];
+
+    const termColumns: number[] = [];
+    levels.slice(1).forEach(level => {
+      termColumns.push(columns.length);
+      columns.push({ name: `${name}: ${level} (vs ${reference})`, term: name, level });
+      encoders.push(id => (valueOf(name, id) === level ? 1 : 0));
+    });
+    terms.push({ name, type: 'categorical', levels, reference, columns: termColumns });
+  });
+
+  return {
+    sampleIds: completeIds,
+    X: completeIds.map(id => encoders.map(encode => encode(id))),
+    columns,
+    terms
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Discrimination of survival risk scores on patient-level data
+ *
+ * The risk score is a model's linear predictor (higher = worse prognosis).
+ *  - Harrell's C: share of comparable pairs ordered correctly, as in
+ *    R's survival::concordance (ties in risk count 1/2)
+ *  - Uno's C: Harrell's C with inverse-probability-of-censoring weights,
+ *    which removes its dependence on the censoring distribution (survC1)
+ *  - Cumulative/dynamic time-dependent ROC and AUC at a horizon t, with
+ *    IPCW weights for cases (T <= t, event) against controls (T > t), as in
+ *    timeROC with marginal censoring weights
+ */
+
+import { censoringSurvivalBefore } from "@/lib/kaplanMeier";
+
+export interface ConcordanceResult {
+  concordance: number;
+  concordant: number;
+  discordant: number;
+  tiedRisk: number;
+  comparablePairs: number;
+}
+
+export interface ROCPoint {
+  threshold: number;
+  falsePositiveRate: number;
+  truePositiveRate: number;
+}
+
+export interface TimeDependentAUC {
+  horizon: number;
+  auc: number;
+  cases: number;
+  controls: number;
+  roc: ROCPoint[];
+}
+
+/**
+ * Harrell's concordance index: pairs where the subject with the shorter
+ * follow-up had an event (an event also precedes a censoring at the same time)
+ */
+export function harrellConcordance(time: number[], event: number[], risk: number[]): ConcordanceResult {
+  let concordant = 0;
+  let discordant = 0;
+  let tiedRisk = 0;
+  const n = time.length;
+
+  for (let i = 0; i < n; i++) {
+    if (!event[i]) continue;
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      const comparable = time[i] < time[j] || (time[i] === time[j] && !event[j]);
+      if (!comparable) continue;
+      if (risk[i] > risk[j]) concordant++;
+      else if (risk[i] < risk[j]) discordant++;
+      else tiedRisk++;
+    }
+  }
+
+  const comparablePairs = concordant + discordant + tiedRisk;
+  return {
+    concordance: comparablePairs > 0 ? (concordant + 0.5 * tiedRisk) / comparablePairs : 0.5,
+    concordant,
+    discordant,
+    tiedRisk,
+    comparablePairs
+  };
+}
+
+/**
+ * Uno's IPCW concordance, truncated at tau (defaults to the last event time)
+ */
+export function unoConcordance(time: number[], event: number[], risk: number[], tau?: number): number {
+  const G = censoringSurvivalBefore(time.map((t, i) => ({ time: t, event: event[i] })));
+  const limit = tau ?? Math.max(...time.filter((_, i) => event[i]));
+  let numerator = 0;
+  let denominator = 0;
+
+  for (let i = 0; i < time.length; i++) {
+    if (!event[i] || time[i] > limit) continue;
+    const g = G(time[i]);
+    if (!(g > 0)) continue;
+    const weight = 1 / (g * g);
+    for (let j = 0; j < time.length; j++) {
+      if (!(time[i] < time[j])) continue;
+      denominator += weight;
+      if (risk[i] > risk[j]) numerator += weight;
+      else if (risk[i] === risk[j]) numerator += 0.5 * weight;
+    }
+  }
+
+  return denominator > 0 ? numerator / denominator : 0.5;
+}
+
+/**
+ * Cumulative/dynamic ROC curve and AUC at horizon t. Cases are subjects
+ * with an event by t (weight 1 / G(T_i-)); controls are still event-free
+ * after t (common weight 1 / G(t)); subjects censored before t drop out.
+ * Returns null when there are no cases or no controls.
+ */
+export function timeDependentROC(
+  time: number[],
+  event: number[],
+  risk: number[],
+  horizon: number
+): TimeDependentAUC | null {
+  const G = censoringSurvivalBefore(time.map((t, i) => ({ time: t, event: event[i] })));
+  const cases: { risk: number; weight: number }[] = [];
+  const controls: number[] = [];
+
+  time.forEach((t, i) => {
+    if (t <= horizon && event[i]) {
+      const g = G(t);
+      if (g > 0) cases.push({ risk: risk[i], weight: 1 / g });
+    } else if (t > horizon) {
+      controls.push(risk[i]);
+    }
+  });
+  if (cases.length === 0 || controls.length === 0) return null;
+
+  const caseWeight = cases.reduce((sum, c) => sum + c.weight, 0);
+
+  // AUC = P(risk_case > risk_control), ties counted as 1/2
+  let auc = 0;
+  cases.forEach(c => {
+    let score = 0;
+    controls.forEach(r => {
+      if (c.risk > r) score += 1;
+      else if (c.risk === r) score += 0.5;
+    });
+    auc += (c.weight * score) / controls.length;
+  });
+  auc /= caseWeight;
+
+  // Sweep thresholds from the highest risk down: positive = risk >= threshold
+  const thresholds = Array.from(new Set([...cases.map(c => c.risk), ...controls])).sort((a, b) => b - a);
+  const roc: ROCPoint[] = [{ threshold: Infinity, falsePositiveRate: 0, truePositiveRate: 0 }];
+  thresholds.forEach(threshold => {
+    const tp = cases.filter(c => c.risk >= threshold).reduce((sum, c) => sum + c.weight, 0);
+    const fp = controls.filter(r => r >= threshold).length;
+    roc.push({
+      threshold,
+      falsePositiveRate: fp / controls.length,
+      truePositiveRate: tp / caseWeight
+    });
+  });
+
+  return { horizon, auc, cases: cases.length, controls: controls.length, roc };
+}
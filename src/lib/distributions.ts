@@ -0,0 +1,131 @@
+/**
+ * Probability distribution helpers shared by the survival analysis modules
+ * (normal and chi-square tails, normal quantiles)
+ */
+
+/**
+ * Complementary error function (Numerical Recipes erfcc, |rel. error| < 1.2e-7)
+ */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const poly = -1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277))))))));
+  const r = t * Math.exp(-z * z + poly);
+  return x >= 0 ? r : 2 - r;
+}
+
+/**
+ * Standard normal CDF
+ */
+export function normalCDF(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/**
+ * Two-sided p-value for a standard normal test statistic
+ */
+export function normalTwoSidedPValue(z: number): number {
+  if (!Number.isFinite(z)) return Number.isNaN(z) ? 1 : 0;
+  return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+/**
+ * Standard normal quantile (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Two-sided critical value for a confidence level (1.96 for 95%)
+ */
+export function zCritical(confLevel: number = 0.95): number {
+  return normalQuantile(1 - (1 - confLevel) / 2);
+}
+
+/**
+ * log Γ(x) via the Lanczos approximation (g = 5)
+ */
+function gammaLn(x: number): number {
+  const c = [76.18009172947146, -86.5053203294168, 24.01409824083091, -1.231739572450155, 0.001208650973866179, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (let j = 0; j < 6; j++) {
+    ser += c[j] / ++y;
+  }
+  return -tmp + Math.log(2.5066282746310002 * ser / x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x),
+ * evaluated directly in the upper tail so tiny p-values keep their precision
+ */
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const gln = gammaLn(a);
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let sum = 1 / a;
+    let del = sum;
+    let ap = a;
+    for (let n = 1; n <= 500; n++) {
+      ap += 1;
+      del *= x / ap;
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * 1e-15) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  let b = x + 1 - a;
+  let c = 1e300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-15) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+/**
+ * Upper-tail p-value of the chi-square distribution
+ */
+export function chiSquarePValue(chiSquare: number, df: number): number {
+  if (!Number.isFinite(chiSquare)) return Number.isNaN(chiSquare) ? 1 : 0;
+  if (df <= 0 || chiSquare <= 0) return 1;
+  return Math.max(0, Math.min(1, gammaQ(df / 2, chiSquare / 2)));
+}
@@ -0,0 +1,200 @@
+/**
+ * Kaplan-Meier product-limit estimation from patient-level survival data
+ *
+ * Works on individual (time, event) observations such as the rawSurvivalData
+ * written by the R CLI, rather than on pre-aggregated survival curves.
+ * Standard errors follow R's survfit: Greenwood's formula on the cumulative
+ * hazard scale, with log-transformed confidence intervals.
+ */
+
+import { SurvivalData, SurvivalTimePoint } from "@/components/bioinformatics/SurvivalCurve";
+import { RawSurvivalDataPoint } from "@/data/mockNmfData";
+import { zCritical } from "@/lib/distributions";
+
+export interface SurvivalObservation {
+  time: number;
+  event: number; // 1 = event, 0 = censored
+}
+
+/**
+ * Keep only observations with a usable follow-up time
+ */
+function validObservations<T extends SurvivalObservation>(observations: T[]): T[] {
+  return observations.filter(o => Number.isFinite(o.time) && o.time >= 0);
+}
+
+/**
+ * Product-limit estimate S(t) = Π (1 - d_i / n_i) at every distinct
+ * observed time (event or censoring), with at-risk, event and censoring counts
+ */
+export function kaplanMeier(
+  observations: SurvivalObservation[],
+  confLevel: number = 0.95
+): SurvivalTimePoint[] {
+  const obs = validObservations(observations).sort((a, b) => a.time - b.time);
+  if (obs.length === 0) return [];
+
+  const z = zCritical(confLevel);
+  const points: SurvivalTimePoint[] = [];
+  let atRisk = obs.length;
+  let survival = 1;
+  let greenwoodSum = 0;
+  let i = 0;
+
+  while (i < obs.length) {
+    const time = obs[i].time;
+    let events = 0;
+    let censored = 0;
+    while (i < obs.length && obs[i].time === time) {
+      if (obs[i].event) events++;
+      else censored++;
+      i++;
+    }
+
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      if (atRisk > events) {
+        greenwoodSum += events / (atRisk * (atRisk - events));
+      }
+    }
+
+    const stdErr = Math.sqrt(greenwoodSum);
+    points.push({
+      time,
+      survival,
+      atRisk,
+      events,
+      censored,
+      stdErr,
+      lowerCI: survival > 0 ? survival * Math.exp(-z * stdErr) : 0,
+      upperCI: survival > 0 ? Math.min(1, survival * Math.exp(z * stdErr)) : 0,
+    });
+
+    atRisk -= events + censored;
+  }
+
+  return points;
+}
+
+/**
+ * Build one Kaplan-Meier curve per group from patient-level records.
+ * Records for which groupOf returns undefined are left out.
+ */
+export function kaplanMeierByGroup<T extends SurvivalObservation>(
+  observations: T[],
+  groupOf: (observation: T) => string | undefined,
+  groupOrder?: string[],
+  confLevel: number = 0.95
+): SurvivalData[] {
+  const grouped = groupObservations(observations, groupOf);
+  const names = groupOrder
+    ? groupOrder.filter(g => grouped[g]?.length)
+    : Object.keys(grouped).sort();
+
+  return names.map(name => {
+    const groupObs = validObservations(grouped[name]);
+    const nEvents = groupObs.filter(o => o.event).length;
+    return {
+      subtype: name,
+      nTotal: groupObs.length,
+      nEvents,
+      nCensored: groupObs.length - nEvents,
+      timePoints: kaplanMeier(groupObs, confLevel),
+    };
+  }).filter(g => g.nTotal > 0);
+}
+
+/**
+ * Split observations into named groups
+ */
+export function groupObservations<T>(
+  observations: T[],
+  groupOf: (observation: T) => string | undefined
+): Record<string, T[]> {
+  const grouped: Record<string, T[]> = {};
+  observations.forEach(o => {
+    const group = groupOf(o);
+    if (group === undefined || group === null || group === '') return;
+    if (!grouped[group]) grouped[group] = [];
+    grouped[group].push(o);
+  });
+  return grouped;
+}
+
+/**
+ * Number of subjects still under observation (time >= t)
+ */
+export function numberAtRisk(observations: SurvivalObservation[], time: number): number {
+  return observations.filter(o => o.time >= time).length;
+}
+
+/**
+ * Median survival from a product-limit step function:
+ * the first time at which S(t) drops to 0.5 or below
+ */
+export function kaplanMeierMedian(points: SurvivalTimePoint[]): number | null {
+  const hit = points.find(p => p.survival <= 0.5);
+  return hit ? hit.time : null;
+}
+
+/**
+ * Convert R CLI rawSurvivalData records into survival observations,
+ * dropping records without a finite time
+ */
+export function toObservations(raw: RawSurvivalDataPoint[]): (RawSurvivalDataPoint & SurvivalObservation)[] {
+  return validObservations(
+    raw.map(r => ({ ...r, time: Number(r.time), event: Number(r.event) ? 1 : 0 }))
+  );
+}
+
+/**
+ * Landmark cohort: subjects still under observation beyond the landmark,
+ * with follow-up measured from the landmark. Subjects with an event or
+ * censoring at or before the landmark are excluded, so curves built from the
+ * result restart at 1.0 and equal S(t + landmark) / S(landmark).
+ */
+export function landmarkObservations<T extends SurvivalObservation>(observations: T[], landmark: number): T[] {
+  if (!(landmark > 0)) return observations;
+  return observations
+    .filter(o => o.time > landmark)
+    .map(o => ({ ...o, time: o.time - landmark }));
+}
+
+/**
+ * Product-limit estimate (with its confidence limits) at time t;
+ * null beyond the last observed time, where the curve is not estimable
+ */
+export function survivalAt(
+  points: SurvivalTimePoint[],
+  time: number
+): { survival: number; lowerCI?: number; upperCI?: number } | null {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  if (sorted.length === 0 || time > sorted[sorted.length - 1].time) return null;
+
+  let current: SurvivalTimePoint | null = null;
+  for (const p of sorted) {
+    if (p.time > time) break;
+    current = p;
+  }
+  if (!current) return { survival: 1, lowerCI: 1, upperCI: 1 };
+  return { survival: current.survival, lowerCI: current.lowerCI, upperCI: current.upperCI };
+}
+
+/**
+ * Censoring survival G(t-) from the reverse Kaplan-Meier estimate (censoring
+ * treated as the event), evaluated just before t (or at t when inclusive);
+ * used for inverse probability of censoring weights
+ */
+export function censoringSurvivalBefore(
+  observations: SurvivalObservation[]
+): (time: number, inclusive?: boolean) => number {
+  const curve = kaplanMeier(observations.map(o => ({ time: o.time, event: o.event ? 0 : 1 })));
+  return (time: number, inclusive = false) => {
+    let value = 1;
+    for (const p of curve) {
+      if (inclusive ? p.time > time : p.time >= time) break;
+      value = p.survival;
+    }
+    return value;
+  };
+}
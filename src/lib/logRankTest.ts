@@ -2,84 +2,17 @@
  * Log-rank test implementation for Kaplan-Meier survival analysis
  * Returns p-value for comparing survival curves between groups
  * 
- * Note: This implementation works with pre-computed Kaplan-Meier curves
+ * Note: logRankTest works with pre-computed Kaplan-Meier curves
  * where we only have (time, survival) points. It estimates the number
  * of events and at-risk subjects from the survival probabilities.
+ * exactLogRankTest uses patient-level observations when available.
  */
 
 import { SurvivalData } from "@/components/bioinformatics/SurvivalCurve";
-
-/**
- * Calculate chi-square p-value using Wilson-Hilferty approximation
- */
-function chiSquarePValue(chiSquare: number, df: number): number {
-  if (df <= 0 || chiSquare < 0) return 1;
-  if (chiSquare === 0) return 1;
-  
-  // For very large chi-square values
-  if (chiSquare > 100) {
-    return 1e-20;
-  }
-
-  // Gamma function approximation using Stirling's formula for large values
-  function gammaLn(x: number): number {
-    const c = [
-      76.18009172947146, -86.50532032941677, 24.01409824083091,
-      -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
-    ];
-    let y = x;
-    let tmp = x + 5.5;
-    tmp -= (x + 0.5) * Math.log(tmp);
-    let ser = 1.000000000190015;
-    for (let j = 0; j < 6; j++) {
-      ser += c[j] / ++y;
-    }
-    return -tmp + Math.log(2.5066282746310005 * ser / x);
-  }
-
-  // Regularized incomplete gamma function (lower)
-  function gammainc(a: number, x: number): number {
-    if (x < 0 || a <= 0) return 0;
-    if (x === 0) return 0;
-    
-    const gln = gammaLn(a);
-    
-    if (x < a + 1) {
-      // Use series representation
-      let sum = 1 / a;
-      let del = sum;
-      for (let n = 1; n <= 100; n++) {
-        del *= x / (a + n);
-        sum += del;
-        if (Math.abs(del) < Math.abs(sum) * 1e-10) break;
-      }
-      return sum * Math.exp(-x + a * Math.log(x) - gln);
-    } else {
-      // Use continued fraction representation
-      let b = x + 1 - a;
-      let c = 1e30;
-      let d = 1 / b;
-      let h = d;
-      for (let i = 1; i <= 100; i++) {
-        const an = -i * (i - a);
-        b += 2;
-        d = an * d + b;
-        if (Math.abs(d) < 1e-30) d = 1e-30;
-        c = b + an / c;
-        if (Math.abs(c) < 1e-30) c = 1e-30;
-        d = 1 / d;
-        const del = d * c;
-        h *= del;
-        if (Math.abs(del - 1) < 1e-10) break;
-      }
-      return 1 - Math.exp(-x + a * Math.log(x) - gln) * h;
-    }
-  }
-
-  // P-value = 1 - CDF of chi-square = 1 - gammainc(df/2, x/2)
-  const pValue = 1 - gammainc(df / 2, chiSquare / 2);
-  return Math.max(0, Math.min(1, pValue));
-}
+import { invertMatrix, quadraticForm } from "@/lib/coxRegression";
+import { chiSquarePValue } from "@/lib/distributions";
+import { SurvivalObservation } from "@/lib/kaplanMeier";
+import { adjustPValues } from "@/lib/multipleTesting";
 
 /**
  * Reconstruct event data from survival curve
@@ -172,6 +105,25 @@ export interface LogRankResult {
   degreesOfFreedom: number;
 }
 
+// Weight functions of the G-rho-gamma family, applied at each event time
+export type LogRankWeighting = 'logrank' | 'gehan' | 'tarone-ware' | 'fleming-harrington';
+
+export const LOG_RANK_WEIGHTING_LABELS: Record<LogRankWeighting, string> = {
+  'logrank': 'Log-rank',
+  'gehan': 'Gehan-Breslow (Wilcoxon)',
+  'tarone-ware': 'Tarone-Ware',
+  'fleming-harrington': 'Fleming-Harrington',
+};
+
+export interface LogRankOptions<T extends SurvivalObservation = SurvivalObservation> {
+  weighting?: LogRankWeighting;
+  // Fleming-Harrington exponents: w(t) = S(t-)^rho * (1 - S(t-))^gamma
+  rho?: number;
+  gamma?: number;
+  // Separate risk sets per stratum; statistics are summed across strata
+  stratumOf?: (observation: T) => string | undefined;
+}
+
 /**
  * Perform log-rank test on survival data
  * Uses the Mantel-Haenszel log-rank test statistic
@@ -249,6 +201,213 @@ export function logRankTest(
   };
 }
 
+/**
+ * Weighted observed-minus-expected events per group and their covariance,
+ * accumulated over event times (and summed over strata)
+ */
+function weightedLogRankComponents<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groups: string[],
+  options: LogRankOptions<T>
+): { observedMinusExpected: number[]; covariance: number[][] } {
+  const k = groups.length;
+  const weighting = options.weighting ?? 'logrank';
+  const rho = options.rho ?? 0;
+  const gamma = options.gamma ?? 0;
+  const observedMinusExpected = new Array(k).fill(0);
+  const covariance = Array.from({ length: k }, () => new Array(k).fill(0));
+
+  const strata = new Map<string, { time: number; event: number; group: number }[]>();
+  groups.forEach((g, idx) => {
+    groupedObservations[g].forEach(o => {
+      const stratum = options.stratumOf ? options.stratumOf(o) : '';
+      if (stratum === undefined) return;
+      if (!strata.has(stratum)) strata.set(stratum, []);
+      strata.get(stratum)!.push({ time: o.time, event: o.event ? 1 : 0, group: idx });
+    });
+  });
+
+  strata.forEach(stratumObs => {
+    const obs = stratumObs.sort((a, b) => a.time - b.time);
+    const atRisk = new Array(k).fill(0);
+    obs.forEach(o => atRisk[o.group]++);
+    let survival = 1; // pooled Kaplan-Meier S(t-) for Fleming-Harrington weights
+
+    let i = 0;
+    while (i < obs.length) {
+      const time = obs[i].time;
+      const events = new Array(k).fill(0);
+      const leaving = new Array(k).fill(0);
+      while (i < obs.length && obs[i].time === time) {
+        events[obs[i].group] += obs[i].event;
+        leaving[obs[i].group]++;
+        i++;
+      }
+
+      const N = atRisk.reduce((a, b) => a + b, 0);
+      const D = events.reduce((a, b) => a + b, 0);
+      if (D > 0 && N > 0) {
+        const w = weighting === 'gehan' ? N
+          : weighting === 'tarone-ware' ? Math.sqrt(N)
+          : weighting === 'fleming-harrington' ? Math.pow(survival, rho) * Math.pow(1 - survival, gamma)
+          : 1;
+        const scale = N > 1 ? (w * w * D * (N - D)) / (N - 1) : 0;
+        for (let j = 0; j < k; j++) {
+          observedMinusExpected[j] += w * (events[j] - (D * atRisk[j]) / N);
+          for (let l = 0; l < k; l++) {
+            covariance[j][l] += scale * (atRisk[j] / N) * ((j === l ? 1 : 0) - atRisk[l] / N);
+          }
+        }
+        survival *= 1 - D / N;
+      }
+
+      for (let j = 0; j < k; j++) atRisk[j] -= leaving[j];
+    }
+  });
+
+  return { observedMinusExpected, covariance };
+}
+
+/**
+ * Log-rank test on patient-level observations (equivalent to R's survdiff),
+ * using the full (k-1)×(k-1) covariance of observed-minus-expected events.
+ * options select a weighted variant (Gehan-Breslow, Tarone-Ware,
+ * Fleming-Harrington) and/or a stratified test.
+ */
+export function exactLogRankTest<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder?: string[],
+  options: LogRankOptions<T> = {}
+): LogRankResult | null {
+  const groups = (groupOrder ?? Object.keys(groupedObservations))
+    .filter(g => (groupedObservations[g]?.length || 0) > 0);
+  const k = groups.length;
+  if (k < 2) {
+    return null;
+  }
+
+  const { observedMinusExpected, covariance } = weightedLogRankComponents(groupedObservations, groups, options);
+
+  // Drop the last group: the k statistics sum to zero
+  const u = observedMinusExpected.slice(0, k - 1);
+  const v = covariance.slice(0, k - 1).map(row => row.slice(0, k - 1));
+  const vInv = invertMatrix(v);
+  if (!vInv) {
+    return null;
+  }
+
+  const chiSquare = quadraticForm(u, vInv);
+  const df = k - 1;
+  return {
+    pValue: chiSquarePValue(chiSquare, df),
+    chiSquare,
+    degreesOfFreedom: df
+  };
+}
+
+/**
+ * Log-rank test for trend across ordered groups (1 df).
+ * scores default to 1, 2, ..., k in groupOrder; a small p-value means
+ * survival changes monotonically along the ordering.
+ */
+export function exactLogRankTrendTest<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[],
+  scores?: number[],
+  options: LogRankOptions<T> = {}
+): LogRankResult | null {
+  const present = groupOrder
+    .map((g, idx) => ({ g, score: scores?.[idx] ?? idx + 1 }))
+    .filter(({ g }) => (groupedObservations[g]?.length || 0) > 0);
+  if (present.length < 2) {
+    return null;
+  }
+
+  const groups = present.map(p => p.g);
+  const s = present.map(p => p.score);
+  const { observedMinusExpected, covariance } = weightedLogRankComponents(groupedObservations, groups, options);
+
+  const numerator = s.reduce((sum, sj, j) => sum + sj * observedMinusExpected[j], 0);
+  const variance = quadraticForm(s, covariance);
+  if (!(variance > 0)) {
+    return null;
+  }
+
+  const chiSquare = (numerator * numerator) / variance;
+  return {
+    pValue: chiSquarePValue(chiSquare, 1),
+    chiSquare,
+    degreesOfFreedom: 1
+  };
+}
+
+export interface PairwiseLogRankResult {
+  group1: string;
+  group2: string;
+  chiSquare: number;
+  pValue: number;
+  pValueBonferroni: number;
+  pValueHolm: number;
+  pValueFDR: number;
+}
+
+/**
+ * Attach Bonferroni, Holm and Benjamini-Hochberg adjusted p-values
+ * across the whole family of pairwise tests
+ */
+function adjustPairwise(
+  pairs: Array<{ group1: string; group2: string; result: LogRankResult | null }>
+): PairwiseLogRankResult[] {
+  const tested = pairs.filter(p => p.result !== null) as Array<{ group1: string; group2: string; result: LogRankResult }>;
+  const pValues = tested.map(p => p.result.pValue);
+  const bonferroni = adjustPValues(pValues, 'bonferroni');
+  const holm = adjustPValues(pValues, 'holm');
+  const fdr = adjustPValues(pValues, 'fdr');
+
+  return tested.map((p, i) => ({
+    group1: p.group1,
+    group2: p.group2,
+    chiSquare: p.result.chiSquare,
+    pValue: p.result.pValue,
+    pValueBonferroni: bonferroni[i],
+    pValueHolm: holm[i],
+    pValueFDR: fdr[i]
+  }));
+}
+
+/**
+ * All-pairs log-rank tests on patient-level observations, using the same
+ * weighting and stratification options as exactLogRankTest
+ */
+export function exactPairwiseLogRankTests<T extends SurvivalObservation>(
+  groupedObservations: Record<string, T[]>,
+  groupOrder: string[],
+  options: LogRankOptions<T> = {}
+): PairwiseLogRankResult[] {
+  const groups = groupOrder.filter(g => (groupedObservations[g]?.length || 0) > 0);
+  const pairs = groups.flatMap((group1, i) => groups.slice(i + 1).map(group2 => ({
+    group1,
+    group2,
+    result: exactLogRankTest(groupedObservations, [group1, group2], options)
+  })));
+  return adjustPairwise(pairs);
+}
+
+/**
+ * All-pairs log-rank tests estimated from pre-computed survival curves
+ */
+export function pairwiseLogRankTests(
+  survivalData: SurvivalData[],
+  subtypeCounts?: Record<string, number>
+): PairwiseLogRankResult[] {
+  const pairs = survivalData.flatMap((a, i) => survivalData.slice(i + 1).map(b => ({
+    group1: a.subtype,
+    group2: b.subtype,
+    result: logRankTest([a, b], subtypeCounts ? { ...subtypeCounts } : undefined)
+  })));
+  return adjustPairwise(pairs);
+}
+
 /**
  * Format p-value for display
  */
@@ -0,0 +1,227 @@
+/**
+ * Internal validation of multivariable Cox models on patient-level data
+ *
+ * Patients (not survival curves) are resampled and the full Cox model is
+ * refitted on every training set, then scored on held-out event times:
+ *  - Repeated k-fold cross-validation: Harrell's C and the calibration slope
+ *    of the training-set linear predictor on each held-out fold
+ *  - Bootstrap optimism correction (Harrell 2015): the model refitted on each
+ *    bootstrap sample is scored on that sample and on the original data; the
+ *    mean difference is subtracted from the apparent performance
+ * Splits are driven by a seeded generator so results are reproducible.
+ */
+
+import { fitCoxPH, TieMethod } from "@/lib/coxRegression";
+import { buildDesignMatrix, CovariateValues } from "@/lib/designMatrix";
+import { harrellConcordance } from "@/lib/discrimination";
+import { IndividualSurvivalData } from "@/lib/coxphAnalysis";
+import { DEFAULT_SEED, seededRandom, shuffle } from "@/lib/random";
+
+export type ValidationMethod = 'kfold' | 'bootstrap';
+
+export const VALIDATION_METHOD_LABELS: Record<ValidationMethod, string> = {
+  kfold: 'Repeated k-fold CV',
+  bootstrap: 'Bootstrap optimism',
+};
+
+export interface ValidationOptions {
+  method: ValidationMethod;
+  folds: number;
+  repeats: number;    // k-fold repetitions
+  bootstraps: number; // bootstrap replicates
+  seed: number;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  method: 'kfold',
+  folds: 5,
+  repeats: 10,
+  bootstraps: 200,
+  seed: DEFAULT_SEED,
+};
+
+export interface CrossValidationResult {
+  method: ValidationMethod;
+  folds: number;
+  repeats: number;
+  seed: number;
+  nSamples: number;
+  nEvents: number;
+  // Held-out C per fold (k-fold) or C on the original data per replicate (bootstrap)
+  concordanceScores: number[];
+  calibrationSlopes: number[];
+  meanConcordance: number;
+  stdConcordance: number;
+  ci95Lower: number;
+  ci95Upper: number;
+  apparentConcordance: number;
+  optimism: number;
+  correctedConcordance: number;
+  // Shrinkage of the linear predictor needed out of sample (1 = no overfitting)
+  correctedCalibrationSlope: number;
+  failedFits: number;
+}
+
+/**
+ * Columns that are linearly independent (after centering) in the given rows.
+ * A rare factor level, or the reference level, missing from a resample makes
+ * dummy columns constant or aliased; those are dropped greedily.
+ */
+function independentColumns(X: number[][], rows: number[]): number[] {
+  const p = X[0]?.length ?? 0;
+  const basis: number[][] = [];
+  const active: number[] = [];
+  for (let j = 0; j < p; j++) {
+    const columnMean = rows.reduce((sum, r) => sum + X[r][j], 0) / rows.length;
+    const v = rows.map(r => X[r][j] - columnMean);
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    basis.forEach(q => {
+      const dot = q.reduce((sum, x, i) => sum + x * v[i], 0);
+      q.forEach((x, i) => { v[i] -= dot * x; });
+    });
+    const residual = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    if (norm > 0 && residual > 1e-8 * norm) {
+      basis.push(v.map(x => x / residual));
+      active.push(j);
+    }
+  }
+  return active;
+}
+
+/**
+ * Refit the Cox model on a set of rows; dropped columns get coefficient 0
+ */
+function fitRows(X: number[][], time: number[], event: number[], rows: number[], ties: TieMethod): number[] | null {
+  const p = X[0]?.length ?? 0;
+  const active = independentColumns(X, rows);
+  if (active.length === 0 || !rows.some(r => event[r])) return null;
+
+  const fit = fitCoxPH(
+    rows.map(r => time[r]),
+    rows.map(r => event[r]),
+    rows.map(r => active.map(j => X[r][j])),
+    { ties }
+  );
+  if (!fit || !fit.coefficients.every(Number.isFinite)) return null;
+
+  const beta = new Array(p).fill(0);
+  active.forEach((j, k) => { beta[j] = fit.coefficients[k]; });
+  return beta;
+}
+
+/**
+ * C-index and calibration slope (Cox coefficient of the linear predictor)
+ * of a coefficient vector on a set of rows
+ */
+function scoreRows(X: number[][], time: number[], event: number[], rows: number[], beta: number[], ties: TieMethod) {
+  const lp = rows.map(r => X[r].reduce((sum, x, j) => sum + x * beta[j], 0));
+  const t = rows.map(r => time[r]);
+  const e = rows.map(r => event[r]);
+  const concordance = harrellConcordance(t, e, lp).concordance;
+  const slopeFit = new Set(lp).size > 1 ? fitCoxPH(t, e, lp.map(v => [v]), { ties }) : null;
+  return { concordance, slope: slopeFit ? slopeFit.coefficients[0] : null };
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Validate the Cox model on the given covariates by repeated k-fold
+ * cross-validation or bootstrap optimism correction
+ */
+export function validateCoxModel(
+  covariateData: Record<string, CovariateValues>,
+  covariateNames: string[],
+  individual: IndividualSurvivalData,
+  options: ValidationOptions = DEFAULT_VALIDATION_OPTIONS,
+  referenceLevels?: Record<string, string>
+): CrossValidationResult | null {
+  const ties = individual.ties ?? 'efron';
+  const observationById = new Map(individual.observations.map(o => [o.sample_id, o]));
+  const design = buildDesignMatrix([...observationById.keys()], covariateData, covariateNames, referenceLevels);
+  const n = design.sampleIds.length;
+  if (design.columns.length === 0 || n < options.folds * 2) return null;
+
+  const X = design.X;
+  const time = design.sampleIds.map(id => observationById.get(id)!.time);
+  const event = design.sampleIds.map(id => (observationById.get(id)!.event ? 1 : 0));
+  const allRows = Array.from({ length: n }, (_, i) => i);
+
+  const apparentBeta = fitRows(X, time, event, allRows, ties);
+  if (!apparentBeta) return null;
+  const apparentConcordance = scoreRows(X, time, event, allRows, apparentBeta, ties).concordance;
+
+  const random = seededRandom(options.seed);
+  const concordanceScores: number[] = [];
+  const calibrationSlopes: number[] = [];
+  const optimisms: number[] = [];
+  let failedFits = 0;
+
+  if (options.method === 'kfold') {
+    for (let repeat = 0; repeat < options.repeats; repeat++) {
+      // Deal events and censored patients round-robin so every fold gets both
+      const fold = new Array(n).fill(0);
+      [allRows.filter(r => event[r]), allRows.filter(r => !event[r])].forEach(stratum => {
+        shuffle(stratum, random).forEach((r, i) => { fold[r] = i % options.folds; });
+      });
+
+      for (let k = 0; k < options.folds; k++) {
+        const train = allRows.filter(r => fold[r] !== k);
+        const test = allRows.filter(r => fold[r] === k);
+        const beta = fitRows(X, time, event, train, ties);
+        if (!beta || !test.some(r => event[r])) {
+          failedFits++;
+          continue;
+        }
+        const score = scoreRows(X, time, event, test, beta, ties);
+        concordanceScores.push(score.concordance);
+        if (score.slope !== null) calibrationSlopes.push(score.slope);
+      }
+    }
+  } else {
+    for (let b = 0; b < options.bootstraps; b++) {
+      const sample = allRows.map(() => Math.floor(random() * n));
+      const beta = fitRows(X, time, event, sample, ties);
+      if (!beta) {
+        failedFits++;
+        continue;
+      }
+      const onBootstrap = scoreRows(X, time, event, sample, beta, ties);
+      const onOriginal = scoreRows(X, time, event, allRows, beta, ties);
+      concordanceScores.push(onOriginal.concordance);
+      optimisms.push(onBootstrap.concordance - onOriginal.concordance);
+      if (onOriginal.slope !== null) calibrationSlopes.push(onOriginal.slope);
+    }
+  }
+
+  if (concordanceScores.length === 0) return null;
+
+  const meanConcordance = mean(concordanceScores);
+  const stdConcordance = Math.sqrt(
+    concordanceScores.reduce((sum, c) => sum + (c - meanConcordance) ** 2, 0) / Math.max(1, concordanceScores.length - 1)
+  );
+  const optimism = options.method === 'kfold' ? apparentConcordance - meanConcordance : mean(optimisms);
+
+  // Percentile interval of the resampled scores
+  const sorted = [...concordanceScores].sort((a, b) => a - b);
+  const quantile = (q: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+
+  return {
+    method: options.method,
+    folds: options.folds,
+    repeats: options.method === 'kfold' ? options.repeats : options.bootstraps,
+    seed: options.seed,
+    nSamples: n,
+    nEvents: event.filter(e => e).length,
+    concordanceScores,
+    calibrationSlopes,
+    meanConcordance,
+    stdConcordance,
+    ci95Lower: quantile(0.025),
+    ci95Upper: quantile(0.975),
+    apparentConcordance,
+    optimism,
+    correctedConcordance: apparentConcordance - optimism,
+    correctedCalibrationSlope: calibrationSlopes.length > 0 ? mean(calibrationSlopes) : 1,
+    failedFits
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Multiple-testing corrections for families of p-values
+ * (same results as R's p.adjust with "bonferroni", "holm" and "BH")
+ */
+
+export type PValueAdjustment = 'bonferroni' | 'holm' | 'fdr';
+
+export const P_VALUE_ADJUSTMENT_LABELS: Record<PValueAdjustment, string> = {
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  fdr: 'Benjamini-Hochberg (FDR)',
+};
+
+/**
+ * Adjust p-values for the number of tests, returned in input order
+ */
+export function adjustPValues(pValues: number[], method: PValueAdjustment): number[] {
+  const m = pValues.length;
+  if (m === 0) return [];
+
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m));
+  }
+
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array(m).fill(1);
+
+  if (method === 'holm') {
+    // Step-down: running maximum of (m - rank + 1) * p
+    let runningMax = 0;
+    order.forEach(({ p, i }, rank) => {
+      runningMax = Math.max(runningMax, Math.min(1, (m - rank) * p));
+      adjusted[i] = runningMax;
+    });
+    return adjusted;
+  }
+
+  // Benjamini-Hochberg step-up: running minimum of m * p / rank from the largest p down
+  let runningMin = 1;
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const { p, i } = order[rank];
+    runningMin = Math.min(runningMin, (m * p) / (rank + 1));
+    adjusted[i] = Math.min(1, runningMin);
+  }
+  return adjusted;
+}
@@ -0,0 +1,384 @@
+/**
+ * Non-negative matrix factorization of an expression matrix, following
+ * nmf_analysis_cli.R
+ *
+ * Preprocessing matches the R CLI: log2(x + 1) when values exceed 50, the
+ * top-variance genes, then a shift making the matrix non-negative. Each
+ * rank is fitted from several seeded random starts with Brunet's
+ * KL-divergence or Lee's Euclidean multiplicative updates. The consensus of
+ * the runs' sample assignments gives the cophenetic correlation that picks
+ * the rank, and the best-fitting run at that rank gives W and H.
+ */
+
+import { RankMetric } from "@/data/mockNmfData";
+import { DerivedNmfResults, NumericMatrix, deriveNmfResults, meanSilhouette } from "@/lib/nmfMatrices";
+import { MAX_NMF_RANK, MIN_NMF_RANK } from "@/lib/nmfScores";
+import { deriveSeed, seededRandom } from "@/lib/random";
+
+export type NmfMethod = "brunet" | "lee";
+
+export interface NmfOptions {
+  method: NmfMethod;
+  rankMin: number;
+  rankMax: number;
+  nrun: number; // Random starts per rank
+  topGenes: number;
+  maxIter: number;
+  seed: number;
+}
+
+// Lighter than the R CLI's defaults (5000 genes, 30 runs) so a run in the
+// browser takes minutes rather than hours
+export const DEFAULT_NMF_OPTIONS: Omit<NmfOptions, "seed"> = {
+  method: "brunet",
+  rankMin: 2,
+  rankMax: 5,
+  nrun: 5,
+  topGenes: 500,
+  maxIter: 1000,
+};
+
+export interface NmfProgress {
+  done: number; // Finished runs over all ranks
+  total: number;
+  rank: number;
+  run: number;
+}
+
+// Messages between the dashboard and nmf.worker.ts
+export interface NmfWorkerRequest {
+  text: string; // Expression matrix file, genes x samples
+  dataset: string;
+  options: NmfOptions;
+}
+
+export type NmfWorkerMessage =
+  | { type: "progress"; progress: NmfProgress }
+  | { type: "result"; results: DerivedNmfResults }
+  | { type: "error"; message: string };
+
+// .Machine$double.eps, the floor the NMF package's updates apply
+const EPS = 2.220446049250313e-16;
+// Stop once the sample assignment has not changed for STATIONARY_CHECKS
+// checks made every CHECK_INTERVAL iterations (the NMF package's
+// connectivity criterion)
+const CHECK_INTERVAL = 10;
+const STATIONARY_CHECKS = 40;
+
+interface PreprocessedExpression {
+  expression: NumericMatrix; // All genes, log-transformed if needed, named
+  genes: string[]; // Genes used for the factorization
+  v: Float64Array; // genes x samples, row-major, non-negative
+  notes: string[];
+}
+
+/**
+ * The R CLI's preprocessing of a genes x samples matrix
+ */
+export function preprocessExpression(expression: NumericMatrix, topGenes: number): PreprocessedExpression {
+  const n = expression.values[0].length;
+  const genes = expression.rowNames ?? expression.values.map((_, i) => `Gene_${i + 1}`);
+  const samples = expression.colNames ?? expression.values[0].map((_, j) => `Sample_${j + 1}`);
+  const notes: string[] = [];
+
+  const max = expression.values.reduce((m, row) => row.reduce((rm, x) => Math.max(rm, x), m), -Infinity);
+  const values = max > 50 ? expression.values.map(row => row.map(x => Math.log2(x + 1))) : expression.values;
+  if (max > 50) notes.push("log2(x + 1) applied (values above 50)");
+
+  const variances = values.map(row => {
+    const mean = row.reduce((sum, x) => sum + x, 0) / n;
+    return row.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (n - 1);
+  });
+  const top = variances
+    .map((variance, i) => ({ i, variance }))
+    .sort((a, b) => b.variance - a.variance)
+    .slice(0, Math.min(topGenes, genes.length))
+    .map(({ i }) => i);
+  notes.push(`${top.length} of ${genes.length} genes with the highest variance used for NMF`);
+
+  const min = top.reduce((m, i) => values[i].reduce((rm, x) => Math.min(rm, x), m), Infinity);
+  const v = new Float64Array(top.length * n);
+  top.forEach((gene, r) => values[gene].forEach((x, j) => { v[r * n + j] = x - min; }));
+  if (min !== 0) notes.push(`minimum (${min.toPrecision(3)}) subtracted to make values non-negative`);
+
+  return { expression: { rowNames: genes, colNames: samples, values }, genes: top.map(i => genes[i]), v, notes };
+}
+
+interface NmfFit {
+  w: Float64Array; // m x k
+  h: Float64Array; // k x n
+  assignment: number[]; // Factor with the largest coefficient per sample
+  objective: number; // KL divergence or squared Euclidean distance
+  iterations: number;
+}
+
+const assignSamples = (h: Float64Array, k: number, n: number): number[] =>
+  Array.from({ length: n }, (_, j) => {
+    let best = 0;
+    for (let a = 1; a < k; a++) if (h[a * n + j] > h[best * n + j]) best = a;
+    return best;
+  });
+
+/**
+ * One factorization V ~ WH of an m x n matrix from a random start
+ */
+export function factorize(
+  v: Float64Array,
+  m: number,
+  n: number,
+  k: number,
+  method: NmfMethod,
+  maxIter: number,
+  random: () => number
+): NmfFit {
+  // Random start uniform on [0, max(V)], as the NMF package's "random" seeding
+  const vMax = v.reduce((mx, x) => Math.max(mx, x), 0);
+  const w = Float64Array.from({ length: m * k }, () => random() * vMax);
+  const h = Float64Array.from({ length: k * n }, () => random() * vMax);
+  const wh = new Float64Array(m * n);
+
+  const product = () => {
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let a = 0; a < k; a++) sum += w[i * k + a] * h[a * n + j];
+        wh[i * n + j] = sum;
+      }
+    }
+  };
+  // V / WH, in place of WH
+  const ratio = () => {
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let a = 0; a < k; a++) sum += w[i * k + a] * h[a * n + j];
+        wh[i * n + j] = v[i * n + j] / Math.max(sum, EPS);
+      }
+    }
+  };
+
+  const brunetStep = () => {
+    // H <- H * (W' (V / WH)) / colSums(W)
+    ratio();
+    const numH = new Float64Array(k * n);
+    const wSum = new Float64Array(k);
+    for (let i = 0; i < m; i++) {
+      for (let a = 0; a < k; a++) {
+        const wa = w[i * k + a];
+        wSum[a] += wa;
+        for (let j = 0; j < n; j++) numH[a * n + j] += wa * wh[i * n + j];
+      }
+    }
+    for (let a = 0; a < k; a++) {
+      for (let j = 0; j < n; j++) h[a * n + j] = Math.max((h[a * n + j] * numH[a * n + j]) / wSum[a], EPS);
+    }
+    // W <- W * ((V / WH) H') / rowSums(H)
+    ratio();
+    const hSum = new Float64Array(k);
+    for (let a = 0; a < k; a++) for (let j = 0; j < n; j++) hSum[a] += h[a * n + j];
+    for (let i = 0; i < m; i++) {
+      for (let a = 0; a < k; a++) {
+        let sum = 0;
+        for (let j = 0; j < n; j++) sum += h[a * n + j] * wh[i * n + j];
+        w[i * k + a] = Math.max((w[i * k + a] * sum) / hSum[a], EPS);
+      }
+    }
+  };
+
+  const leeStep = () => {
+    // H <- H * (W'V) / (W'W H)
+    const wtv = new Float64Array(k * n);
+    const wtw = new Float64Array(k * k);
+    for (let i = 0; i < m; i++) {
+      for (let a = 0; a < k; a++) {
+        const wa = w[i * k + a];
+        for (let j = 0; j < n; j++) wtv[a * n + j] += wa * v[i * n + j];
+        for (let b = 0; b < k; b++) wtw[a * k + b] += wa * w[i * k + b];
+      }
+    }
+    const hOld = h.slice();
+    for (let a = 0; a < k; a++) {
+      for (let j = 0; j < n; j++) {
+        let denominator = 0;
+        for (let b = 0; b < k; b++) denominator += wtw[a * k + b] * hOld[b * n + j];
+        h[a * n + j] = Math.max((hOld[a * n + j] * wtv[a * n + j]) / (denominator + EPS), EPS);
+      }
+    }
+    // W <- W * (V H') / (W H H')
+    const hht = new Float64Array(k * k);
+    for (let a = 0; a < k; a++) {
+      for (let b = 0; b < k; b++) {
+        let sum = 0;
+        for (let j = 0; j < n; j++) sum += h[a * n + j] * h[b * n + j];
+        hht[a * k + b] = sum;
+      }
+    }
+    for (let i = 0; i < m; i++) {
+      const wRow = w.slice(i * k, (i + 1) * k);
+      for (let a = 0; a < k; a++) {
+        let vht = 0;
+        for (let j = 0; j < n; j++) vht += v[i * n + j] * h[a * n + j];
+        let denominator = 0;
+        for (let b = 0; b < k; b++) denominator += wRow[b] * hht[b * k + a];
+        w[i * k + a] = Math.max((wRow[a] * vht) / (denominator + EPS), EPS);
+      }
+    }
+  };
+
+  let previous = assignSamples(h, k, n);
+  let stable = 0;
+  let iterations = 0;
+  while (iterations < maxIter && stable < STATIONARY_CHECKS) {
+    if (method === "brunet") brunetStep();
+    else leeStep();
+    iterations++;
+    if (iterations % CHECK_INTERVAL === 0) {
+      const current = assignSamples(h, k, n);
+      stable = current.every((c, j) => c === previous[j]) ? stable + 1 : 0;
+      previous = current;
+    }
+  }
+
+  product();
+  let objective = 0;
+  for (let x = 0; x < m * n; x++) {
+    objective += method === "brunet"
+      ? (v[x] > 0 ? v[x] * Math.log(v[x] / Math.max(wh[x], EPS)) : 0) - v[x] + wh[x]
+      : (v[x] - wh[x]) ** 2;
+  }
+
+  return { w, h, assignment: assignSamples(h, k, n), objective, iterations };
+}
+
+/**
+ * Cophenetic correlation of the consensus matrix (average linkage on
+ * 1 - consensus, as the NMF package computes it) and the mean silhouette of
+ * an assignment on the same distances
+ */
+export function consensusMetrics(assignments: number[][], assignment: number[]): { cophenetic: number; silhouette: number } {
+  const n = assignment.length;
+  const distance = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const together = assignments.filter(a => a[i] === a[j]).length;
+      distance[i * n + j] = distance[j * n + i] = 1 - together / assignments.length;
+    }
+  }
+
+  // UPGMA, recording the height at which each pair of samples joins
+  const cophenetic = new Float64Array(n * n);
+  const between = distance.slice();
+  const members = Array.from({ length: n }, (_, i) => [i]);
+  const active = new Set(members.keys());
+  while (active.size > 1) {
+    let bestA = -1;
+    let bestB = -1;
+    active.forEach(a => active.forEach(b => {
+      if (a < b && (bestA < 0 || between[a * n + b] < between[bestA * n + bestB])) {
+        bestA = a;
+        bestB = b;
+      }
+    }));
+    const height = between[bestA * n + bestB];
+    members[bestA].forEach(i => members[bestB].forEach(j => {
+      cophenetic[i * n + j] = cophenetic[j * n + i] = height;
+    }));
+    const sizeA = members[bestA].length;
+    const sizeB = members[bestB].length;
+    active.delete(bestB);
+    active.forEach(c => {
+      if (c === bestA) return;
+      const merged = (sizeA * between[bestA * n + c] + sizeB * between[bestB * n + c]) / (sizeA + sizeB);
+      between[bestA * n + c] = between[c * n + bestA] = merged;
+    });
+    members[bestA] = members[bestA].concat(members[bestB]);
+  }
+
+  // Pearson correlation over the pairs
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      xs.push(distance[i * n + j]);
+      ys.push(cophenetic[i * n + j]);
+    }
+  }
+  const mx = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const my = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let p = 0; p < xs.length; p++) {
+    sxy += (xs[p] - mx) * (ys[p] - my);
+    sxx += (xs[p] - mx) ** 2;
+    syy += (ys[p] - my) ** 2;
+  }
+  return {
+    // Identical runs that all agree give no spread; that is perfect stability
+    cophenetic: sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 1,
+    silhouette: meanSilhouette(n, (i, j) => distance[i * n + j], assignment),
+  };
+}
+
+/**
+ * Preprocess, factorize every rank in the range and build raw NMF results
+ * for the rank with the highest cophenetic correlation, or return an error
+ * message
+ */
+export function runNmfAnalysis(
+  expression: NumericMatrix,
+  dataset: string,
+  options: NmfOptions,
+  onProgress?: (progress: NmfProgress) => void
+): DerivedNmfResults | string {
+  const n = expression.values[0].length;
+  const rankMin = Math.max(options.rankMin, MIN_NMF_RANK);
+  const rankMax = Math.min(options.rankMax, MAX_NMF_RANK, n - 1);
+  if (n < 3) return "at least 3 samples are needed";
+  if (rankMin > rankMax) return `ranks ${options.rankMin}-${options.rankMax} are not possible with ${n} samples`;
+
+  const pre = preprocessExpression(expression, options.topGenes);
+  const m = pre.genes.length;
+  const ranks = Array.from({ length: rankMax - rankMin + 1 }, (_, i) => rankMin + i);
+  const total = ranks.length * options.nrun;
+  let done = 0;
+
+  const fits = ranks.map(k => {
+    const runs: NmfFit[] = [];
+    for (let run = 0; run < options.nrun; run++) {
+      const random = seededRandom(deriveSeed(options.seed, `nmf-rank${k}-run${run}`));
+      runs.push(factorize(pre.v, m, n, k, options.method, options.maxIter, random));
+      onProgress?.({ done: ++done, total, rank: k, run: run + 1 });
+    }
+    const best = runs.reduce((a, b) => (b.objective < a.objective ? b : a));
+    return { k, best, ...consensusMetrics(runs.map(r => r.assignment), best.assignment) };
+  });
+  // Like the R CLI, pick the rank with the highest cophenetic correlation
+  const optimal = fits.reduce((a, b) => (b.cophenetic > a.cophenetic ? b : a));
+
+  const { k, best } = optimal;
+  const factors = Array.from({ length: k }, (_, a) => `Factor_${a + 1}`);
+  const basis: NumericMatrix = {
+    rowNames: pre.genes,
+    colNames: factors,
+    values: pre.genes.map((_, i) => Array.from(best.w.subarray(i * k, (i + 1) * k))),
+  };
+  const coef: NumericMatrix = {
+    rowNames: factors,
+    colNames: pre.expression.colNames,
+    values: factors.map((_, a) => Array.from(best.h.subarray(a * n, (a + 1) * n))),
+  };
+  const rankMetrics: RankMetric[] = fits.map(f => ({ rank: f.k, cophenetic: f.cophenetic, silhouette: f.silhouette }));
+  const cophenetic = Math.round(optimal.cophenetic * 1000) / 1000;
+  const derived = deriveNmfResults(basis, coef, pre.expression, dataset, cophenetic, rankMetrics);
+  if (typeof derived === "string") return derived;
+
+  const notes = [...pre.notes];
+  notes.push(
+    `rank ${k} selected (cophenetic ${optimal.cophenetic.toFixed(3)}); best of ${options.nrun} ${options.method} runs ` +
+    `after ${best.iterations} iterations`
+  );
+  if (options.nrun < 2) notes.push("a single run per rank has no consensus; the cophenetic correlation is always 1");
+  if (best.iterations >= options.maxIter) notes.push(`the best run stopped at the ${options.maxIter} iteration limit before converging`);
+  return { rawData: derived.rawData, notes: [...notes, ...derived.notes] };
+}
@@ -0,0 +1,30 @@
+/**
+ * Web Worker running the in-browser NMF analysis, so long factorizations
+ * don't block the page. Receives an NmfWorkerRequest and posts progress,
+ * then a result or an error (see NmfWorkerMessage).
+ */
+
+import { NmfWorkerMessage, NmfWorkerRequest, runNmfAnalysis } from "@/lib/nmf";
+import { missingRowsNote, parseNumericMatrix } from "@/lib/nmfMatrices";
+
+const post = (message: NmfWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<NmfWorkerRequest>) => {
+  const { text, dataset, options } = e.data;
+  try {
+    const expression = parseNumericMatrix(text);
+    if (typeof expression === "string") {
+      post({ type: "error", message: `Expression matrix: ${expression}` });
+      return;
+    }
+    const results = runNmfAnalysis(expression, dataset, options, progress => post({ type: "progress", progress }));
+    if (typeof results === "string") {
+      post({ type: "error", message: results });
+      return;
+    }
+    const note = missingRowsNote(expression, "Expression matrix");
+    post({ type: "result", results: note ? { ...results, notes: [note, ...results.notes] } : results });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * Loading a whole R CLI output directory, picked as a folder, dropped, or
+ * zipped
+ *
+ * nmf_analysis_cli.R writes nmf_results.json, the sample results and marker
+ * genes as separate JSON files, the updated samples_annotation.tsv, TSV
+ * matrices and PDF plots into one output directory. The component files are
+ * found by name anywhere in the bundle (the shallowest match wins).
+ */
+
+import JSZip from "jszip";
+
+export interface BundleEntry {
+  path: string; // Relative to the bundle root
+  text: () => Promise<string>;
+}
+
+export type BundleRole = "results" | "sampleResults" | "markerGenes" | "annotation";
+
+const BUNDLE_FILES: Record<BundleRole, RegExp> = {
+  results: /(^|\/)nmf_results\.json$/i,
+  sampleResults: /(^|\/)nmf_sample_results\.json$/i,
+  markerGenes: /(^|\/)nmf_marker_genes\.json$/i,
+  annotation: /(^|\/)samples?_annotations?\.(tsv|txt|csv)$/i,
+};
+
+export interface NmfBundle {
+  files: Partial<Record<BundleRole, string>>; // Path found for each component
+  otherFiles: string[]; // PDFs, matrices and anything else not loaded
+  rawData: Record<string, unknown>; // nmf_results.json, gaps filled from the component files
+  annotationText?: string;
+}
+
+// Skip dotfiles and the metadata folder macOS adds to ZIPs
+const isHidden = (path: string) => path.split("/").some(part => part.startsWith(".") || part === "__MACOSX");
+
+export const isZipFile = (file: File) => /\.zip$/i.test(file.name);
+
+export async function entriesFromZip(file: Blob): Promise<BundleEntry[]> {
+  const zip = await JSZip.loadAsync(file);
+  return Object.values(zip.files)
+    .filter(f => !f.dir)
+    .map(f => ({ path: f.name, text: () => f.async("string") }));
+}
+
+// Files from a directory picker carry their path in webkitRelativePath
+export function entriesFromFiles(files: File[]): BundleEntry[] {
+  return files.map(file => ({ path: file.webkitRelativePath || file.name, text: () => file.text() }));
+}
+
+const readDroppedEntry = async (entry: FileSystemEntry): Promise<BundleEntry[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ""), text: () => file.text() }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  return (await Promise.all(children.map(readDroppedEntry))).flat();
+};
+
+/**
+ * Entries from a drop that contains at least one folder, or null for plain
+ * files. Must be called before the drop handler awaits anything.
+ */
+export function droppedFolderEntries(items: DataTransferItemList): Promise<BundleEntry[]> | null {
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (!entries.some(entry => entry.isDirectory)) return null;
+  return Promise.all(entries.map(readDroppedEntry)).then(lists => lists.flat());
+}
+
+const readJson = async (entry: BundleEntry): Promise<unknown> => {
+  try {
+    return JSON.parse(await entry.text());
+  } catch (err) {
+    throw new Error(`${entry.path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+// jsonlite::write_json without auto_unbox writes every scalar as a 1-element array
+const unboxRecords = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(record =>
+        typeof record === "object" && record !== null && !Array.isArray(record)
+          ? Object.fromEntries(
+              Object.entries(record).map(([key, v]) => [key, Array.isArray(v) && v.length === 1 ? v[0] : v])
+            )
+          : record
+      )
+    : value;
+
+/**
+ * Find the component files of an output bundle and assemble the raw results
+ * JSON, or return an error message
+ */
+export async function readNmfBundle(entries: BundleEntry[]): Promise<NmfBundle | string> {
+  const visible = entries.filter(e => !isHidden(e.path));
+  const found: Partial<Record<BundleRole, BundleEntry>> = {};
+  (Object.keys(BUNDLE_FILES) as BundleRole[]).forEach(role => {
+    const matches = visible
+      .filter(e => BUNDLE_FILES[role].test(e.path))
+      .sort((a, b) => a.path.split("/").length - b.path.split("/").length);
+    if (matches.length > 0) found[role] = matches[0];
+  });
+
+  if (!found.results) {
+    return visible.length === 0
+      ? "The selected folder or ZIP is empty"
+      : "nmf_results.json not found in the selected folder or ZIP";
+  }
+
+  const rawData = await readJson(found.results);
+  if (typeof rawData !== "object" || rawData === null || Array.isArray(rawData)) {
+    return `${found.results.path} must contain a JSON object`;
+  }
+  const results = rawData as Record<string, unknown>;
+  if (results.sampleResults === undefined && results.samples === undefined && found.sampleResults) {
+    results.sampleResults = unboxRecords(await readJson(found.sampleResults));
+  }
+  if (results.markerGenes === undefined && results.marker_genes === undefined && found.markerGenes) {
+    results.markerGenes = unboxRecords(await readJson(found.markerGenes));
+  }
+
+  const used = new Set(Object.values(found));
+  return {
+    files: Object.fromEntries(Object.entries(found).map(([role, entry]) => [role, entry.path])),
+    otherFiles: visible.filter(e => !used.has(e)).map(e => e.path),
+    rawData: results,
+    annotationText: found.annotation ? await found.annotation.text() : undefined,
+  };
+}
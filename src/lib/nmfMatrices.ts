@@ -0,0 +1,255 @@
+/**
+ * NMF results from raw factor matrices
+ *
+ * Other tools (the NMF package, sklearn, nimfa) can export just the basis
+ * W (genes x k) and coefficient H (k x samples) matrices. From these, the
+ * samples are assigned to the factor with the largest coefficient, the top
+ * weighted genes of each factor become its markers (as in
+ * nmf_analysis_cli.R), and the summary is filled in. The result is raw
+ * results JSON for validateNmfData.
+ */
+
+import { NmfSummary, RankMetric } from "@/data/mockNmfData";
+import { MAX_NMF_RANK, MIN_NMF_RANK } from "@/lib/nmfScores";
+
+export interface NumericMatrix {
+  rowNames: string[] | null; // null when the file has no row names
+  colNames: string[] | null; // null when the file has no header
+  values: number[][];
+  missingRows?: string[]; // Rows dropped for missing values, by name or line
+}
+
+export interface DerivedNmfResults {
+  rawData: Record<string, unknown>;
+  notes: string[]; // Things the user should know about the derivation
+}
+
+export const MARKER_GENES_PER_FACTOR = 50;
+
+const isNumeric = (cell: string) => cell !== "" && Number.isFinite(Number(cell));
+// R's NA, pandas' NaN and blank cells
+const isMissing = (cell: string) => /^(na|nan|null)?$/i.test(cell);
+const unquote = (cell: string) => cell.trim().replace(/^["']|["']$/g, "");
+
+/**
+ * Parse a numeric matrix written as TSV, CSV or whitespace-separated text.
+ * Handles R's write.table layout (header one cell shorter than the rows),
+ * a header with a corner cell, and bare numbers (numpy.savetxt). A header
+ * with a cell for every column is taken to name the row-name column (so
+ * numeric gene IDs stay names) unless firstColumnRowNames is false. Rows
+ * with missing values are dropped and listed in missingRows.
+ */
+export function parseNumericMatrix(text: string, firstColumnRowNames: boolean = true): NumericMatrix | string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) return "file is empty";
+
+  const delimiter = lines[0].includes("\t") ? "\t" : lines[0].includes(",") ? "," : /\s+/;
+  const cells = lines.map(line => line.trim().split(delimiter).map(unquote));
+
+  const hasHeader = cells.length > 1 && (
+    !cells[0].every(cell => isNumeric(cell) || isMissing(cell)) || cells[0].length === cells[1].length - 1
+  );
+  const header = hasHeader ? cells[0] : null;
+  const rows = hasHeader ? cells.slice(1) : cells;
+  if (rows.length === 0) return "no data rows";
+
+  const rowLength = rows[0].length;
+  const hasRowNames = rows.some(row => !isNumeric(row[0]) && !isMissing(row[0])) || (header !== null && (
+    header.length === rowLength - 1 || (firstColumnRowNames && header.length === rowLength)
+  ));
+  const width = rowLength - (hasRowNames ? 1 : 0);
+  if (width < 1) return "no numeric columns";
+
+  const values: number[][] = [];
+  const rowNames: string[] = [];
+  const missingRows: string[] = [];
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r];
+    const line = r + (hasHeader ? 2 : 1);
+    if (row.length !== rowLength) return `line ${line} has ${row.length} cells, expected ${rowLength}`;
+    const numbers = row.slice(hasRowNames ? 1 : 0);
+    const bad = numbers.findIndex(cell => !isNumeric(cell) && !isMissing(cell));
+    if (bad >= 0) return `line ${line}: "${numbers[bad]}" is not a number`;
+    if (numbers.some(isMissing)) {
+      missingRows.push(hasRowNames ? row[0] : `line ${line}`);
+      continue;
+    }
+    rowNames.push(row[0]);
+    values.push(numbers.map(Number));
+  }
+  if (values.length === 0) return "every row has missing values";
+
+  return {
+    rowNames: hasRowNames ? rowNames : null,
+    colNames: header ? header.slice(header.length - width) : null,
+    values,
+    missingRows,
+  };
+}
+
+/**
+ * Note on the rows parseNumericMatrix dropped for missing values, or null
+ */
+export function missingRowsNote(m: NumericMatrix, label: string): string | null {
+  const rows = m.missingRows ?? [];
+  if (rows.length === 0) return null;
+  const listed = rows.slice(0, 5).join(", ") + (rows.length > 5 ? ", ..." : "");
+  return `${label}: ${rows.length} row${rows.length === 1 ? "" : "s"} with missing values (NA) dropped (${listed})`;
+}
+
+const transpose = (m: NumericMatrix): NumericMatrix => ({
+  rowNames: m.colNames,
+  colNames: m.rowNames,
+  values: m.values[0].map((_, j) => m.values.map(row => row[j])),
+});
+
+const nCols = (m: NumericMatrix) => m.values[0]?.length ?? 0;
+
+/**
+ * Mean silhouette width of a clustering of n items, given their pairwise
+ * distance
+ */
+export function meanSilhouette(n: number, distance: (i: number, j: number) => number, assignment: number[]): number {
+  if (n < 2 || new Set(assignment).size < 2) return 0;
+
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const sums = new Map<number, { sum: number; count: number }>();
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      const entry = sums.get(assignment[j]) ?? { sum: 0, count: 0 };
+      entry.sum += distance(i, j);
+      entry.count++;
+      sums.set(assignment[j], entry);
+    }
+    const own = sums.get(assignment[i]);
+    const a = own ? own.sum / own.count : 0;
+    let b = Infinity;
+    sums.forEach(({ sum, count }, cluster) => {
+      if (cluster !== assignment[i]) b = Math.min(b, sum / count);
+    });
+    if (b === Infinity) b = 0;
+    const maxAB = Math.max(a, b);
+    total += maxAB > 0 ? (b - a) / maxAB : 0;
+  }
+  return total / n;
+}
+
+const euclidean = (a: number[], b: number[]) => Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0));
+
+/**
+ * Build raw NMF results from W, H and optionally the expression matrix
+ * (genes x samples), or return an error message. W and H may be given in
+ * either orientation; the shared dimension is the rank. The cophenetic
+ * correlation needs consensus over repeated runs, which W and H alone don't
+ * provide, so it is NaN unless the caller ran them.
+ */
+export function deriveNmfResults(
+  w: NumericMatrix,
+  h: NumericMatrix,
+  expression: NumericMatrix | null,
+  dataset: string,
+  cophenetic: number = NaN,
+  rankMetrics?: RankMetric[]
+): DerivedNmfResults | string {
+  const inRange = (k: number) => k >= MIN_NMF_RANK && k <= MAX_NMF_RANK;
+  const orientations: [NumericMatrix, NumericMatrix][] = [
+    [w, h],
+    [transpose(w), h],
+    [w, transpose(h)],
+    [transpose(w), transpose(h)],
+  ];
+  const oriented = orientations.find(([basis, coef]) => nCols(basis) === coef.values.length && inRange(coef.values.length));
+  if (!oriented) {
+    return `W (${w.values.length} x ${nCols(w)}) and H (${h.values.length} x ${nCols(h)}) do not share a rank between ${MIN_NMF_RANK} and ${MAX_NMF_RANK}`;
+  }
+  const [basis, coef] = oriented;
+  const notes: string[] = [];
+  if (basis !== w) notes.push("W was transposed to genes x k");
+  if (coef !== h) notes.push("H was transposed to k x samples");
+
+  const k = coef.values.length;
+  const genes = basis.rowNames ?? basis.values.map((_, i) => `Gene_${i + 1}`);
+  const sampleIds = coef.colNames ?? coef.values[0].map((_, j) => `Sample_${j + 1}`);
+  if (!basis.rowNames) notes.push("W has no gene names; genes are numbered");
+  if (!coef.colNames) notes.push("H has no sample names; samples are numbered");
+  if ([...basis.values, ...coef.values].some(row => row.some(v => v < 0))) {
+    notes.push("W or H contains negative values; NMF factors are expected to be non-negative");
+  }
+
+  // Factor i defines Subtype_<i+1>, matching the R pipeline's names
+  const subtypes = Array.from({ length: k }, (_, i) => `Subtype_${i + 1}`);
+  const scores = sampleIds.map((_, j) => coef.values.map(row => row[j]));
+  const assignment = scores.map(vector => vector.indexOf(Math.max(...vector)));
+  const subtypeCounts = Object.fromEntries(subtypes.map((subtype, i) => [subtype, assignment.filter(a => a === i).length]));
+  const emptyFactors = subtypes.filter(subtype => subtypeCounts[subtype] === 0);
+  if (emptyFactors.length > 0) {
+    notes.push(`no samples load most on ${emptyFactors.join(", ")}; these factors have no marker genes`);
+  }
+
+  const markerGenes = subtypes.flatMap((subtype, factor) => {
+    if (subtypeCounts[subtype] === 0) return [];
+    const weights = basis.values.map(row => row[factor]);
+    const max = Math.max(...weights);
+    return weights
+      .map((weight, i) => ({ i, weight }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MARKER_GENES_PER_FACTOR)
+      .map(({ i, weight }) => ({ gene: genes[i], subtype, weight: max > 0 ? weight / max : 0 }));
+  });
+
+  // Heatmap of the marker genes: measured expression where it matches,
+  // otherwise the W x H reconstruction
+  const markerIndex = [...new Set(markerGenes.map(m => m.gene))].map(gene => genes.indexOf(gene));
+  let heatmapData: Record<string, unknown>;
+  const exprRows = new Map((expression?.rowNames ?? []).map((gene, i) => [gene, i]));
+  const exprCols = new Map((expression?.colNames ?? []).map((sample, j) => [sample, j]));
+  const heatmapGenes = markerIndex.filter(i => exprRows.has(genes[i]));
+  const heatmapSamples = sampleIds.flatMap((id, j) => (exprCols.has(id) ? [j] : []));
+  if (expression && heatmapGenes.length > 0 && heatmapSamples.length > 0) {
+    heatmapData = {
+      genes: heatmapGenes.map(i => genes[i]),
+      samples: heatmapSamples.map(j => sampleIds[j]),
+      sampleSubtypes: heatmapSamples.map(j => subtypes[assignment[j]]),
+      values: heatmapGenes.map(i => {
+        const row = expression.values[exprRows.get(genes[i])!];
+        return heatmapSamples.map(j => row[exprCols.get(sampleIds[j])!]);
+      }),
+    };
+    if (heatmapSamples.length < sampleIds.length) {
+      notes.push(`${sampleIds.length - heatmapSamples.length} samples of H are missing from the expression matrix`);
+    }
+  } else {
+    if (expression) notes.push("expression matrix gene or sample names do not match W and H; the heatmap shows W x H");
+    heatmapData = {
+      genes: markerIndex.map(i => genes[i]),
+      samples: sampleIds,
+      sampleSubtypes: assignment.map(a => subtypes[a]),
+      values: markerIndex.map(i => sampleIds.map((_, j) => basis.values[i].reduce((sum, wv, f) => sum + wv * coef.values[f][j], 0))),
+    };
+  }
+
+  const summary: NmfSummary = {
+    dataset,
+    n_samples: sampleIds.length,
+    n_genes: expression ? expression.values.length : genes.length,
+    n_subtypes: k,
+    subtype_counts: subtypeCounts,
+    cophenetic_correlation: cophenetic,
+    // Euclidean distances between score vectors, as in the Clustering Metrics panel
+    silhouette_mean: Math.round(meanSilhouette(scores.length, (i, j) => euclidean(scores[i], scores[j]), assignment) * 100) / 100,
+    optimal_rank: k,
+  };
+
+  return {
+    rawData: {
+      summary,
+      sampleResults: sampleIds.map((sample_id, j) => ({ sample_id, subtype: subtypes[assignment[j]], scores: scores[j] })),
+      scoreSubtypes: subtypes,
+      markerGenes,
+      heatmapData,
+      ...(rankMetrics && { rankMetrics }),
+    },
+    notes,
+  };
+}
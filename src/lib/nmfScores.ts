@@ -0,0 +1,85 @@
+/**
+ * NMF sample scores of any rank
+ *
+ * The R CLI writes one coefficient column per factor of the H matrix
+ * (score_subtype_1 .. score_subtype_k). Samples carry these as a score
+ * vector, and scoreSubtypes[i] names the subtype that factor i defines, so
+ * every consumer works for whichever rank was selected.
+ */
+
+import { SampleResult, compareSubtypes } from "@/data/mockNmfData";
+
+export const MIN_NMF_RANK = 2;
+export const MAX_NMF_RANK = 12;
+
+const SCORE_KEY_PREFIX = "score_";
+
+const trailingNumber = (value: string) => value.match(/(\d+)$/)?.[1];
+
+/**
+ * Subtype a score column belongs to: a subtype with the same name
+ * (score_<subtype>) or the same trailing number (score_subtype_3 -> Subtype_3),
+ * otherwise the column name without its prefix
+ */
+export function scoreSubtypeFor(key: string, subtypes: string[]): string {
+  const suffix = key.slice(SCORE_KEY_PREFIX.length);
+  const named = subtypes.find(s => s.toLowerCase() === suffix.toLowerCase());
+  if (named) return named;
+  const index = trailingNumber(suffix);
+  return (index && subtypes.find(s => trailingNumber(s) === index)) || suffix;
+}
+
+/**
+ * Score vectors from sample records, which hold either a `scores` array or
+ * score_* columns (ordered numerically, so score_subtype_10 follows _9).
+ * Problems are reported with paths relative to the records array.
+ */
+export function normalizeSampleScores(
+  records: Record<string, unknown>[],
+  subtypes: string[],
+  scoreSubtypes?: string[]
+): { samples: SampleResult[]; scoreSubtypes: string[]; errors: { path: string; message: string }[] } {
+  const first = records[0] ?? {};
+  const keys = Array.isArray(first.scores)
+    ? null
+    : Object.keys(first).filter(k => k.startsWith(SCORE_KEY_PREFIX)).sort(compareSubtypes);
+  const k = keys ? keys.length : (first.scores as unknown[]).length;
+  if (k < MIN_NMF_RANK || k > MAX_NMF_RANK) {
+    return {
+      samples: [],
+      scoreSubtypes: [],
+      errors: [{ path: "[0]", message: `expected ${MIN_NMF_RANK}-${MAX_NMF_RANK} NMF scores per sample, found ${k}` }],
+    };
+  }
+
+  const errors: { path: string; message: string }[] = [];
+  const samples = records.map((record, i): SampleResult => {
+    let values: unknown[];
+    if (keys) {
+      values = keys.map(key => record[key]);
+      keys.forEach((key, c) => {
+        if (typeof values[c] !== "number" || !Number.isFinite(values[c])) {
+          errors.push({ path: `[${i}].${key}`, message: "score must be a finite number" });
+        }
+      });
+    } else if (!Array.isArray(record.scores) || record.scores.length !== k) {
+      values = [];
+      errors.push({ path: `[${i}].scores`, message: `expected an array of ${k} scores` });
+    } else {
+      values = record.scores;
+      values.forEach((v, c) => {
+        if (typeof v !== "number" || !Number.isFinite(v)) {
+          errors.push({ path: `[${i}].scores[${c}]`, message: "score must be a finite number" });
+        }
+      });
+    }
+    return { sample_id: String(record.sample_id), subtype: String(record.subtype), scores: values as number[] };
+  });
+
+  const labels = scoreSubtypes && scoreSubtypes.length === k
+    ? scoreSubtypes
+    : keys
+      ? keys.map(key => scoreSubtypeFor(key, subtypes))
+      : Array.from({ length: k }, (_, i) => subtypes[i] ?? `Factor_${i + 1}`);
+  return { samples, scoreSubtypes: labels, errors };
+}
@@ -0,0 +1,427 @@
+/**
+ * Schema validation for uploaded NMF results JSON
+ *
+ * Checks types and cross-field consistency (subtype counts vs samples,
+ * heatmap dimensions, marker subtypes, score vectors) and reports every
+ * problem with its JSON path. Errors prevent loading; warnings flag data
+ * the dashboard can still use, possibly after dropping records.
+ */
+
+import { NmfData } from "@/components/bioinformatics/JsonUploader";
+import { NmfSummary, compareSubtypes } from "@/data/mockNmfData";
+import { normalizeSampleScores } from "@/lib/nmfScores";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: string; // JSON path, e.g. $.sampleResults[3].subtype
+  message: string;
+}
+
+export interface NmfValidationResult {
+  data: NmfData | null; // null when there are errors
+  issues: ValidationIssue[];
+}
+
+// Repeated problems of one kind (e.g. a bad cell in every heatmap row) are
+// listed this many times, followed by a count of the rest
+const MAX_ISSUES_PER_RULE = 5;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+const isNonNegativeInteger = (value: unknown): value is number =>
+  isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+  private counts = new Map<string, { count: number; first: ValidationIssue }>();
+
+  add(severity: ValidationSeverity, path: string, message: string, rule = `${severity}:${message}`) {
+    const issue = { severity, path, message };
+    const entry = this.counts.get(rule);
+    if (!entry) {
+      this.counts.set(rule, { count: 1, first: issue });
+    } else {
+      entry.count++;
+    }
+    if ((entry?.count ?? 1) <= MAX_ISSUES_PER_RULE) this.issues.push(issue);
+  }
+
+  error(path: string, message: string, rule?: string) {
+    this.add("error", path, message, rule);
+  }
+
+  warning(path: string, message: string, rule?: string) {
+    this.add("warning", path, message, rule);
+  }
+
+  // Issues with a "... and N more" entry for each truncated rule, errors first
+  report(): ValidationIssue[] {
+    const more: ValidationIssue[] = [];
+    this.counts.forEach(({ count, first }) => {
+      if (count > MAX_ISSUES_PER_RULE) {
+        more.push({
+          severity: first.severity,
+          path: first.path,
+          message: `...and ${count - MAX_ISSUES_PER_RULE} more: ${first.message}`,
+        });
+      }
+    });
+    const all = [...this.issues, ...more];
+    return [...all.filter(i => i.severity === "error"), ...all.filter(i => i.severity === "warning")];
+  }
+}
+
+/**
+ * Validate parsed JSON against the NmfData schema and normalize it
+ * (field aliases, score vectors, usable patient-level records)
+ */
+export function validateNmfData(json: unknown): NmfValidationResult {
+  const issues = new IssueCollector();
+  const fail = (): NmfValidationResult => ({ data: null, issues: issues.report() });
+
+  if (!isObject(json)) {
+    issues.error("$", "expected a JSON object");
+    return fail();
+  }
+
+  // --- summary ---
+  const summary = json.summary;
+  let subtypeCounts: Record<string, number> = {};
+  if (!isObject(summary)) {
+    issues.error("$.summary", "required object is missing");
+  } else {
+    if (!isNonNegativeInteger(summary.n_samples) || summary.n_samples === 0) {
+      issues.error("$.summary.n_samples", "must be a positive integer");
+    }
+    if (!isNonNegativeInteger(summary.n_subtypes) || summary.n_subtypes === 0) {
+      issues.error("$.summary.n_subtypes", "must be a positive integer");
+    }
+    if (!isObject(summary.subtype_counts)) {
+      issues.error("$.summary.subtype_counts", "required object is missing");
+    } else {
+      Object.entries(summary.subtype_counts).forEach(([subtype, count]) => {
+        if (!isNonNegativeInteger(count)) {
+          issues.error(`$.summary.subtype_counts.${subtype}`, "count must be a non-negative integer");
+        }
+      });
+      subtypeCounts = summary.subtype_counts as Record<string, number>;
+      const total = Object.values(subtypeCounts).reduce((sum, c) => sum + (isFiniteNumber(c) ? c : 0), 0);
+      if (isFiniteNumber(summary.n_samples) && total !== summary.n_samples) {
+        issues.error("$.summary.subtype_counts", `counts sum to ${total} but n_samples is ${summary.n_samples}`);
+      }
+      const nSubtypes = Object.keys(subtypeCounts).length;
+      if (isFiniteNumber(summary.n_subtypes) && nSubtypes !== summary.n_subtypes) {
+        issues.error("$.summary.subtype_counts", `lists ${nSubtypes} subtypes but n_subtypes is ${summary.n_subtypes}`);
+      }
+    }
+    if (typeof summary.dataset !== "string") {
+      issues.error("$.summary.dataset", "must be a string");
+    }
+    if (!isNonNegativeInteger(summary.n_genes)) {
+      issues.error("$.summary.n_genes", "must be a non-negative integer");
+    }
+    // NaN marks a cophenetic correlation that could not be computed (e.g. W / H import)
+    if (typeof summary.cophenetic_correlation !== "number") {
+      issues.error("$.summary.cophenetic_correlation", "must be a number");
+    }
+    if (!isFiniteNumber(summary.silhouette_mean)) {
+      issues.error("$.summary.silhouette_mean", "must be a number");
+    }
+    if (summary.optimal_rank !== undefined && !isNonNegativeInteger(summary.optimal_rank)) {
+      issues.warning("$.summary.optimal_rank", "should be an integer");
+    }
+  }
+  const subtypes = Object.keys(subtypeCounts).sort(compareSubtypes);
+
+  // --- samples ---
+  const samplesKey = json.samples !== undefined ? "samples" : "sampleResults";
+  const rawSamples = json[samplesKey];
+  const samplesPath = `$.${samplesKey}`;
+  let normalizedScores: ReturnType<typeof normalizeSampleScores> | null = null;
+  const sampleIds = new Set<string>();
+  const sampleSubtypeCounts: Record<string, number> = {};
+
+  if (!Array.isArray(rawSamples) || rawSamples.length === 0) {
+    issues.error(samplesPath, "required non-empty array (samples or sampleResults) is missing");
+  } else {
+    let allObjects = true;
+    rawSamples.forEach((sample, i) => {
+      const path = `${samplesPath}[${i}]`;
+      if (!isObject(sample)) {
+        issues.error(path, "sample must be an object");
+        allObjects = false;
+        return;
+      }
+      if (!isNonEmptyString(sample.sample_id)) {
+        issues.error(`${path}.sample_id`, "must be a non-empty string");
+      } else if (sampleIds.has(sample.sample_id)) {
+        issues.error(`${path}.sample_id`, `duplicate sample ID "${sample.sample_id}"`, "duplicate-sample");
+      } else {
+        sampleIds.add(sample.sample_id);
+      }
+      if (!isNonEmptyString(sample.subtype)) {
+        issues.error(`${path}.subtype`, "must be a non-empty string");
+      } else {
+        sampleSubtypeCounts[sample.subtype] = (sampleSubtypeCounts[sample.subtype] ?? 0) + 1;
+        if (subtypes.length > 0 && !(sample.subtype in subtypeCounts)) {
+          issues.error(`${path}.subtype`, `subtype "${sample.subtype}" is not in summary.subtype_counts`, "unknown-sample-subtype");
+        }
+      }
+    });
+
+    if (json.scoreSubtypes !== undefined
+      && (!Array.isArray(json.scoreSubtypes) || !json.scoreSubtypes.every(isNonEmptyString))) {
+      issues.error("$.scoreSubtypes", "must be an array of subtype names");
+    }
+
+    if (allObjects) {
+      normalizedScores = normalizeSampleScores(
+        rawSamples as JsonObject[],
+        subtypes,
+        Array.isArray(json.scoreSubtypes) ? (json.scoreSubtypes as string[]) : undefined
+      );
+      normalizedScores.errors.forEach(e => issues.error(`${samplesPath}${e.path}`, e.message, `scores:${e.message}`));
+      if (Array.isArray(json.scoreSubtypes) && json.scoreSubtypes.length !== normalizedScores.scoreSubtypes.length) {
+        issues.warning("$.scoreSubtypes", "length does not match the number of scores per sample; ignored");
+      }
+      const k = normalizedScores.scoreSubtypes.length;
+      if (k > 0 && isObject(summary) && isFiniteNumber(summary.n_subtypes) && k !== summary.n_subtypes) {
+        issues.warning(`${samplesPath}[0]`, `samples have ${k} NMF scores but n_subtypes is ${summary.n_subtypes}`);
+      }
+    }
+
+    if (isObject(summary) && isFiniteNumber(summary.n_samples) && rawSamples.length !== summary.n_samples) {
+      issues.warning(samplesPath, `contains ${rawSamples.length} samples but summary.n_samples is ${summary.n_samples}`);
+    }
+    Object.entries(subtypeCounts).forEach(([subtype, count]) => {
+      const actual = sampleSubtypeCounts[subtype] ?? 0;
+      if (isFiniteNumber(count) && actual !== count) {
+        issues.warning(`$.summary.subtype_counts.${subtype}`, `is ${count} but ${actual} samples are assigned to ${subtype}`);
+      }
+    });
+  }
+  const sampleSubtypes = new Set(Object.keys(sampleSubtypeCounts));
+
+  // --- markerGenes ---
+  const markerKey = json.markerGenes !== undefined ? "markerGenes" : "marker_genes";
+  const markerGenes = json[markerKey];
+  if (!Array.isArray(markerGenes)) {
+    issues.error(`$.${markerKey}`, "required array is missing");
+  } else {
+    markerGenes.forEach((marker, i) => {
+      const path = `$.${markerKey}[${i}]`;
+      if (!isObject(marker)) {
+        issues.error(path, "marker gene must be an object");
+        return;
+      }
+      if (!isNonEmptyString(marker.gene)) issues.error(`${path}.gene`, "must be a non-empty string");
+      if (!isNonEmptyString(marker.subtype)) {
+        issues.error(`${path}.subtype`, "must be a non-empty string");
+      } else if (sampleSubtypes.size > 0 && !sampleSubtypes.has(marker.subtype)) {
+        issues.error(`${path}.subtype`, `subtype "${marker.subtype}" has no samples`, "unknown-marker-subtype");
+      }
+      if (marker.weight !== undefined && !isFiniteNumber(marker.weight)) {
+        issues.error(`${path}.weight`, "must be a number");
+      }
+    });
+  }
+
+  // --- heatmapData (optional) ---
+  const heatmap = json.heatmapData;
+  if (heatmap !== undefined) {
+    if (!isObject(heatmap)) {
+      issues.error("$.heatmapData", "must be an object");
+    } else {
+      const genes = heatmap.genes;
+      const samples = heatmap.samples;
+      const validGenes = Array.isArray(genes) && genes.every(g => typeof g === "string");
+      const validSamples = Array.isArray(samples) && samples.every(s => typeof s === "string");
+      if (!validGenes) issues.error("$.heatmapData.genes", "must be an array of gene names");
+      if (!validSamples) issues.error("$.heatmapData.samples", "must be an array of sample IDs");
+      if (!Array.isArray(heatmap.sampleSubtypes)) {
+        issues.error("$.heatmapData.sampleSubtypes", "must be an array");
+      } else if (validSamples && heatmap.sampleSubtypes.length !== samples.length) {
+        issues.error("$.heatmapData.sampleSubtypes", `has ${heatmap.sampleSubtypes.length} entries for ${samples.length} samples`);
+      }
+      if (!Array.isArray(heatmap.values)) {
+        issues.error("$.heatmapData.values", "must be a genes x samples matrix");
+      } else if (validGenes && validSamples) {
+        if (heatmap.values.length !== genes.length) {
+          issues.error("$.heatmapData.values", `has ${heatmap.values.length} rows for ${genes.length} genes`);
+        }
+        heatmap.values.forEach((row, g) => {
+          const path = `$.heatmapData.values[${g}]`;
+          if (!Array.isArray(row) || row.length !== samples.length) {
+            issues.error(path, `row must have ${samples.length} values (one per sample)`, "heatmap-row-length");
+            return;
+          }
+          row.forEach((value, s) => {
+            if (!isFiniteNumber(value)) issues.error(`${path}[${s}]`, "value must be a finite number", "heatmap-value");
+          });
+        });
+      }
+      if (validSamples && sampleIds.size > 0) {
+        (samples as string[]).forEach((id, s) => {
+          if (!sampleIds.has(id)) {
+            issues.warning(`$.heatmapData.samples[${s}]`, `sample "${id}" is not in ${samplesKey}`, "heatmap-unknown-sample");
+          }
+        });
+      }
+    }
+  }
+
+  // --- rankMetrics (optional) ---
+  if (json.rankMetrics !== undefined) {
+    if (!Array.isArray(json.rankMetrics)) {
+      issues.error("$.rankMetrics", "must be an array");
+    } else {
+      json.rankMetrics.forEach((metric, i) => {
+        const path = `$.rankMetrics[${i}]`;
+        if (!isObject(metric)) {
+          issues.error(path, "rank metric must be an object");
+          return;
+        }
+        if (!isNonNegativeInteger(metric.rank)) issues.error(`${path}.rank`, "must be an integer");
+        if (!isFiniteNumber(metric.cophenetic)) issues.error(`${path}.cophenetic`, "must be a number");
+        if (!isFiniteNumber(metric.silhouette)) issues.error(`${path}.silhouette`, "must be a number");
+      });
+      const ranks = json.rankMetrics.map(m => (isObject(m) ? m.rank : undefined));
+      if (isObject(summary) && isFiniteNumber(summary.optimal_rank) && !ranks.includes(summary.optimal_rank)) {
+        issues.warning("$.summary.optimal_rank", `rank ${summary.optimal_rank} is not among rankMetrics`);
+      }
+    }
+  }
+
+  // --- survivalData (optional) ---
+  if (json.survivalData !== undefined) {
+    if (!Array.isArray(json.survivalData)) {
+      issues.error("$.survivalData", "must be an array");
+    } else {
+      json.survivalData.forEach((curve, i) => {
+        const path = `$.survivalData[${i}]`;
+        if (!isObject(curve)) {
+          issues.error(path, "survival curve must be an object");
+          return;
+        }
+        if (!isNonEmptyString(curve.subtype)) issues.error(`${path}.subtype`, "must be a non-empty string");
+        if (!Array.isArray(curve.timePoints)) {
+          issues.error(`${path}.timePoints`, "must be an array");
+          return;
+        }
+        curve.timePoints.forEach((point, t) => {
+          if (!isObject(point) || !isFiniteNumber(point.time) || !isFiniteNumber(point.survival)) {
+            issues.error(`${path}.timePoints[${t}]`, "needs numeric time and survival", "survival-point");
+          } else if (point.survival < 0 || point.survival > 1) {
+            issues.error(`${path}.timePoints[${t}].survival`, "must be between 0 and 1", "survival-range");
+          }
+        });
+      });
+    }
+  }
+
+  // --- rawSurvivalData (optional): unusable records are dropped ---
+  let rawSurvivalData: NmfData["rawSurvivalData"];
+  if (json.rawSurvivalData !== undefined) {
+    if (!Array.isArray(json.rawSurvivalData)) {
+      issues.error("$.rawSurvivalData", "must be an array");
+    } else {
+      let dropped = 0;
+      rawSurvivalData = [];
+      json.rawSurvivalData.forEach((record, i) => {
+        const path = `$.rawSurvivalData[${i}]`;
+        if (!isObject(record) || typeof record.sample_id !== "string") {
+          dropped++;
+          return;
+        }
+        // Number("") and Number(null) are 0, so blank times are caught first
+        const time = isNonEmptyString(record.time) || isFiniteNumber(record.time) ? Number(record.time) : NaN;
+        if (!Number.isFinite(time)) {
+          issues.warning(`${path}.time`, "is blank or not a number; record skipped", "raw-time");
+          return;
+        }
+        if (time < 0) {
+          issues.warning(`${path}.time`, "is negative; record skipped", "raw-negative-time");
+          return;
+        }
+        const eventText = String(record.event).trim().toLowerCase();
+        let event: number;
+        if (eventText === "1" || eventText === "true") {
+          event = 1;
+        } else if (eventText === "0" || eventText === "false") {
+          event = 0;
+        } else {
+          issues.warning(`${path}.event`, "should be 0/1 or true/false; non-zero values count as events", "raw-event");
+          event = Number(record.event) ? 1 : 0;
+        }
+        if (sampleIds.size > 0 && !sampleIds.has(record.sample_id)) {
+          issues.warning(`${path}.sample_id`, `sample "${record.sample_id}" is not in ${samplesKey}`, "raw-unknown-sample");
+        }
+        rawSurvivalData.push({
+          sample_id: record.sample_id,
+          subtype: String(record.subtype),
+          time,
+          event,
+        });
+      });
+      if (dropped > 0) {
+        issues.warning("$.rawSurvivalData", `${dropped} record(s) without a sample_id were skipped`);
+      }
+    }
+  }
+
+  // --- pre-computed statistics (optional) ---
+  if (json.survival_pvalue !== undefined
+    && (!isFiniteNumber(json.survival_pvalue) || json.survival_pvalue < 0 || json.survival_pvalue > 1)) {
+    issues.error("$.survival_pvalue", "must be a number between 0 and 1");
+  }
+  const cox = json.coxPHResults;
+  if (cox !== undefined) {
+    if (!isObject(cox)) {
+      issues.error("$.coxPHResults", "must be an object");
+    } else {
+      if (!isNonEmptyString(cox.referenceGroup)) issues.error("$.coxPHResults.referenceGroup", "must be a non-empty string");
+      if (!Array.isArray(cox.groups)) {
+        issues.error("$.coxPHResults.groups", "must be an array");
+      } else {
+        cox.groups.forEach((group, i) => {
+          const path = `$.coxPHResults.groups[${i}]`;
+          const fields = ["hazardRatio", "lowerCI", "upperCI", "pValue"];
+          if (!isObject(group) || !isNonEmptyString(group.subtype) || !fields.every(f => isFiniteNumber(group[f]))) {
+            issues.error(path, `needs subtype and numeric ${fields.join(", ")}`);
+          }
+        });
+      }
+      const wald = cox.waldTest;
+      if (!isObject(wald) || !["chiSquare", "df", "pValue"].every(f => isFiniteNumber(wald[f]))) {
+        issues.error("$.coxPHResults.waldTest", "needs numeric chiSquare, df and pValue");
+      }
+    }
+  }
+
+  const report = issues.report();
+  if (report.some(i => i.severity === "error") || !normalizedScores) return { data: null, issues: report };
+
+  return {
+    data: {
+      summary: summary as unknown as NmfSummary,
+      samples: normalizedScores.samples,
+      scoreSubtypes: normalizedScores.scoreSubtypes,
+      markerGenes: markerGenes as NmfData["markerGenes"],
+      heatmapData: heatmap as NmfData["heatmapData"],
+      rankMetrics: json.rankMetrics as NmfData["rankMetrics"],
+      survivalData: json.survivalData as NmfData["survivalData"],
+      rawSurvivalData: rawSurvivalData && rawSurvivalData.length > 0 ? rawSurvivalData : undefined,
+      survival_pvalue: json.survival_pvalue as number | undefined,
+      coxPHResults: json.coxPHResults as NmfData["coxPHResults"],
+    },
+    issues: report,
+  };
+}
@@ -0,0 +1,383 @@
+/**
+ * Principal component analysis on a samples x features matrix
+ *
+ * Matches R's prcomp(x, center, scale.):
+ *  - exact: symmetric eigendecomposition (Householder tridiagonalisation and
+ *    implicit QL, as in EISPACK tred2/tql2) of the smaller of the n x n Gram
+ *    matrix and the p x p covariance matrix
+ *  - randomized SVD (Halko, Martinsson & Tropp 2011) with power iterations
+ *    when only a few components of a large matrix are needed
+ * Component signs are fixed so the largest absolute loading is positive,
+ * so every view of the same data shows the same orientation.
+ */
+
+import { DEFAULT_SEED, randomNormal, seededRandom } from "@/lib/random";
+
+export interface PCAOptions {
+  center?: boolean;
+  scale?: boolean;
+  nComponents?: number;
+  seed?: number;
+}
+
+export interface PCAResult {
+  scores: number[][]; // samples x components
+  loadings: number[][]; // features x components (unit-length rotation)
+  sdev: number[];
+  eigenvalues: number[]; // variance of each component
+  varianceExplained: number[]; // percent of total variance
+  cumulativeVariance: number[]; // percent
+  totalVariance: number;
+  means: number[];
+  scales: number[] | null;
+}
+
+// Components computed for the dashboard views (scatter axes, scree plot)
+export const PCA_COMPONENTS = 50;
+
+// Use the randomized SVD above this size when few components are requested
+const RANDOMIZED_MIN_DIMENSION = 500;
+const RANDOMIZED_OVERSAMPLE = 20;
+const RANDOMIZED_POWER_ITERATIONS = 4;
+
+/**
+ * Eigenvalues (descending) and eigenvectors (columns) of a symmetric matrix
+ */
+export function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const V = matrix.map(row => [...row]);
+  const d = new Array(n).fill(0);
+  const e = new Array(n).fill(0);
+  if (n === 0) return { values: [], vectors: [] };
+
+  // Householder reduction to tridiagonal form (tred2)
+  for (let j = 0; j < n; j++) d[j] = V[n - 1][j];
+  for (let i = n - 1; i > 0; i--) {
+    let scale = 0;
+    let h = 0;
+    for (let k = 0; k < i; k++) scale += Math.abs(d[k]);
+    if (scale === 0) {
+      e[i] = d[i - 1];
+      for (let j = 0; j < i; j++) {
+        d[j] = V[i - 1][j];
+        V[i][j] = 0;
+        V[j][i] = 0;
+      }
+    } else {
+      for (let k = 0; k < i; k++) {
+        d[k] /= scale;
+        h += d[k] * d[k];
+      }
+      let f = d[i - 1];
+      let g = Math.sqrt(h);
+      if (f > 0) g = -g;
+      e[i] = scale * g;
+      h -= f * g;
+      d[i - 1] = f - g;
+      for (let j = 0; j < i; j++) e[j] = 0;
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        V[j][i] = f;
+        g = e[j] + V[j][j] * f;
+        for (let k = j + 1; k <= i - 1; k++) {
+          g += V[k][j] * d[k];
+          e[k] += V[k][j] * f;
+        }
+        e[j] = g;
+      }
+      f = 0;
+      for (let j = 0; j < i; j++) {
+        e[j] /= h;
+        f += e[j] * d[j];
+      }
+      const hh = f / (h + h);
+      for (let j = 0; j < i; j++) e[j] -= hh * d[j];
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        g = e[j];
+        for (let k = j; k <= i - 1; k++) V[k][j] -= f * e[k] + g * d[k];
+        d[j] = V[i - 1][j];
+        V[i][j] = 0;
+      }
+    }
+    d[i] = h;
+  }
+
+  // Accumulate transformations
+  for (let i = 0; i < n - 1; i++) {
+    V[n - 1][i] = V[i][i];
+    V[i][i] = 1;
+    const h = d[i + 1];
+    if (h !== 0) {
+      for (let k = 0; k <= i; k++) d[k] = V[k][i + 1] / h;
+      for (let j = 0; j <= i; j++) {
+        let g = 0;
+        for (let k = 0; k <= i; k++) g += V[k][i + 1] * V[k][j];
+        for (let k = 0; k <= i; k++) V[k][j] -= g * d[k];
+      }
+    }
+    for (let k = 0; k <= i; k++) V[k][i + 1] = 0;
+  }
+  for (let j = 0; j < n; j++) {
+    d[j] = V[n - 1][j];
+    V[n - 1][j] = 0;
+  }
+  V[n - 1][n - 1] = 1;
+  e[0] = 0;
+
+  // Implicit QL iterations on the tridiagonal matrix (tql2)
+  for (let i = 1; i < n; i++) e[i - 1] = e[i];
+  e[n - 1] = 0;
+  let f = 0;
+  let tst1 = 0;
+  const eps = Math.pow(2, -52);
+  for (let l = 0; l < n; l++) {
+    tst1 = Math.max(tst1, Math.abs(d[l]) + Math.abs(e[l]));
+    let m = l;
+    while (m < n) {
+      if (Math.abs(e[m]) <= eps * tst1) break;
+      m++;
+    }
+    if (m > l) {
+      do {
+        let g = d[l];
+        let p = (d[l + 1] - g) / (2 * e[l]);
+        let r = Math.hypot(p, 1);
+        if (p < 0) r = -r;
+        d[l] = e[l] / (p + r);
+        d[l + 1] = e[l] * (p + r);
+        const dl1 = d[l + 1];
+        let h = g - d[l];
+        for (let i = l + 2; i < n; i++) d[i] -= h;
+        f += h;
+
+        p = d[m];
+        let c = 1;
+        let c2 = c;
+        let c3 = c;
+        const el1 = e[l + 1];
+        let s = 0;
+        let s2 = 0;
+        for (let i = m - 1; i >= l; i--) {
+          c3 = c2;
+          c2 = c;
+          s2 = s;
+          g = c * e[i];
+          h = c * p;
+          r = Math.hypot(p, e[i]);
+          e[i + 1] = s * r;
+          s = e[i] / r;
+          c = p / r;
+          p = c * d[i] - s * g;
+          d[i + 1] = h + s * (c * g + s * d[i]);
+          for (let k = 0; k < n; k++) {
+            h = V[k][i + 1];
+            V[k][i + 1] = s * V[k][i] + c * h;
+            V[k][i] = c * V[k][i] - s * h;
+          }
+        }
+        p = (-s * s2 * c3 * el1 * e[l]) / dl1;
+        e[l] = s * p;
+        d[l] = c * p;
+      } while (Math.abs(e[l]) > eps * tst1);
+    }
+    d[l] += f;
+    e[l] = 0;
+  }
+
+  const order = d.map((_, i) => i).sort((a, b) => d[b] - d[a]);
+  return {
+    values: order.map(i => d[i]),
+    vectors: V.map(row => order.map(i => row[i])),
+  };
+}
+
+/**
+ * Orthonormal basis of the columns of A (modified Gram-Schmidt)
+ */
+function orthonormalColumns(A: number[][]): number[][] {
+  const rows = A.length;
+  const cols = A[0]?.length ?? 0;
+  const Q = A.map(row => [...row]);
+  for (let j = 0; j < cols; j++) {
+    for (let k = 0; k < j; k++) {
+      let dot = 0;
+      for (let i = 0; i < rows; i++) dot += Q[i][k] * Q[i][j];
+      for (let i = 0; i < rows; i++) Q[i][j] -= dot * Q[i][k];
+    }
+    let norm = 0;
+    for (let i = 0; i < rows; i++) norm += Q[i][j] * Q[i][j];
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < rows; i++) Q[i][j] = norm > 1e-12 ? Q[i][j] / norm : 0;
+  }
+  return Q;
+}
+
+// A (n x p) times B (p x k)
+const multiply = (A: number[][], B: number[][]): number[][] => {
+  const k = B[0]?.length ?? 0;
+  return A.map(row => {
+    const out = new Array(k).fill(0);
+    row.forEach((a, j) => {
+      if (a === 0) return;
+      const bj = B[j];
+      for (let c = 0; c < k; c++) out[c] += a * bj[c];
+    });
+    return out;
+  });
+};
+
+// A' (p x n) times B (n x k)
+const multiplyTransposed = (A: number[][], B: number[][]): number[][] => {
+  const p = A[0]?.length ?? 0;
+  const k = B[0]?.length ?? 0;
+  const out = Array.from({ length: p }, () => new Array(k).fill(0));
+  A.forEach((row, i) => {
+    const bi = B[i];
+    row.forEach((a, j) => {
+      if (a === 0) return;
+      const oj = out[j];
+      for (let c = 0; c < k; c++) oj[c] += a * bi[c];
+    });
+  });
+  return out;
+};
+
+/**
+ * Leading k singular triplets of A (n x p): A ~ U diag(s) V'
+ */
+export function randomizedSVD(
+  A: number[][],
+  k: number,
+  random: () => number = seededRandom(DEFAULT_SEED)
+): { u: number[][]; s: number[]; v: number[][] } {
+  const p = A[0]?.length ?? 0;
+  const l = Math.min(k + RANDOMIZED_OVERSAMPLE, A.length, p);
+
+  // Range finder with power iterations, re-orthonormalising in between
+  const omega = Array.from({ length: p }, () => Array.from({ length: l }, () => randomNormal(random)));
+  let Q = orthonormalColumns(multiply(A, omega));
+  for (let q = 0; q < RANDOMIZED_POWER_ITERATIONS; q++) {
+    const Z = orthonormalColumns(multiplyTransposed(A, Q));
+    Q = orthonormalColumns(multiply(A, Z));
+  }
+
+  // B = Q'A (l x p); its SVD through the small l x l matrix B B'
+  const Bt = multiplyTransposed(A, Q); // p x l = (Q'A)'
+  const BBt = Array.from({ length: l }, (_, i) =>
+    Array.from({ length: l }, (_, j) => Bt.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const { values, vectors } = symmetricEigen(BBt);
+  const s = values.slice(0, k).map(v => Math.sqrt(Math.max(0, v)));
+  const uSmall = vectors.map(row => row.slice(0, k));
+  const u = multiply(Q, uSmall);
+  const v = multiply(Bt, uSmall).map(row => row.map((x, c) => (s[c] > 0 ? x / s[c] : 0)));
+  return { u, s, v };
+}
+
+/**
+ * Principal components of the rows of data (samples x features)
+ */
+export function pca(data: number[][], options: PCAOptions = {}): PCAResult {
+  const n = data.length;
+  const p = data[0]?.length ?? 0;
+  const center = options.center ?? true;
+  const empty: PCAResult = {
+    scores: data.map(() => []),
+    loadings: Array.from({ length: p }, () => []),
+    sdev: [],
+    eigenvalues: [],
+    varianceExplained: [],
+    cumulativeVariance: [],
+    totalVariance: 0,
+    means: new Array(p).fill(0),
+    scales: null,
+  };
+  if (n < 2 || p === 0) return empty;
+
+  const means = center ? Array.from({ length: p }, (_, j) => data.reduce((sum, row) => sum + row[j], 0) / n) : new Array(p).fill(0);
+  // Features with zero variance keep scale 1 (prcomp would refuse them)
+  const scales = options.scale
+    ? means.map((m, j) => Math.sqrt(data.reduce((sum, row) => sum + (row[j] - m) ** 2, 0) / (n - 1)) || 1)
+    : null;
+  const X = data.map(row => row.map((v, j) => (v - means[j]) / (scales ? scales[j] : 1)));
+  const totalVariance = X.reduce((sum, row) => sum + row.reduce((s, v) => s + v * v, 0), 0) / (n - 1);
+  if (totalVariance === 0) return { ...empty, means, scales };
+
+  const rank = Math.min(center ? n - 1 : n, p);
+  const k = Math.max(1, Math.min(options.nComponents ?? rank, rank));
+
+  let eigenvalues: number[];
+  let loadings: number[][]; // p x k
+  let scores: number[][]; // n x k
+
+  if (Math.min(n, p) > RANDOMIZED_MIN_DIMENSION && k * 10 < Math.min(n, p)) {
+    const { u, s, v } = randomizedSVD(X, k, seededRandom(options.seed ?? DEFAULT_SEED));
+    eigenvalues = s.map(x => (x * x) / (n - 1));
+    loadings = v;
+    scores = u.map(row => row.map((x, c) => x * s[c]));
+  } else if (n <= p) {
+    // Eigenvectors of the Gram matrix X X' give the scores directly
+    const gram = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        let sum = 0;
+        const xi = X[i];
+        const xj = X[j];
+        for (let c = 0; c < p; c++) sum += xi[c] * xj[c];
+        gram[i][j] = gram[j][i] = sum;
+      }
+    }
+    const { values, vectors } = symmetricEigen(gram);
+    eigenvalues = values.slice(0, k).map(v => Math.max(0, v) / (n - 1));
+    const singular = values.slice(0, k).map(v => Math.sqrt(Math.max(0, v)));
+    scores = vectors.map(row => row.slice(0, k).map((x, c) => x * singular[c]));
+    loadings = multiplyTransposed(X, vectors.map(row => row.slice(0, k)))
+      .map(row => row.map((x, c) => (singular[c] > 0 ? x / singular[c] : 0)));
+  } else {
+    const cov = multiplyTransposed(X, X).map(row => row.map(v => v / (n - 1)));
+    const { values, vectors } = symmetricEigen(cov);
+    eigenvalues = values.slice(0, k).map(v => Math.max(0, v));
+    loadings = vectors.map(row => row.slice(0, k));
+    scores = multiply(X, loadings);
+  }
+
+  // Drop numerically null components
+  const kept = eigenvalues.filter(v => v > 1e-12 * totalVariance).length;
+  eigenvalues = eigenvalues.slice(0, kept);
+  loadings = loadings.map(row => row.slice(0, kept));
+  scores = scores.map(row => row.slice(0, kept));
+
+  // Deterministic orientation: the largest absolute loading is positive
+  for (let c = 0; c < kept; c++) {
+    let largest = 0;
+    loadings.forEach(row => { if (Math.abs(row[c]) > Math.abs(largest)) largest = row[c]; });
+    if (largest < 0) {
+      loadings.forEach(row => { row[c] = -row[c]; });
+      scores.forEach(row => { row[c] = -row[c]; });
+    }
+  }
+
+  const varianceExplained = eigenvalues.map(v => (v / totalVariance) * 100);
+  let running = 0;
+  const cumulativeVariance = varianceExplained.map(v => Math.min(100, (running += v)));
+
+  return {
+    scores,
+    loadings,
+    sdev: eigenvalues.map(Math.sqrt),
+    eigenvalues,
+    varianceExplained,
+    cumulativeVariance,
+    totalVariance,
+    means,
+    scales,
+  };
+}
+
+/**
+ * Samples x features matrix from a genes x samples expression matrix
+ */
+export function samplesByFeatures(values: number[][], sampleIndices: number[]): number[][] {
+  return sampleIndices.map(s => values.map(geneRow => geneRow[s]));
+}
@@ -0,0 +1,204 @@
+/**
+ * Proportional hazards assumption diagnostics for exact Cox fits
+ *
+ * Implements the Grambsch-Therneau test on scaled Schoenfeld residuals as in
+ * R's classic survival::cox.zph: each covariate's scaled residuals are
+ * correlated with a transform of event time (Kaplan-Meier by default), giving
+ * a 1-df chi-square per covariate and a global test. A slope in the scaled
+ * residuals means the log hazard ratio drifts over time.
+ * Also provides log(-log S) vs log(time) curves, which should run parallel
+ * between groups when hazards are proportional.
+ */
+
+import { SurvivalData } from "@/components/bioinformatics/SurvivalCurve";
+import { CoxFit, CoxFitOptions, CoxModelTest, quadraticForm, schoenfeldResiduals } from "@/lib/coxRegression";
+import { chiSquarePValue } from "@/lib/distributions";
+import { kaplanMeier } from "@/lib/kaplanMeier";
+
+export type TimeTransform = 'km' | 'rank' | 'identity' | 'log';
+
+export interface ZphCovariateTest extends CoxModelTest {
+  name: string;
+  rho: number; // correlation between transformed time and scaled residuals
+}
+
+export interface ZphResult {
+  transform: TimeTransform;
+  covariates: ZphCovariateTest[];
+  global: CoxModelTest;
+  eventTimes: number[];
+  transformedTimes: number[];
+  // beta + scaled Schoenfeld residual, one row per event (β(t) estimate)
+  scaledResiduals: number[][];
+  coefficients: number[];
+}
+
+export interface LogLogPoint {
+  time: number;
+  logTime: number;
+  logMinusLogSurvival: number;
+}
+
+export const TIME_TRANSFORM_LABELS: Record<TimeTransform, string> = {
+  km: 'Kaplan-Meier',
+  rank: 'Rank',
+  identity: 'Identity',
+  log: 'Log',
+};
+
+function pearson(x: number[], y: number[]): number {
+  const n = x.length;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/**
+ * Transform event times. 'km' uses 1 - S(t-) from the pooled Kaplan-Meier
+ * curve, which spreads events evenly and is robust to outlying times.
+ */
+function transformTimes(eventTimes: number[], time: number[], event: number[], transform: TimeTransform): number[] {
+  switch (transform) {
+    case 'identity':
+      return [...eventTimes];
+    case 'log':
+      return eventTimes.map(t => Math.log(Math.max(t, Number.MIN_VALUE)));
+    case 'rank': {
+      // Average ranks for ties
+      return eventTimes.map(t => {
+        const below = eventTimes.filter(u => u < t).length;
+        const tied = eventTimes.filter(u => u === t).length;
+        return below + (tied + 1) / 2;
+      });
+    }
+    case 'km': {
+      const curve = kaplanMeier(time.map((t, i) => ({ time: t, event: event[i] })));
+      return eventTimes.map(t => {
+        let survivalBefore = 1;
+        for (const point of curve) {
+          if (point.time >= t) break;
+          survivalBefore = point.survival;
+        }
+        return 1 - survivalBefore;
+      });
+    }
+  }
+}
+
+/**
+ * Grambsch-Therneau test of proportional hazards for a fitted Cox model
+ *
+ * @param names covariate (design column) names, in the order of fit.coefficients
+ */
+export function coxZph(
+  fit: CoxFit,
+  time: number[],
+  event: number[],
+  X: number[][],
+  names: string[],
+  transform: TimeTransform = 'km',
+  options: Pick<CoxFitOptions, 'strata' | 'weights'> = {}
+): ZphResult | null {
+  const { time: eventTimes, residuals } = schoenfeldResiduals(fit, time, event, X, options);
+  const nEvents = eventTimes.length;
+  const p = fit.coefficients.length;
+  if (nEvents < 3 || p === 0) return null;
+
+  const g = transformTimes(eventTimes, time, event, transform);
+  const gMean = g.reduce((a, b) => a + b, 0) / nEvents;
+  const gc = g.map(v => v - gMean);
+  const gSS = gc.reduce((sum, v) => sum + v * v, 0);
+  if (gSS === 0) return null;
+
+  // Scaled residuals: nEvents * V * r_k (so that E[scaled + β] ≈ β(t))
+  const V = fit.variance;
+  const scaled = residuals.map(r => V.map(row => nEvents * row.reduce((sum, v, b) => sum + v * r[b], 0)));
+
+  const covariates = names.map((name, j) => {
+    const column = scaled.map(r => r[j]);
+    const test = gc.reduce((sum, v, k) => sum + v * column[k], 0);
+    const chiSquare = (test * test) / (V[j][j] * nEvents * gSS);
+    return { name, rho: pearson(g, column), chiSquare, df: 1, pValue: chiSquarePValue(chiSquare, 1) };
+  });
+
+  // Global test uses the unscaled residuals
+  const rawTest = Array.from({ length: p }, (_, j) => gc.reduce((sum, v, k) => sum + v * residuals[k][j], 0));
+  const globalChiSquare = (quadraticForm(rawTest, V) * nEvents) / gSS;
+
+  return {
+    transform,
+    covariates,
+    global: { chiSquare: globalChiSquare, df: p, pValue: chiSquarePValue(globalChiSquare, p) },
+    eventTimes,
+    transformedTimes: g,
+    scaledResiduals: scaled.map(r => r.map((v, j) => v + fit.coefficients[j])),
+    coefficients: fit.coefficients,
+  };
+}
+
+/**
+ * Locally weighted linear smoother (tricube kernel, no robustness
+ * iterations) evaluated on a grid, for drawing trends through residual plots
+ */
+export function lowessSmooth(
+  x: number[],
+  y: number[],
+  span: number = 2 / 3,
+  gridSize: number = 50
+): { x: number; y: number }[] {
+  const n = x.length;
+  if (n < 3) return [];
+  const k = Math.max(3, Math.min(n, Math.ceil(span * n)));
+  const min = Math.min(...x);
+  const max = Math.max(...x);
+  if (max === min) return [];
+
+  const grid = Array.from({ length: gridSize }, (_, i) => min + ((max - min) * i) / (gridSize - 1));
+  return grid.map(x0 => {
+    const distances = x.map(xi => Math.abs(xi - x0));
+    const h = [...distances].sort((a, b) => a - b)[k - 1] || 1e-12;
+    let sw = 0, swx = 0, swy = 0, swxx = 0, swxy = 0;
+    for (let i = 0; i < n; i++) {
+      const u = distances[i] / h;
+      if (u >= 1) continue;
+      const w = (1 - u ** 3) ** 3;
+      sw += w;
+      swx += w * x[i];
+      swy += w * y[i];
+      swxx += w * x[i] * x[i];
+      swxy += w * x[i] * y[i];
+    }
+    if (sw === 0) return { x: x0, y: NaN };
+    const denom = sw * swxx - swx * swx;
+    const slope = Math.abs(denom) > 1e-12 ? (sw * swxy - swx * swy) / denom : 0;
+    const intercept = (swy - slope * swx) / sw;
+    return { x: x0, y: intercept + slope * x0 };
+  }).filter(pt => Number.isFinite(pt.y));
+}
+
+/**
+ * log(-log S(t)) against log(t) for each group's survival curve;
+ * points where S is 0 or 1 (or t is 0) are undefined and skipped
+ */
+export function logMinusLogCurves(curves: SurvivalData[]): Record<string, LogLogPoint[]> {
+  const result: Record<string, LogLogPoint[]> = {};
+  curves.forEach(curve => {
+    result[curve.subtype] = [...curve.timePoints]
+      .sort((a, b) => a.time - b.time)
+      .filter(p => p.time > 0 && p.survival > 0 && p.survival < 1)
+      .map(p => ({
+        time: p.time,
+        logTime: Math.log(p.time),
+        logMinusLogSurvival: Math.log(-Math.log(p.survival)),
+      }));
+  });
+  return result;
+}
@@ -0,0 +1,58 @@
+/**
+ * Seeded pseudo-random numbers for reproducible analyses
+ *
+ * Every randomized computation (resampling, layouts, iterative solvers'
+ * starting points, mock data) draws from a generator created from the
+ * dashboard seed, so the same seed always reproduces the same figures.
+ * Independent streams are derived per analysis or per sample with
+ * deriveSeed() so that filtering one view does not shift another.
+ */
+
+export const DEFAULT_SEED = 20240601;
+
+/**
+ * Mulberry32: small, fast 32-bit seeded generator returning values in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Combine a seed with a key (analysis name, sample ID) into a new seed (FNV-1a)
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = (0x811C9DC5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Standard normal deviate (Box-Muller)
+ */
+export function randomNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(values: T[], random: () => number): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
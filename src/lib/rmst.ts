@@ -0,0 +1,137 @@
+/**
+ * Restricted mean survival time (RMST)
+ *
+ * RMST(τ) is the area under the Kaplan-Meier curve from 0 to τ: the expected
+ * survival time within the first τ months. Unlike the median it is defined even
+ * when a curve never drops below 50%. Standard errors follow R's survRM2
+ * (Greenwood-type variance of the integrated product-limit estimator);
+ * between-group ratios are compared on the log scale.
+ */
+
+import { SurvivalData, SurvivalTimePoint } from "@/components/bioinformatics/SurvivalCurve";
+import { normalTwoSidedPValue, zCritical } from "@/lib/distributions";
+
+export interface RMSTEstimate {
+  group: string;
+  tau: number;
+  rmst: number;
+  se: number | null; // null when the curve carries no at-risk/event counts
+  lowerCI: number | null;
+  upperCI: number | null;
+}
+
+export interface RMSTComparison {
+  group: string;
+  reference: string;
+  difference: number;
+  differenceLowerCI: number | null;
+  differenceUpperCI: number | null;
+  differencePValue: number | null;
+  ratio: number;
+  ratioLowerCI: number | null;
+  ratioUpperCI: number | null;
+  ratioPValue: number | null;
+}
+
+/**
+ * Largest τ at which every group is still under observation
+ * (the default horizon used by survRM2)
+ */
+export function defaultRMSTHorizon(curves: SurvivalData[]): number {
+  const lastTimes = curves
+    .map(c => Math.max(0, ...c.timePoints.map(p => p.time)))
+    .filter(t => t > 0);
+  return lastTimes.length > 0 ? Math.min(...lastTimes) : 0;
+}
+
+/**
+ * RMST up to tau for one Kaplan-Meier step function
+ */
+export function restrictedMeanSurvival(
+  group: string,
+  points: SurvivalTimePoint[],
+  tau: number,
+  confLevel: number = 0.95
+): RMSTEstimate {
+  const sorted = [...points].filter(p => p.time <= tau).sort((a, b) => a.time - b.time);
+
+  // Area under the step function, and the area remaining after each event time
+  let area = 0;
+  let lastTime = 0;
+  let lastSurvival = 1;
+  const areaBefore: number[] = [];
+  sorted.forEach(p => {
+    area += lastSurvival * (p.time - lastTime);
+    areaBefore.push(area);
+    lastTime = p.time;
+    lastSurvival = Math.min(lastSurvival, p.survival);
+  });
+  area += lastSurvival * (tau - lastTime);
+
+  const hasCounts = sorted.length > 0 && sorted.every(p => p.atRisk !== undefined && p.events !== undefined);
+  if (!hasCounts) {
+    return { group, tau, rmst: area, se: null, lowerCI: null, upperCI: null };
+  }
+
+  let variance = 0;
+  sorted.forEach((p, i) => {
+    const d = p.events ?? 0;
+    const n = p.atRisk ?? 0;
+    if (d === 0 || n <= d) return;
+    const remaining = area - areaBefore[i];
+    variance += (remaining * remaining * d) / (n * (n - d));
+  });
+
+  const se = Math.sqrt(variance);
+  const z = zCritical(confLevel);
+  return { group, tau, rmst: area, se, lowerCI: area - z * se, upperCI: area + z * se };
+}
+
+/**
+ * RMST for every group at a common horizon, clipped to defaultRMSTHorizon
+ * so no curve is extrapolated past its last observation
+ */
+export function rmstByGroup(curves: SurvivalData[], tau: number, confLevel: number = 0.95): RMSTEstimate[] {
+  const horizon = Math.min(tau, defaultRMSTHorizon(curves));
+  return curves.map(c => restrictedMeanSurvival(c.subtype, c.timePoints, horizon, confLevel));
+}
+
+/**
+ * Pairwise RMST differences (group − reference) and ratios (group / reference)
+ * for every pair of groups, each later group compared with each earlier one
+ */
+export function compareRMST(estimates: RMSTEstimate[], confLevel: number = 0.95): RMSTComparison[] {
+  const z = zCritical(confLevel);
+  const comparisons: RMSTComparison[] = [];
+
+  estimates.forEach((ref, i) => {
+    estimates.slice(i + 1).forEach(est => {
+      const difference = est.rmst - ref.rmst;
+      const ratio = ref.rmst > 0 ? est.rmst / ref.rmst : NaN;
+
+      let diffSE: number | null = null;
+      let logRatioSE: number | null = null;
+      if (est.se !== null && ref.se !== null) {
+        diffSE = Math.sqrt(est.se * est.se + ref.se * ref.se);
+        if (est.rmst > 0 && ref.rmst > 0) {
+          logRatioSE = Math.sqrt((est.se / est.rmst) ** 2 + (ref.se / ref.rmst) ** 2);
+        }
+      }
+
+      comparisons.push({
+        group: est.group,
+        reference: ref.group,
+        difference,
+        differenceLowerCI: diffSE !== null ? difference - z * diffSE : null,
+        differenceUpperCI: diffSE !== null ? difference + z * diffSE : null,
+        differencePValue: diffSE ? normalTwoSidedPValue(difference / diffSE) : null,
+        ratio,
+        ratioLowerCI: logRatioSE !== null ? ratio * Math.exp(-z * logRatioSE) : null,
+        ratioUpperCI: logRatioSE !== null ? ratio * Math.exp(z * logRatioSE) : null,
+        ratioPValue: logRatioSE ? normalTwoSidedPValue(Math.log(ratio) / logRatioSE) : null,
+      });
+    });
+  });
+
+  return comparisons;
+}
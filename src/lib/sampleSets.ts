@@ -0,0 +1,101 @@
+/**
+ * Named sample sets
+ *
+ * Sets are drawn on the PCA / embedding scatter plots (box or lasso) and
+ * reused elsewhere: highlighted in the heatmap, exposed to the survival
+ * analysis as an annotation column (members vs "Other") and exported as
+ * plain sample ID lists.
+ */
+
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+
+export interface SampleSet {
+  name: string;
+  sampleIds: string[];
+  source: string; // plot the selection was drawn on
+  color: string;
+}
+
+export type Point = [number, number];
+
+// Annotation column name for a set and the value given to non-members
+export const SAMPLE_SET_COLUMN_PREFIX = "Set: ";
+export const SAMPLE_SET_OTHER = "Other";
+
+const SET_COLORS = [
+  "hsl(25, 95%, 53%)",
+  "hsl(190, 90%, 40%)",
+  "hsl(330, 80%, 55%)",
+  "hsl(90, 60%, 40%)",
+  "hsl(260, 70%, 60%)",
+  "hsl(50, 90%, 45%)",
+];
+
+export const sampleSetColor = (index: number) => SET_COLORS[index % SET_COLORS.length];
+
+/**
+ * Even-odd rule; the polygon is closed implicitly
+ */
+export function pointInPolygon([x, y]: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Rectangle spanned by two corners, as a polygon
+ */
+export function boxPolygon([x0, y0]: Point, [x1, y1]: Point): Point[] {
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+}
+
+/**
+ * First free name of the form "Set 1", "Set 2", ...
+ */
+export function defaultSampleSetName(sets: SampleSet[]): string {
+  const names = new Set(sets.map(s => s.name));
+  let i = 1;
+  while (names.has(`Set ${i}`)) i++;
+  return `Set ${i}`;
+}
+
+/**
+ * Annotations with one extra column per set (set name for members, "Other"
+ * for the remaining samples), so sets can be used wherever annotation
+ * columns are (grouping, covariates)
+ */
+export function withSampleSetColumns(
+  annotations: AnnotationData | undefined,
+  sets: SampleSet[],
+  sampleIds: string[]
+): AnnotationData | undefined {
+  if (sets.length === 0) return annotations;
+
+  const merged: Record<string, Record<string, string>> = {};
+  sampleIds.forEach(id => {
+    merged[id] = { ...annotations?.annotations[id] };
+  });
+  Object.entries(annotations?.annotations ?? {}).forEach(([id, values]) => {
+    if (!merged[id]) merged[id] = { ...values };
+  });
+
+  sets.forEach(set => {
+    const column = SAMPLE_SET_COLUMN_PREFIX + set.name;
+    const members = new Set(set.sampleIds);
+    sampleIds.forEach(id => {
+      merged[id][column] = members.has(id) ? set.name : SAMPLE_SET_OTHER;
+    });
+  });
+
+  return {
+    sampleColumn: annotations?.sampleColumn ?? "sample_id",
+    annotations: merged,
+    columns: [...(annotations?.columns ?? []), ...sets.map(s => SAMPLE_SET_COLUMN_PREFIX + s.name)],
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Survival endpoints built from sample annotation columns
+ *
+ * An endpoint pairs a follow-up time column with an event column and the
+ * set of event-column values that count as an event (e.g. "Yes", "1", "dead"),
+ * so OS, DFS/PFS or any custom pair can be analysed from the annotation file
+ * instead of the single endpoint baked into the R CLI output.
+ */
+
+import { AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
+import { RawSurvivalDataPoint, isNumericColumn } from "@/data/mockNmfData";
+import { covariateLevels, isMissingValue } from "@/lib/designMatrix";
+
+export interface SurvivalEndpoint {
+  label: string;
+  timeColumn: string;
+  eventColumn: string;
+  eventValues: string[]; // event-column values that count as an event
+}
+
+// Same rule the R CLI uses to binarize its event column
+const EVENT_VALUE_PATTERN = /yes|1|dead|death|recur/i;
+
+// Common endpoint names and the event columns that usually go with them
+const ENDPOINT_PRESETS: { label: string; time: RegExp; event: RegExp }[] = [
+  { label: 'OS', time: /^os([._ ]|$)|overall.?surv/i, event: /death|dead|vital|^os[._ ]?(status|event)/i },
+  { label: 'DFS', time: /^dfs([._ ]|$)|disease.?free/i, event: /recur|relapse|^dfs[._ ]?(status|event)/i },
+  { label: 'PFS', time: /^pfs([._ ]|$)|progression.?free/i, event: /progress|^pfs[._ ]?(status|event)/i },
+  { label: 'RFS', time: /^rfs([._ ]|$)|relapse.?free/i, event: /relapse|recur|^rfs[._ ]?(status|event)/i },
+];
+
+/**
+ * Non-missing values of an annotation column
+ */
+function columnValues(annotations: AnnotationData, column: string): string[] {
+  return Object.values(annotations.annotations)
+    .map(cols => cols[column])
+    .filter(v => !isMissingValue(v))
+    .map(v => String(v).trim());
+}
+
+/**
+ * Columns usable as follow-up time (numeric, non-negative, many distinct values)
+ */
+export function timeColumnCandidates(annotations: AnnotationData, columns: string[]): string[] {
+  return columns.filter(col => {
+    const values = columnValues(annotations, col);
+    return isNumericColumn(values) && values.every(v => !(parseFloat(v) < 0));
+  });
+}
+
+/**
+ * Columns usable as event indicators (a handful of distinct values)
+ */
+export function eventColumnCandidates(annotations: AnnotationData, columns: string[]): string[] {
+  return columns.filter(col => {
+    const distinct = new Set(columnValues(annotations, col)).size;
+    return distinct >= 2 && distinct <= 8;
+  });
+}
+
+/**
+ * Distinct values of an event column with their sample counts
+ */
+export function eventValueCounts(annotations: AnnotationData, column: string): { value: string; count: number }[] {
+  const values = columnValues(annotations, column);
+  return covariateLevels(values).map(value => ({
+    value,
+    count: values.filter(v => v === value).length
+  }));
+}
+
+/**
+ * Values treated as events when the user has not chosen any
+ */
+export function defaultEventValues(values: string[]): string[] {
+  return values.filter(v => EVENT_VALUE_PATTERN.test(v));
+}
+
+/**
+ * Recognise OS/DFS/PFS/RFS time-event column pairs by name
+ */
+export function detectEndpoints(annotations: AnnotationData, columns: string[]): SurvivalEndpoint[] {
+  const timeColumns = timeColumnCandidates(annotations, columns);
+  const eventColumns = eventColumnCandidates(annotations, columns);
+  const endpoints: SurvivalEndpoint[] = [];
+
+  ENDPOINT_PRESETS.forEach(preset => {
+    const timeColumn = timeColumns.find(col => preset.time.test(col));
+    const eventColumn = eventColumns.find(col => preset.event.test(col));
+    if (!timeColumn || !eventColumn) return;
+
+    endpoints.push({
+      label: preset.label,
+      timeColumn,
+      eventColumn,
+      eventValues: defaultEventValues(eventValueCounts(annotations, eventColumn).map(v => v.value))
+    });
+  });
+
+  return endpoints;
+}
+
+/**
+ * Patient-level survival records for an endpoint. Samples without a usable
+ * time or event value are skipped; subtype is taken from sampleSubtypes.
+ */
+export function endpointObservations(
+  annotations: AnnotationData,
+  endpoint: SurvivalEndpoint,
+  sampleSubtypes?: Record<string, string>
+): RawSurvivalDataPoint[] {
+  const eventValues = new Set(endpoint.eventValues);
+  const records: RawSurvivalDataPoint[] = [];
+
+  Object.entries(annotations.annotations).forEach(([sampleId, cols]) => {
+    const rawTime = cols[endpoint.timeColumn];
+    const rawEvent = cols[endpoint.eventColumn];
+    if (isMissingValue(rawTime) || isMissingValue(rawEvent)) return;
+
+    const time = parseFloat(String(rawTime));
+    if (!Number.isFinite(time) || time < 0) return;
+
+    records.push({
+      sample_id: sampleId,
+      subtype: sampleSubtypes?.[sampleId] ?? '',
+      time,
+      event: eventValues.has(String(rawEvent).trim()) ? 1 : 0
+    });
+  });
+
+  return records;
+}
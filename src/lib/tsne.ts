@@ -0,0 +1,243 @@
+/**
+ * Barnes-Hut t-SNE (van der Maaten 2014)
+ *
+ * Follows bhtsne / Rtsne:
+ *  - input affinities over the 3 * perplexity nearest neighbours, with a
+ *    per-point bandwidth found by binary search on the entropy, symmetrised
+ *    as P = (P + P') / 2n
+ *  - gradient with exact attractive forces over the sparse P and repulsive
+ *    forces approximated by a quadtree (cells with size / distance < theta
+ *    act through their centre of mass)
+ *  - early exaggeration (12) and momentum 0.5 for the first 250 iterations,
+ *    then momentum 0.8; per-coordinate adaptive gains
+ * The optimisation is exposed as a stepper so callers can report progress.
+ */
+
+import { DEFAULT_SEED, randomNormal, seededRandom } from "@/lib/random";
+import { DistanceMetric, distanceFunction } from "@/lib/umap";
+
+export interface TSNEOptions {
+  perplexity: number;
+  iterations: number;
+  learningRate: number;
+  theta?: number;
+  metric?: DistanceMetric;
+  seed?: number;
+}
+
+export const DEFAULT_TSNE_OPTIONS: TSNEOptions = {
+  perplexity: 30,
+  iterations: 1000,
+  learningRate: 200,
+};
+
+export interface TSNERun {
+  // Run up to the given number of further iterations; returns true when finished
+  step: (iterations: number) => boolean;
+  embedding: () => number[][];
+  iteration: () => number;
+  totalIterations: number;
+  // Effective perplexity after capping to the sample size
+  perplexity: number;
+}
+
+const EXAGGERATION = 12;
+const STOP_LYING_ITERATION = 250;
+const MOMENTUM_SWITCH_ITERATION = 250;
+
+/**
+ * Sparse symmetric input affinities from the nearest neighbours
+ */
+function inputAffinities(data: number[][], perplexity: number, metric: DistanceMetric) {
+  const n = data.length;
+  const k = Math.min(n - 1, Math.floor(3 * perplexity));
+  const distance = distanceFunction(metric);
+  const targetEntropy = Math.log(perplexity);
+
+  const rows = data.map((x, i) => {
+    const neighbours = data
+      .map((y, j) => ({ j, d: j === i ? Infinity : distance(x, y) }))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, k);
+    // t-SNE works on squared distances
+    const d2 = neighbours.map(e => e.d * e.d);
+
+    let beta = 1;
+    let lo = -Infinity;
+    let hi = Infinity;
+    let p = d2.map(() => 0);
+    for (let iter = 0; iter < 200; iter++) {
+      p = d2.map(d => Math.exp(-beta * (d - d2[0])));
+      const sum = p.reduce((a, b) => a + b, 0);
+      const entropy = Math.log(sum) + beta * d2.reduce((s, d, c) => s + (d - d2[0]) * p[c], 0) / sum;
+      p = p.map(v => v / sum);
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break;
+      if (entropy > targetEntropy) {
+        lo = beta;
+        beta = hi === Infinity ? beta * 2 : (beta + hi) / 2;
+      } else {
+        hi = beta;
+        beta = lo === -Infinity ? beta / 2 : (beta + lo) / 2;
+      }
+    }
+    return neighbours.map((e, c) => ({ j: e.j, p: p[c] }));
+  });
+
+  // Symmetrise
+  const symmetric = new Map<string, number>();
+  rows.forEach((row, i) => {
+    row.forEach(({ j, p }) => {
+      const key = i < j ? `${i},${j}` : `${j},${i}`;
+      symmetric.set(key, (symmetric.get(key) ?? 0) + p);
+    });
+  });
+  const edges: { i: number; j: number; p: number }[] = [];
+  symmetric.forEach((p, key) => {
+    const [i, j] = key.split(',').map(Number);
+    edges.push({ i, j, p: p / (2 * n) });
+  });
+  return edges;
+}
+
+interface QuadNode {
+  cx: number; // cell centre
+  cy: number;
+  half: number; // half width
+  mass: number;
+  comX: number;
+  comY: number;
+  point: number; // index of the single point in a leaf, -1 otherwise
+  children: QuadNode[] | null;
+}
+
+function buildQuadTree(Y: number[][]): QuadNode {
+  const xs = Y.map(p => p[0]);
+  const ys = Y.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const half = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) / 2 + 1e-5;
+  const root: QuadNode = { cx: minX + half, cy: minY + half, half, mass: 0, comX: 0, comY: 0, point: -1, children: null };
+
+  const insert = (node: QuadNode, index: number, depth: number) => {
+    const [x, y] = Y[index];
+    node.comX = (node.comX * node.mass + x) / (node.mass + 1);
+    node.comY = (node.comY * node.mass + y) / (node.mass + 1);
+    node.mass++;
+
+    if (node.mass === 1) {
+      node.point = index;
+      return;
+    }
+    // Duplicate points (or too deep) stay aggregated in this cell
+    if (depth > 50) return;
+    if (!node.children) {
+      const h = node.half / 2;
+      node.children = [
+        [-1, -1], [1, -1], [-1, 1], [1, 1],
+      ].map(([sx, sy]) => ({ cx: node.cx + sx * h, cy: node.cy + sy * h, half: h, mass: 0, comX: 0, comY: 0, point: -1, children: null }));
+      if (node.point >= 0) {
+        const previous = node.point;
+        node.point = -1;
+        const [px, py] = Y[previous];
+        insert(node.children[(px > node.cx ? 1 : 0) + (py > node.cy ? 2 : 0)], previous, depth + 1);
+      }
+    }
+    insert(node.children[(x > node.cx ? 1 : 0) + (y > node.cy ? 2 : 0)], index, depth + 1);
+  };
+
+  Y.forEach((_, i) => insert(root, i, 0));
+  return root;
+}
+
+/**
+ * Start a t-SNE run on the rows of data (samples x features)
+ */
+export function createTSNE(data: number[][], options: TSNEOptions = DEFAULT_TSNE_OPTIONS): TSNERun {
+  const n = data.length;
+  const perplexity = Math.max(1, Math.min(options.perplexity, (n - 1) / 3));
+  const theta = options.theta ?? 0.5;
+  const random = seededRandom(options.seed ?? DEFAULT_SEED);
+
+  const edges = n > 2 ? inputAffinities(data, perplexity, options.metric ?? 'euclidean') : [];
+  const Y = Array.from({ length: n }, () => [randomNormal(random) * 1e-4, randomNormal(random) * 1e-4]);
+  const velocity = Y.map(() => [0, 0]);
+  const gains = Y.map(() => [1, 1]);
+  let iteration = 0;
+
+  const gradient = (exaggeration: number): number[][] => {
+    const grad = Y.map(() => [0, 0]);
+
+    // Attractive forces over the sparse P
+    edges.forEach(({ i, j, p }) => {
+      const dx = Y[i][0] - Y[j][0];
+      const dy = Y[i][1] - Y[j][1];
+      const q = 1 / (1 + dx * dx + dy * dy);
+      const f = exaggeration * p * q;
+      grad[i][0] += f * dx;
+      grad[i][1] += f * dy;
+      grad[j][0] -= f * dx;
+      grad[j][1] -= f * dy;
+    });
+
+    // Repulsive forces through the quadtree
+    const tree = buildQuadTree(Y);
+    let sumQ = 0;
+    const repulsive = Y.map(() => [0, 0]);
+    Y.forEach(([x, y], i) => {
+      const stack = [tree];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.mass === 0 || node.point === i) continue;
+        const dx = x - node.comX;
+        const dy = y - node.comY;
+        const d2 = dx * dx + dy * dy;
+        if (!node.children || (2 * node.half) / Math.sqrt(d2) < theta) {
+          const q = 1 / (1 + d2);
+          const mq = node.mass * q;
+          sumQ += mq;
+          repulsive[i][0] += mq * q * dx;
+          repulsive[i][1] += mq * q * dy;
+        } else {
+          stack.push(...node.children);
+        }
+      }
+    });
+
+    return grad.map((g, i) => [4 * (g[0] - repulsive[i][0] / sumQ), 4 * (g[1] - repulsive[i][1] / sumQ)]);
+  };
+
+  const step = (iterations: number) => {
+    const end = Math.min(options.iterations, iteration + iterations);
+    while (iteration < end && n > 2) {
+      const exaggeration = iteration < STOP_LYING_ITERATION ? EXAGGERATION : 1;
+      const momentum = iteration < MOMENTUM_SWITCH_ITERATION ? 0.5 : 0.8;
+      const grad = gradient(exaggeration);
+
+      for (let i = 0; i < n; i++) {
+        for (let c = 0; c < 2; c++) {
+          gains[i][c] = Math.sign(grad[i][c]) !== Math.sign(velocity[i][c]) ? gains[i][c] + 0.2 : gains[i][c] * 0.8;
+          gains[i][c] = Math.max(gains[i][c], 0.01);
+          velocity[i][c] = momentum * velocity[i][c] - options.learningRate * gains[i][c] * grad[i][c];
+          Y[i][c] += velocity[i][c];
+        }
+      }
+
+      // Keep the embedding centred
+      for (let c = 0; c < 2; c++) {
+        const mean = Y.reduce((s, p) => s + p[c], 0) / n;
+        Y.forEach(p => { p[c] -= mean; });
+      }
+      iteration++;
+    }
+    if (n <= 2) iteration = options.iterations;
+    return iteration >= options.iterations;
+  };
+
+  return {
+    step,
+    embedding: () => Y.map(p => [...p]),
+    iteration: () => iteration,
+    totalIterations: options.iterations,
+    perplexity,
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * UMAP: Uniform Manifold Approximation and Projection (McInnes et al. 2018)
+ *
+ * Follows the reference implementation (umap-learn):
+ *  - exact k-nearest-neighbour graph (the point itself counts as a neighbour)
+ *  - smooth kNN distances: per point rho (nearest distance) and sigma such
+ *    that sum exp(-(d - rho) / sigma) = log2(k)
+ *  - fuzzy union of the directed memberships: w + w' - w * w'
+ *  - spectral initialisation from the normalised graph Laplacian
+ *  - SGD with negative sampling on the low-dimensional cross-entropy, with
+ *    the curve 1 / (1 + a d^2b) fitted to min_dist and spread
+ * All sampling is driven by the supplied seed.
+ */
+
+import { DEFAULT_SEED, seededRandom } from "@/lib/random";
+
+export type DistanceMetric = 'euclidean' | 'cosine' | 'correlation' | 'manhattan';
+
+export const DISTANCE_METRIC_LABELS: Record<DistanceMetric, string> = {
+  euclidean: 'Euclidean',
+  cosine: 'Cosine',
+  correlation: 'Correlation',
+  manhattan: 'Manhattan',
+};
+
+export interface UMAPOptions {
+  nNeighbors: number;
+  minDist: number;
+  metric: DistanceMetric;
+  spread?: number;
+  nEpochs?: number;
+  nComponents?: number; // embedding dimension (default 2)
+  seed?: number;
+}
+
+export const DEFAULT_UMAP_OPTIONS: UMAPOptions = {
+  nNeighbors: 15,
+  minDist: 0.1,
+  metric: 'euclidean',
+};
+
+const NEGATIVE_SAMPLE_RATE = 5;
+const SMOOTH_K_TOLERANCE = 1e-5;
+const MIN_K_DIST_SCALE = 1e-3;
+const GRADIENT_CLIP = 4;
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0);
+
+/**
+ * Distance function for a metric
+ */
+export function distanceFunction(metric: DistanceMetric): (a: number[], b: number[]) => number {
+  switch (metric) {
+    case 'manhattan':
+      return (a, b) => a.reduce((sum, x, i) => sum + Math.abs(x - b[i]), 0);
+    case 'cosine':
+      return (a, b) => {
+        let dot = 0, na = 0, nb = 0;
+        for (let i = 0; i < a.length; i++) {
+          dot += a[i] * b[i];
+          na += a[i] * a[i];
+          nb += b[i] * b[i];
+        }
+        return na === 0 || nb === 0 ? 1 : 1 - dot / Math.sqrt(na * nb);
+      };
+    case 'correlation':
+      return (a, b) => {
+        const ma = a.reduce((s, x) => s + x, 0) / a.length;
+        const mb = b.reduce((s, x) => s + x, 0) / b.length;
+        let dot = 0, na = 0, nb = 0;
+        for (let i = 0; i < a.length; i++) {
+          dot += (a[i] - ma) * (b[i] - mb);
+          na += (a[i] - ma) ** 2;
+          nb += (b[i] - mb) ** 2;
+        }
+        return na === 0 || nb === 0 ? 1 : 1 - dot / Math.sqrt(na * nb);
+      };
+    default:
+      return (a, b) => Math.sqrt(a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0));
+  }
+}
+
+/**
+ * Exact k nearest neighbours of every row, nearest first (self included)
+ */
+function nearestNeighbors(data: number[][], k: number, distance: (a: number[], b: number[]) => number) {
+  const n = data.length;
+  const dist: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      dist[i][j] = dist[j][i] = distance(data[i], data[j]);
+    }
+  }
+  const indices = dist.map((row, i) =>
+    row.map((d, j) => ({ d: j === i ? -1 : d, j })).sort((a, b) => a.d - b.d).slice(0, k).map(e => e.j)
+  );
+  const distances = indices.map((row, i) => row.map(j => (j === i ? 0 : dist[i][j])));
+  return { indices, distances };
+}
+
+/**
+ * Per-point rho and sigma for the fuzzy memberships (local connectivity 1)
+ */
+function smoothKnnDistances(distances: number[][], k: number) {
+  const target = Math.log2(k);
+  const meanAll = distances.reduce((s, row) => s + row.reduce((a, b) => a + b, 0), 0) / (distances.length * k);
+
+  const rho: number[] = [];
+  const sigma: number[] = [];
+  distances.forEach(row => {
+    const others = row.slice(1);
+    const r = others.find(d => d > 0) ?? 0;
+    let lo = 0;
+    let hi = Infinity;
+    let mid = 1;
+    for (let iter = 0; iter < 64; iter++) {
+      const psum = others.reduce((s, d) => s + (d - r > 0 ? Math.exp(-(d - r) / mid) : 1), 0);
+      if (Math.abs(psum - target) < SMOOTH_K_TOLERANCE) break;
+      if (psum > target) {
+        hi = mid;
+        mid = (lo + hi) / 2;
+      } else {
+        lo = mid;
+        mid = hi === Infinity ? mid * 2 : (lo + hi) / 2;
+      }
+    }
+    const meanRow = others.reduce((a, b) => a + b, 0) / Math.max(1, others.length);
+    rho.push(r);
+    sigma.push(Math.max(mid, MIN_K_DIST_SCALE * (r > 0 ? meanRow : meanAll)));
+  });
+  return { rho, sigma };
+}
+
+/**
+ * Symmetric fuzzy simplicial set as an edge list
+ */
+function fuzzySimplicialSet(data: number[][], k: number, metric: DistanceMetric) {
+  const { indices, distances } = nearestNeighbors(data, k, distanceFunction(metric));
+  const { rho, sigma } = smoothKnnDistances(distances, k);
+
+  const directed = new Map<string, number>();
+  indices.forEach((row, i) => {
+    row.forEach((j, c) => {
+      if (j === i) return;
+      const w = distances[i][c] - rho[i] <= 0 ? 1 : Math.exp(-(distances[i][c] - rho[i]) / sigma[i]);
+      directed.set(`${i},${j}`, w);
+    });
+  });
+
+  const edges: { head: number; tail: number; weight: number }[] = [];
+  const seen = new Set<string>();
+  directed.forEach((w, key) => {
+    const [i, j] = key.split(',').map(Number);
+    const pair = i < j ? `${i},${j}` : `${j},${i}`;
+    if (seen.has(pair)) return;
+    seen.add(pair);
+    const wt = directed.get(`${j},${i}`) ?? 0;
+    const weight = w + wt - w * wt;
+    // Both directions are optimised, as in the symmetric sparse matrix
+    edges.push({ head: i, tail: j, weight }, { head: j, tail: i, weight });
+  });
+  return edges;
+}
+
+/**
+ * Fit a, b so that 1 / (1 + a d^2b) matches the offset exponential defined
+ * by min_dist and spread (Levenberg-Marquardt least squares)
+ */
+export function findABParams(spread: number, minDist: number): { a: number; b: number } {
+  const xs = Array.from({ length: 300 }, (_, i) => (i * 3 * spread) / 299);
+  const ys = xs.map(x => (x < minDist ? 1 : Math.exp(-(x - minDist) / spread)));
+  const residuals = (a: number, b: number) => xs.map((x, i) => 1 / (1 + a * x ** (2 * b)) - ys[i]);
+  const sse = (r: number[]) => r.reduce((s, v) => s + v * v, 0);
+
+  let a = 1;
+  let b = 1;
+  let lambda = 1e-3;
+  let current = sse(residuals(a, b));
+  for (let iter = 0; iter < 200; iter++) {
+    // Jacobian of the model with respect to a and b
+    let jaa = 0, jab = 0, jbb = 0, ga = 0, gb = 0;
+    xs.forEach((x, i) => {
+      if (x === 0) return;
+      const p = x ** (2 * b);
+      const f = 1 / (1 + a * p);
+      const r = f - ys[i];
+      const da = -p * f * f;
+      const db = -a * p * 2 * Math.log(x) * f * f;
+      jaa += da * da;
+      jab += da * db;
+      jbb += db * db;
+      ga += da * r;
+      gb += db * r;
+    });
+    const m00 = jaa * (1 + lambda);
+    const m11 = jbb * (1 + lambda);
+    const det = m00 * m11 - jab * jab;
+    if (Math.abs(det) < 1e-300) break;
+    const stepA = -(m11 * ga - jab * gb) / det;
+    const stepB = -(m00 * gb - jab * ga) / det;
+    const nextA = a + stepA;
+    const nextB = b + stepB;
+    const next = nextA > 0 && nextB > 0 ? sse(residuals(nextA, nextB)) : Infinity;
+    if (next < current) {
+      const improvement = current - next;
+      a = nextA;
+      b = nextB;
+      current = next;
+      lambda /= 10;
+      if (improvement < 1e-12) break;
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) break;
+    }
+  }
+  return { a, b };
+}
+
+/**
+ * Leading non-trivial eigenvectors of the normalised adjacency
+ * D^-1/2 W D^-1/2 by orthogonal iteration, scaled to [0, 10] as in umap-learn.
+ * Returns null when the iteration does not produce a usable embedding.
+ */
+function spectralLayout(
+  n: number,
+  edges: { head: number; tail: number; weight: number }[],
+  random: () => number,
+  dim: number
+): number[][] | null {
+  const degree = new Array(n).fill(0);
+  edges.forEach(e => { degree[e.head] += e.weight; });
+  if (degree.some(d => d === 0)) return null;
+  const invSqrt = degree.map(d => 1 / Math.sqrt(d));
+
+  // (I + N) / 2 has eigenvalues in [0, 1]; the trivial one is sqrt(degree)
+  const multiply = (v: number[]) => {
+    const out = v.map(x => x / 2);
+    edges.forEach(e => { out[e.head] += (e.weight * invSqrt[e.head] * invSqrt[e.tail] * v[e.tail]) / 2; });
+    return out;
+  };
+  const trivial = degree.map(d => Math.sqrt(d));
+  const trivialNorm = Math.sqrt(trivial.reduce((s, x) => s + x * x, 0));
+  const orthonormalize = (vectors: number[][]) => {
+    const basis: number[][] = [trivial.map(x => x / trivialNorm)];
+    vectors.forEach(v => {
+      const w = [...v];
+      basis.forEach(q => {
+        const dot = q.reduce((s, x, i) => s + x * w[i], 0);
+        for (let i = 0; i < n; i++) w[i] -= dot * q[i];
+      });
+      const norm = Math.sqrt(w.reduce((s, x) => s + x * x, 0));
+      basis.push(norm > 0 ? w.map(x => x / norm) : w);
+    });
+    return basis.slice(1);
+  };
+
+  let vectors = orthonormalize(Array.from({ length: dim }, () => Array.from({ length: n }, () => random() - 0.5)));
+  for (let iter = 0; iter < 300; iter++) {
+    vectors = orthonormalize(vectors.map(multiply));
+  }
+  if (vectors.some(v => v.every(x => x === 0) || !v.every(Number.isFinite))) return null;
+
+  // Scale each axis to [0, 10] and add a little noise to break ties
+  const scaled = vectors.map(v => {
+    const min = Math.min(...v);
+    const range = Math.max(...v) - min || 1;
+    return v.map(x => ((x - min) / range) * 10);
+  });
+  return Array.from({ length: n }, (_, i) => scaled.map(axis => axis[i] + (random() - 0.5) * 2e-4));
+}
+
+export interface UMAPRun {
+  // Run up to the given number of further epochs; returns true when finished
+  step: (epochs: number) => boolean;
+  embedding: () => number[][];
+  epoch: () => number;
+  totalEpochs: number;
+}
+
+/**
+ * Start a UMAP run embedding the rows of data (samples x features) in
+ * nComponents dimensions; the graph and initial layout are built up front
+ */
+export function createUMAP(data: number[][], options: UMAPOptions = DEFAULT_UMAP_OPTIONS): UMAPRun {
+  const n = data.length;
+  const dim = options.nComponents ?? 2;
+  if (n < 3) {
+    const fixed = data.map((_, i) => Array.from({ length: dim }, (_, c) => (c === 0 ? i : 0)));
+    return { step: () => true, embedding: () => fixed.map(p => [...p]), epoch: () => 0, totalEpochs: 0 };
+  }
+
+  const random = seededRandom(options.seed ?? DEFAULT_SEED);
+  const k = Math.max(2, Math.min(options.nNeighbors, n - 1));
+  const spread = options.spread ?? 1;
+  const nEpochs = options.nEpochs ?? (n <= 10000 ? 500 : 200);
+  const { a, b } = findABParams(spread, Math.min(options.minDist, spread));
+
+  // Drop edges too weak to be sampled during the run
+  const allEdges = fuzzySimplicialSet(data, k, options.metric);
+  const maxWeight = Math.max(...allEdges.map(e => e.weight));
+  const edges = allEdges.filter(e => e.weight >= maxWeight / nEpochs);
+
+  const embedding = spectralLayout(n, edges, random, dim)
+    ?? Array.from({ length: n }, () => Array.from({ length: dim }, () => random() * 20 - 10));
+
+  const epochsPerSample = edges.map(e => maxWeight / e.weight);
+  const epochsPerNegative = epochsPerSample.map(e => e / NEGATIVE_SAMPLE_RATE);
+  const nextSample = [...epochsPerSample];
+  const nextNegative = [...epochsPerNegative];
+  const clip = (v: number) => Math.max(-GRADIENT_CLIP, Math.min(GRADIENT_CLIP, v));
+  let epoch = 0;
+
+  const step = (epochs: number) => {
+    const end = Math.min(nEpochs, epoch + epochs);
+    for (; epoch < end; epoch++) {
+      const alpha = 1 - epoch / nEpochs;
+      for (let e = 0; e < edges.length; e++) {
+        if (nextSample[e] > epoch) continue;
+        const current = embedding[edges[e].head];
+        const other = embedding[edges[e].tail];
+
+        // Attraction along the edge
+        let d2 = squaredDistance(current, other);
+        if (d2 > 0) {
+          const coeff = (-2 * a * b * d2 ** (b - 1)) / (a * d2 ** b + 1);
+          for (let c = 0; c < dim; c++) {
+            const grad = clip(coeff * (current[c] - other[c])) * alpha;
+            current[c] += grad;
+            other[c] -= grad;
+          }
+        }
+        nextSample[e] += epochsPerSample[e];
+
+        // Repulsion from randomly drawn points
+        const nNegative = Math.floor((epoch - nextNegative[e]) / epochsPerNegative[e]);
+        for (let s = 0; s < nNegative; s++) {
+          const target = embedding[Math.floor(random() * n)];
+          if (target === current) continue;
+          d2 = squaredDistance(current, target);
+          const coeff = d2 > 0 ? (2 * b) / ((0.001 + d2) * (a * d2 ** b + 1)) : 0;
+          for (let c = 0; c < dim; c++) {
+            current[c] += (coeff > 0 ? clip(coeff * (current[c] - target[c])) : GRADIENT_CLIP) * alpha;
+          }
+        }
+        nextNegative[e] += nNegative * epochsPerNegative[e];
+      }
+    }
+    return epoch >= nEpochs;
+  };
+
+  return {
+    step,
+    embedding: () => embedding.map(p => [...p]),
+    epoch: () => epoch,
+    totalEpochs: nEpochs,
+  };
+}
+
+/**
+ * Embed the rows of data (samples x features) in nComponents dimensions
+ */
+export function umap(data: number[][], options: UMAPOptions = DEFAULT_UMAP_OPTIONS): number[][] {
+  const run = createUMAP(data, options);
+  run.step(run.totalEpochs);
+  return run.embedding();
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useRef } from "react";
+import { useState, useMemo, useCallback, useRef, useEffect } from "react";
 import { SummaryCards } from "@/components/bioinformatics/SummaryCards";
 import { ClusterScatter } from "@/components/bioinformatics/ClusterScatter";
 import { PCAScatter } from "@/components/bioinformatics/PCAScatter";
@@ -8,14 +8,20 @@ import { ExpressionHeatmap, ExpressionHeatmapRef } from "@/components/bioinforma
 import { MarkerGenesTable } from "@/components/bioinformatics/MarkerGenesTable";
 import { NmfOverviewPanel } from "@/components/bioinformatics/NmfOverviewPanel";
 import { JsonUploader, NmfData } from "@/components/bioinformatics/JsonUploader";
+import { FactorMatrixImporter } from "@/components/bioinformatics/FactorMatrixImporter";
+import { NmfRunner } from "@/components/bioinformatics/NmfRunner";
 import { AnnotationUploader, AnnotationData } from "@/components/bioinformatics/AnnotationUploader";
 import { SurvivalCurve } from "@/components/bioinformatics/SurvivalCurve";
 import { ExportAllButton } from "@/components/bioinformatics/ExportAllButton";
+import { SampleSetsPanel } from "@/components/bioinformatics/SampleSetsPanel";
 import { ChartRef } from "@/lib/chartExport";
+import { DEFAULT_SEED } from "@/lib/random";
+import { SampleSet, sampleSetColor, withSampleSetColumns } from "@/lib/sampleSets";
 import { 
   nmfSummary as defaultSummary, 
-  sampleResults as defaultSamples, 
-  markerGenes as defaultMarkerGenes, 
+  generateSampleResults,
+  generateMarkerGenes,
+  defaultScoreSubtypes,
   generateHeatmapData,
   generateSubtypeColors,
   defaultRankMetrics,
@@ -29,13 +35,8 @@ import { ThemeToggle } from "@/components/ThemeToggle";
 import AccelBioLogo from "@/assets/AccelBio_logo.png";
 
 const Index = () => {
-  const [data, setData] = useState<NmfData>({
-    summary: defaultSummary,
-    samples: defaultSamples,
-    markerGenes: defaultMarkerGenes,
-    rankMetrics: defaultRankMetrics,
-    survivalData: defaultSurvivalData,
-  });
+  // Loaded results; null shows the mock data
+  const [loadedData, setData] = useState<NmfData | null>(null);
 
   // User-provided annotation data
   const [userAnnotations, setUserAnnotations] = useState<AnnotationData | undefined>(undefined);
@@ -46,6 +47,45 @@ const Index = () => {
   // Marker genes per subtype setting
   const [markerGenesPerSubtype, setMarkerGenesPerSubtype] = useState(25);
 
+  // Seed shared by every randomized computation (layouts, resampling, mock data)
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  // Text in the seed box, applied on blur or Enter so typing doesn't recompute every layout
+  const [seedDraft, setSeedDraft] = useState(String(DEFAULT_SEED));
+
+  useEffect(() => {
+    setSeedDraft(String(seed));
+  }, [seed]);
+
+  // Mock samples and markers are drawn from the seed, like the heatmap
+  const data = useMemo((): NmfData => {
+    if (loadedData) return loadedData;
+    const samples = generateSampleResults(seed);
+    const subtypeCounts = Object.fromEntries(
+      defaultScoreSubtypes.map(subtype => [subtype, samples.filter(s => s.subtype === subtype).length])
+    );
+    return {
+      summary: { ...defaultSummary, subtype_counts: subtypeCounts },
+      samples,
+      scoreSubtypes: defaultScoreSubtypes,
+      markerGenes: generateMarkerGenes(seed),
+      rankMetrics: defaultRankMetrics,
+      survivalData: defaultSurvivalData,
+    };
+  }, [loadedData, seed]);
+
+  const applySeedDraft = () => {
+    const value = parseInt(seedDraft, 10);
+    if (isNaN(value)) {
+      setSeedDraft(String(seed));
+      return;
+    }
+    setSeed(value);
+    setSeedDraft(String(value));
+  };
+
+  // Named sample sets selected on the scatter plots
+  const [sampleSets, setSampleSets] = useState<SampleSet[]>([]);
+
   // Chart refs for batch export
   const summaryRef = useRef<HTMLDivElement>(null);
   const nmfOverviewRef = useRef<HTMLDivElement>(null);
@@ -61,20 +101,31 @@ const Index = () => {
   }, []);
 
   const handleResetAll = useCallback(() => {
-    // Reset to default data
-    setData({
-      summary: defaultSummary,
-      samples: defaultSamples,
-      markerGenes: defaultMarkerGenes,
-      rankMetrics: defaultRankMetrics,
-      survivalData: defaultSurvivalData,
-    });
+    // Reset to the mock data
+    setData(null);
     // Clear annotations
     setUserAnnotations(undefined);
     // Reset filters
     setFilterResetKey(prev => prev + 1);
     // Reset marker genes per subtype
     setMarkerGenesPerSubtype(25);
+    // Reset seed
+    setSeed(DEFAULT_SEED);
+    // Clear sample sets
+    setSampleSets([]);
+  }, []);
+
+  const handleCreateSampleSet = useCallback((name: string, sampleIds: string[], source: string) => {
+    setSampleSets(prev => {
+      const names = new Set(prev.map(s => s.name));
+      let uniqueName = name;
+      for (let i = 2; names.has(uniqueName); i++) uniqueName = `${name} (${i})`;
+      return [...prev, { name: uniqueName, sampleIds, source, color: sampleSetColor(prev.length) }];
+    });
+  }, []);
+
+  const handleDeleteSampleSet = useCallback((name: string) => {
+    setSampleSets(prev => prev.filter(s => s.name !== name));
   }, []);
 
   const getChartRefs = useCallback((): ChartRef[] => [
@@ -98,8 +149,16 @@ const Index = () => {
   const sampleIds = useMemo(() => data.samples.map(s => s.sample_id), [data.samples]);
 
   const heatmapData = useMemo(() => {
-    return data.heatmapData || generateHeatmapData();
-  }, [data.heatmapData]);
+    return data.heatmapData || generateHeatmapData(seed);
+  }, [data.heatmapData, seed]);
+
+  // Sample sets join the annotation columns available for survival grouping
+  const survivalAnnotations = useMemo(
+    () => withSampleSetColumns(userAnnotations, sampleSets, sampleIds),
+    [userAnnotations, sampleSets, sampleIds]
+  );
+
+  const exportSettings = useMemo(() => ({ seed }), [seed]);
 
   // Generate colors dynamically from subtype names in data
   const subtypeColors = useMemo(() => {
@@ -177,8 +236,25 @@ const Index = () => {
                   </Button>
                 </div>
               </div>
+              {/* Random seed */}
+              <div className="flex items-center gap-2 border-r border-border pr-3">
+                <Label htmlFor="header-seed" className="text-xs text-muted-foreground whitespace-nowrap">
+                  Seed:
+                </Label>
+                <Input
+                  id="header-seed"
+                  type="number"
+                  value={seedDraft}
+                  onChange={(e) => setSeedDraft(e.target.value)}
+                  onBlur={applySeedDraft}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") applySeedDraft();
+                  }}
+                  className="h-7 w-24 text-center text-sm"
+                />
+              </div>
               <ThemeToggle />
-              <ExportAllButton getChartRefs={getChartRefs} />
+              <ExportAllButton getChartRefs={getChartRefs} settings={exportSettings} />
               <Button variant="outline" size="sm" onClick={handleGlobalResetFilters}>
                 <RotateCcw className="h-4 w-4 mr-1" />
                 Reset Filters
@@ -196,11 +272,14 @@ const Index = () => {
       <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
         {/* Upload Section */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <JsonUploader onDataLoaded={setData} />
+          <JsonUploader onDataLoaded={setData} onAnnotationLoaded={handleAnnotationLoaded} />
           <AnnotationUploader 
             onAnnotationLoaded={handleAnnotationLoaded} 
             sampleIds={sampleIds}
+            annotation={userAnnotations}
           />
+          <FactorMatrixImporter onDataLoaded={setData} />
+          <NmfRunner onDataLoaded={setData} seed={seed} />
         </div>
 
         {/* Summary Cards - Full Width */}
@@ -231,7 +310,11 @@ const Index = () => {
             samples={data.samples} 
             subtypeColors={subtypeColors} 
             userAnnotations={userAnnotations}
+            heatmapData={heatmapData}
             filterResetKey={filterResetKey}
+            seed={seed}
+            sampleSets={sampleSets}
+            onCreateSampleSet={handleCreateSampleSet}
           />
         </div>
 
@@ -242,13 +325,20 @@ const Index = () => {
             subtypeColors={subtypeColors} 
             userAnnotations={userAnnotations}
             heatmapData={heatmapData}
+            scoreSubtypes={data.scoreSubtypes}
             filterResetKey={filterResetKey}
+            seed={seed}
+            sampleSets={sampleSets}
+            onCreateSampleSet={handleCreateSampleSet}
           />
         </div>
 
+        {/* Sample sets drawn on the scatter plots */}
+        <SampleSetsPanel sampleSets={sampleSets} onDelete={handleDeleteSampleSet} />
+
         {/* PCA Scree Plot - Full Width */}
         <div ref={pcaScreeRef}>
-          <PCAScreePlot heatmapData={heatmapData} samples={data.samples} />
+          <PCAScreePlot heatmapData={heatmapData} samples={data.samples} seed={seed} />
         </div>
 
         {/* Expression Heatmap - Full Width */}
@@ -261,6 +351,7 @@ const Index = () => {
             filterResetKey={filterResetKey}
             markerGenesPerSubtype={markerGenesPerSubtype}
             markerGenes={data.markerGenes}
+            sampleSets={sampleSets}
           />
         </div>
 
@@ -280,8 +371,10 @@ const Index = () => {
             subtypeCounts={data.summary.subtype_counts}
             survivalPValue={data.survival_pvalue}
             coxPHResults={data.coxPHResults}
-            userAnnotations={userAnnotations}
+            userAnnotations={survivalAnnotations}
             sampleSubtypes={sampleSubtypes}
+            rawData={data.rawSurvivalData}
+            seed={seed}
           />
         </div>
       </main>